@@ -0,0 +1,49 @@
+-- Stop before changing anything if a status is none of the known ones in any spelling;
+-- fix those rows by hand and run it again rather than guess a status for them
+DO $$
+DECLARE
+    unknown TEXT;
+BEGIN
+    SELECT STRING_AGG(DISTINCT "status", ', ') INTO unknown
+    FROM "Assignment"
+    WHERE UPPER(REGEXP_REPLACE(TRIM("status"), '\s+', '_', 'g'))
+        NOT IN ('PENDING', 'ASSIGNED', 'IN_PROGRESS', 'COMPLETED', 'REJECTED');
+
+    IF unknown IS NOT NULL THEN
+        RAISE EXCEPTION 'Assignments with unknown statuses: %', unknown;
+    END IF;
+END $$;
+
+-- CreateEnum
+CREATE TYPE "AssignmentStatus" AS ENUM ('PENDING', 'ASSIGNED', 'IN_PROGRESS', 'COMPLETED', 'REJECTED');
+
+-- Normalize the free-form status strings ("In Progress", "completed", ...) before converting the column
+UPDATE "Assignment" SET "status" = UPPER(REGEXP_REPLACE(TRIM("status"), '\s+', '_', 'g'));
+
+-- AlterTable
+ALTER TABLE "Assignment" ALTER COLUMN "status" DROP DEFAULT,
+ALTER COLUMN "status" TYPE "AssignmentStatus" USING ("status"::"AssignmentStatus"),
+ALTER COLUMN "status" SET DEFAULT 'PENDING';
+
+-- CreateTable
+CREATE TABLE "AssignmentStatusHistory" (
+    "id" TEXT NOT NULL,
+    "assignment_id" TEXT NOT NULL,
+    "fromStatus" "AssignmentStatus",
+    "toStatus" "AssignmentStatus" NOT NULL,
+    "changed_by_id" TEXT,
+    "changedByRole" "Role",
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AssignmentStatusHistory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AssignmentStatusHistory_assignment_id_createdAt_idx" ON "AssignmentStatusHistory"("assignment_id", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "AssignmentStatusHistory" ADD CONSTRAINT "AssignmentStatusHistory_assignment_id_fkey" FOREIGN KEY ("assignment_id") REFERENCES "Assignment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AssignmentStatusHistory" ADD CONSTRAINT "AssignmentStatusHistory_changed_by_id_fkey" FOREIGN KEY ("changed_by_id") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "PaystackEvent" (
+    "id" TEXT NOT NULL,
+    "eventKey" TEXT NOT NULL,
+    "event" TEXT NOT NULL,
+    "reference" TEXT,
+    "payload" JSONB NOT NULL,
+    "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "processedAt" TIMESTAMP(3),
+
+    CONSTRAINT "PaystackEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PaystackEvent_eventKey_key" ON "PaystackEvent"("eventKey");
+
+-- CreateIndex
+CREATE INDEX "PaystackEvent_reference_idx" ON "PaystackEvent"("reference");
@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "PaymentStatus" AS ENUM ('INITIALIZED', 'SUCCESS', 'FAILED', 'REFUNDED');
+
+-- CreateTable
+CREATE TABLE "Payment" (
+    "id" TEXT NOT NULL,
+    "assignment_id" TEXT NOT NULL,
+    "payer_id" TEXT,
+    "reference" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'GHS',
+    "channel" TEXT,
+    "status" "PaymentStatus" NOT NULL DEFAULT 'INITIALIZED',
+    "providerPayload" JSONB,
+    "paidAt" TIMESTAMP(3),
+    "refundedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Payment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Payment_reference_key" ON "Payment"("reference");
+
+-- CreateIndex
+CREATE INDEX "Payment_assignment_id_status_idx" ON "Payment"("assignment_id", "status");
+
+-- AddForeignKey
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_assignment_id_fkey" FOREIGN KEY ("assignment_id") REFERENCES "Assignment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_payer_id_fkey" FOREIGN KEY ("payer_id") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Carry existing paid assignments over into the ledger
+INSERT INTO "Payment" ("id", "assignment_id", "payer_id", "reference", "amount", "channel", "status", "paidAt", "updatedAt")
+SELECT gen_random_uuid()::text, "id", "student_id", 'legacy-' || "id", ROUND(COALESCE("tutorCharge", 0) * 100)::integer,
+       'legacy', 'SUCCESS', COALESCE("paidAt", "completedAt", CURRENT_TIMESTAMP), CURRENT_TIMESTAMP
+FROM "Assignment"
+WHERE "isPaid" = true;
+
+-- AlterTable
+ALTER TABLE "Assignment" DROP COLUMN "isPaid",
+DROP COLUMN "paidAt";
@@ -0,0 +1,54 @@
+-- CreateEnum
+CREATE TYPE "PayoutStatus" AS ENUM ('PENDING', 'PROCESSING', 'SUCCESS', 'FAILED', 'REVERSED');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "paystackRecipientCode" TEXT;
+
+-- CreateTable
+CREATE TABLE "Payout" (
+    "id" TEXT NOT NULL,
+    "tutor_id" TEXT NOT NULL,
+    "assignment_id" TEXT NOT NULL,
+    "batch_id" TEXT,
+    "grossAmount" INTEGER NOT NULL,
+    "commissionAmount" INTEGER NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'GHS',
+    "status" "PayoutStatus" NOT NULL DEFAULT 'PENDING',
+    "reference" TEXT,
+    "transferCode" TEXT,
+    "failureReason" TEXT,
+    "paidAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Payout_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PayoutBatch" (
+    "id" TEXT NOT NULL,
+    "approved_by_id" TEXT,
+    "approvedBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PayoutBatch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Payout_assignment_id_key" ON "Payout"("assignment_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Payout_reference_key" ON "Payout"("reference");
+
+-- CreateIndex
+CREATE INDEX "Payout_tutor_id_status_idx" ON "Payout"("tutor_id", "status");
+
+-- AddForeignKey
+ALTER TABLE "Payout" ADD CONSTRAINT "Payout_tutor_id_fkey" FOREIGN KEY ("tutor_id") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Payout" ADD CONSTRAINT "Payout_assignment_id_fkey" FOREIGN KEY ("assignment_id") REFERENCES "Assignment"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Payout" ADD CONSTRAINT "Payout_batch_id_fkey" FOREIGN KEY ("batch_id") REFERENCES "PayoutBatch"("id") ON DELETE SET NULL ON UPDATE CASCADE;
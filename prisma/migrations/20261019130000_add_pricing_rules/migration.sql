@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "Assignment" ADD COLUMN     "dueAt" TIMESTAMP(3),
+ADD COLUMN     "platformFee" DOUBLE PRECISION,
+ADD COLUMN     "tutorQuote" DOUBLE PRECISION,
+ADD COLUMN     "urgencySurcharge" DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "PricingRule" (
+    "id" TEXT NOT NULL,
+    "programSpecialty" TEXT NOT NULL,
+    "minPrice" DOUBLE PRECISION NOT NULL,
+    "maxPrice" DOUBLE PRECISION NOT NULL,
+    "commissionPercent" DOUBLE PRECISION NOT NULL,
+    "urgentWithinHours" INTEGER NOT NULL DEFAULT 48,
+    "urgencySurchargePercent" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PricingRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PricingRule_programSpecialty_key" ON "PricingRule"("programSpecialty");
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Assignment" ADD COLUMN     "atRiskNotifiedAt" TIMESTAMP(3),
+ADD COLUMN     "deliveryBy" TIMESTAMP(3),
+ADD COLUMN     "overdueNotifiedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Assignment_status_dueAt_idx" ON "Assignment"("status", "dueAt");
@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "AssignmentFileKind" AS ENUM ('SOLUTION');
+
+-- CreateTable
+CREATE TABLE "AssignmentFile" (
+    "id" TEXT NOT NULL,
+    "assignment_id" TEXT NOT NULL,
+    "uploaded_by_id" TEXT NOT NULL,
+    "kind" "AssignmentFileKind" NOT NULL,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "fileName" TEXT NOT NULL,
+    "mimeType" TEXT,
+    "bytes" INTEGER,
+    "publicId" TEXT NOT NULL,
+    "resourceType" TEXT NOT NULL,
+    "deliveryType" TEXT NOT NULL DEFAULT 'private',
+    "format" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AssignmentFile_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AssignmentFile_assignment_id_kind_version_idx" ON "AssignmentFile"("assignment_id", "kind", "version");
+
+-- AddForeignKey
+ALTER TABLE "AssignmentFile" ADD CONSTRAINT "AssignmentFile_assignment_id_fkey" FOREIGN KEY ("assignment_id") REFERENCES "Assignment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AssignmentFile" ADD CONSTRAINT "AssignmentFile_uploaded_by_id_fkey" FOREIGN KEY ("uploaded_by_id") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "FileDownload" (
+    "id" TEXT NOT NULL,
+    "assignment_id" TEXT NOT NULL,
+    "file_id" TEXT,
+    "user_id" TEXT,
+    "userEmail" TEXT NOT NULL,
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "FileDownload_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "FileDownload_assignment_id_createdAt_idx" ON "FileDownload"("assignment_id", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "FileDownload" ADD CONSTRAINT "FileDownload_assignment_id_fkey" FOREIGN KEY ("assignment_id") REFERENCES "Assignment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FileDownload" ADD CONSTRAINT "FileDownload_file_id_fkey" FOREIGN KEY ("file_id") REFERENCES "AssignmentFile"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FileDownload" ADD CONSTRAINT "FileDownload_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "TutorSpecialty" (
+    "id" TEXT NOT NULL,
+    "tutor_id" TEXT NOT NULL,
+    "specialty" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TutorSpecialty_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TutorSpecialty_tutor_id_specialty_key" ON "TutorSpecialty"("tutor_id", "specialty");
+
+-- CreateIndex
+CREATE INDEX "TutorSpecialty_specialty_idx" ON "TutorSpecialty"("specialty");
+
+-- CreateIndex
+CREATE INDEX "Assignment_programSpecialty_status_idx" ON "Assignment"("programSpecialty", "status");
+
+-- AddForeignKey
+ALTER TABLE "TutorSpecialty" ADD CONSTRAINT "TutorSpecialty_tutor_id_fkey" FOREIGN KEY ("tutor_id") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill from the single specialty tutors registered with
+INSERT INTO "TutorSpecialty" ("id", "tutor_id", "specialty")
+SELECT gen_random_uuid()::text, "id", "programSpecialty"
+FROM "User"
+WHERE "role" = 'TUTOR' AND "programSpecialty" IS NOT NULL AND "programSpecialty" <> '';
@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "AssignmentOfferStatus" AS ENUM ('PENDING', 'ACCEPTED', 'DECLINED', 'EXPIRED', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "Assignment" ADD COLUMN     "autoAssign" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "ratedAt" TIMESTAMP(3),
+ADD COLUMN     "studentRating" INTEGER;
+
+-- CreateTable
+CREATE TABLE "AssignmentOffer" (
+    "id" TEXT NOT NULL,
+    "assignment_id" TEXT NOT NULL,
+    "tutor_id" TEXT NOT NULL,
+    "rank" INTEGER NOT NULL,
+    "score" DOUBLE PRECISION NOT NULL,
+    "status" "AssignmentOfferStatus" NOT NULL DEFAULT 'PENDING',
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "respondedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AssignmentOffer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AssignmentOffer_assignment_id_tutor_id_key" ON "AssignmentOffer"("assignment_id", "tutor_id");
+
+-- CreateIndex
+CREATE INDEX "AssignmentOffer_status_expiresAt_idx" ON "AssignmentOffer"("status", "expiresAt");
+
+-- CreateIndex
+CREATE INDEX "AssignmentOffer_tutor_id_status_idx" ON "AssignmentOffer"("tutor_id", "status");
+
+-- AddForeignKey
+ALTER TABLE "AssignmentOffer" ADD CONSTRAINT "AssignmentOffer_assignment_id_fkey" FOREIGN KEY ("assignment_id") REFERENCES "Assignment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AssignmentOffer" ADD CONSTRAINT "AssignmentOffer_tutor_id_fkey" FOREIGN KEY ("tutor_id") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
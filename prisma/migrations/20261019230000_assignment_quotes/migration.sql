@@ -0,0 +1,38 @@
+-- AlterEnum
+ALTER TYPE "AssignmentStatus" ADD VALUE 'QUOTED';
+
+-- CreateEnum
+CREATE TYPE "QuoteStatus" AS ENUM ('PENDING', 'ACCEPTED', 'DECLINED', 'EXPIRED', 'SUPERSEDED');
+
+-- CreateTable
+CREATE TABLE "AssignmentQuote" (
+    "id" TEXT NOT NULL,
+    "assignment_id" TEXT NOT NULL,
+    "tutor_id" TEXT NOT NULL,
+    "tutorQuote" DOUBLE PRECISION NOT NULL,
+    "platformFee" DOUBLE PRECISION NOT NULL,
+    "urgencySurcharge" DOUBLE PRECISION NOT NULL,
+    "tutorCharge" DOUBLE PRECISION NOT NULL,
+    "deliveryBy" TIMESTAMP(3),
+    "note" TEXT,
+    "status" "QuoteStatus" NOT NULL DEFAULT 'PENDING',
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "respondedAt" TIMESTAMP(3),
+    "responseNote" TEXT,
+    "counterOffer" DOUBLE PRECISION,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AssignmentQuote_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AssignmentQuote_assignment_id_createdAt_idx" ON "AssignmentQuote"("assignment_id", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "AssignmentQuote_status_expiresAt_idx" ON "AssignmentQuote"("status", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "AssignmentQuote" ADD CONSTRAINT "AssignmentQuote_assignment_id_fkey" FOREIGN KEY ("assignment_id") REFERENCES "Assignment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AssignmentQuote" ADD CONSTRAINT "AssignmentQuote_tutor_id_fkey" FOREIGN KEY ("tutor_id") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,17 @@
+-- AlterEnum
+ALTER TYPE "AssignmentStatus" ADD VALUE 'AWAITING_PAYMENT';
+ALTER TYPE "AssignmentStatus" ADD VALUE 'ACCEPTED';
+ALTER TYPE "AssignmentStatus" ADD VALUE 'CANCELLED';
+
+-- CreateEnum
+CREATE TYPE "PaymentMode" AS ENUM ('PAY_ON_DELIVERY', 'ESCROW');
+
+-- AlterTable
+ALTER TABLE "Assignment" ADD COLUMN     "acceptedAt" TIMESTAMP(3),
+ADD COLUMN     "autoAcceptAt" TIMESTAMP(3),
+ADD COLUMN     "cancellationReason" TEXT,
+ADD COLUMN     "cancelledAt" TIMESTAMP(3),
+ADD COLUMN     "paymentMode" "PaymentMode" NOT NULL DEFAULT 'PAY_ON_DELIVERY';
+
+-- CreateIndex
+CREATE INDEX "Assignment_status_autoAcceptAt_idx" ON "Assignment"("status", "autoAcceptAt");
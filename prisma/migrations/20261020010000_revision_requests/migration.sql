@@ -0,0 +1,45 @@
+-- AlterEnum
+ALTER TYPE "AssignmentStatus" ADD VALUE 'REVISION_REQUESTED';
+
+-- AlterEnum
+ALTER TYPE "AssignmentFileKind" ADD VALUE 'REVISION_ATTACHMENT';
+
+-- AlterTable
+ALTER TABLE "Assignment" ADD COLUMN     "revisionCount" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "RevisionRequest" (
+    "id" TEXT NOT NULL,
+    "assignment_id" TEXT NOT NULL,
+    "requested_by_id" TEXT NOT NULL,
+    "revisionNumber" INTEGER NOT NULL,
+    "reason" TEXT NOT NULL,
+    "attachmentVersion" INTEGER,
+    "resolvedAt" TIMESTAMP(3),
+    "resolvedVersion" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RevisionRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PlatformSetting" (
+    "key" TEXT NOT NULL,
+    "value" JSONB NOT NULL,
+    "updated_by_id" TEXT,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PlatformSetting_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RevisionRequest_assignment_id_revisionNumber_key" ON "RevisionRequest"("assignment_id", "revisionNumber");
+
+-- AddForeignKey
+ALTER TABLE "RevisionRequest" ADD CONSTRAINT "RevisionRequest_assignment_id_fkey" FOREIGN KEY ("assignment_id") REFERENCES "Assignment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RevisionRequest" ADD CONSTRAINT "RevisionRequest_requested_by_id_fkey" FOREIGN KEY ("requested_by_id") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PlatformSetting" ADD CONSTRAINT "PlatformSetting_updated_by_id_fkey" FOREIGN KEY ("updated_by_id") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,72 @@
+-- AlterEnum
+ALTER TYPE "AssignmentFileKind" ADD VALUE 'DISPUTE_EVIDENCE';
+
+-- AlterEnum
+ALTER TYPE "PayoutStatus" ADD VALUE 'HELD';
+ALTER TYPE "PayoutStatus" ADD VALUE 'CANCELLED';
+
+-- CreateEnum
+CREATE TYPE "DisputeReason" AS ENUM ('NOT_DELIVERED', 'PLAGIARISM', 'POOR_QUALITY', 'OTHER');
+
+-- CreateEnum
+CREATE TYPE "DisputeStatus" AS ENUM ('OPEN', 'RESOLVED');
+
+-- CreateEnum
+CREATE TYPE "DisputeOutcome" AS ENUM ('FULL_REFUND', 'PARTIAL_REFUND', 'TUTOR_UPHELD');
+
+-- AlterTable
+ALTER TABLE "Payment" ADD COLUMN     "refundedAmount" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "Dispute" (
+    "id" TEXT NOT NULL,
+    "assignment_id" TEXT NOT NULL,
+    "opened_by_id" TEXT NOT NULL,
+    "reason" "DisputeReason" NOT NULL,
+    "description" TEXT NOT NULL,
+    "status" "DisputeStatus" NOT NULL DEFAULT 'OPEN',
+    "outcome" "DisputeOutcome",
+    "refundAmount" INTEGER,
+    "resolutionNote" TEXT,
+    "resolved_by_id" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Dispute_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "DisputeEvidence" (
+    "id" TEXT NOT NULL,
+    "dispute_id" TEXT NOT NULL,
+    "submitted_by_id" TEXT NOT NULL,
+    "note" TEXT,
+    "fileVersion" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DisputeEvidence_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Dispute_status_createdAt_idx" ON "Dispute"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Dispute_assignment_id_idx" ON "Dispute"("assignment_id");
+
+-- CreateIndex
+CREATE INDEX "DisputeEvidence_dispute_id_createdAt_idx" ON "DisputeEvidence"("dispute_id", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "Dispute" ADD CONSTRAINT "Dispute_assignment_id_fkey" FOREIGN KEY ("assignment_id") REFERENCES "Assignment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Dispute" ADD CONSTRAINT "Dispute_opened_by_id_fkey" FOREIGN KEY ("opened_by_id") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Dispute" ADD CONSTRAINT "Dispute_resolved_by_id_fkey" FOREIGN KEY ("resolved_by_id") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DisputeEvidence" ADD CONSTRAINT "DisputeEvidence_dispute_id_fkey" FOREIGN KEY ("dispute_id") REFERENCES "Dispute"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DisputeEvidence" ADD CONSTRAINT "DisputeEvidence_submitted_by_id_fkey" FOREIGN KEY ("submitted_by_id") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
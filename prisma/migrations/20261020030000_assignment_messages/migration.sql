@@ -0,0 +1,67 @@
+-- CreateEnum
+CREATE TYPE "MessageEmailMode" AS ENUM ('IMMEDIATE', 'DIGEST', 'OFF');
+
+-- AlterEnum
+ALTER TYPE "AssignmentFileKind" ADD VALUE 'MESSAGE_ATTACHMENT';
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "messageEmails" "MessageEmailMode" NOT NULL DEFAULT 'IMMEDIATE';
+
+-- CreateTable
+CREATE TABLE "AssignmentMessage" (
+    "id" TEXT NOT NULL,
+    "assignment_id" TEXT NOT NULL,
+    "sender_id" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "attachmentVersion" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AssignmentMessage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "MessageReceipt" (
+    "message_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "readAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MessageReceipt_pkey" PRIMARY KEY ("message_id","user_id")
+);
+
+-- CreateTable
+CREATE TABLE "MessageDigestEntry" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "message_id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "sentAt" TIMESTAMP(3),
+
+    CONSTRAINT "MessageDigestEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AssignmentMessage_assignment_id_createdAt_idx" ON "AssignmentMessage"("assignment_id", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "MessageDigestEntry_sentAt_user_id_idx" ON "MessageDigestEntry"("sentAt", "user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MessageDigestEntry_user_id_message_id_key" ON "MessageDigestEntry"("user_id", "message_id");
+
+-- AddForeignKey
+ALTER TABLE "AssignmentMessage" ADD CONSTRAINT "AssignmentMessage_assignment_id_fkey" FOREIGN KEY ("assignment_id") REFERENCES "Assignment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AssignmentMessage" ADD CONSTRAINT "AssignmentMessage_sender_id_fkey" FOREIGN KEY ("sender_id") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MessageReceipt" ADD CONSTRAINT "MessageReceipt_message_id_fkey" FOREIGN KEY ("message_id") REFERENCES "AssignmentMessage"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MessageReceipt" ADD CONSTRAINT "MessageReceipt_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MessageDigestEntry" ADD CONSTRAINT "MessageDigestEntry_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MessageDigestEntry" ADD CONSTRAINT "MessageDigestEntry_message_id_fkey" FOREIGN KEY ("message_id") REFERENCES "AssignmentMessage"("id") ON DELETE CASCADE ON UPDATE CASCADE;
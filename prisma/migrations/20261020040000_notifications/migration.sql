@@ -0,0 +1,45 @@
+-- CreateEnum
+CREATE TYPE "NotificationEvent" AS ENUM ('ASSIGNMENT_SUBMITTED', 'ASSIGNMENT_ASSIGNED', 'ASSIGNMENT_PRICED', 'ASSIGNMENT_COMPLETED', 'TUTOR_APPROVED');
+
+-- CreateEnum
+CREATE TYPE "NotificationEmailStatus" AS ENUM ('SENT', 'FAILED', 'DISABLED');
+
+-- CreateTable
+CREATE TABLE "Notification" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "event" "NotificationEvent" NOT NULL,
+    "title" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "assignment_id" TEXT,
+    "emailStatus" "NotificationEmailStatus",
+    "readAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Notification_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "NotificationPreference" (
+    "user_id" TEXT NOT NULL,
+    "event" "NotificationEvent" NOT NULL,
+    "email" BOOLEAN NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "NotificationPreference_pkey" PRIMARY KEY ("user_id","event")
+);
+
+-- CreateIndex
+CREATE INDEX "Notification_user_id_readAt_idx" ON "Notification"("user_id", "readAt");
+
+-- CreateIndex
+CREATE INDEX "Notification_user_id_createdAt_idx" ON "Notification"("user_id", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "Notification" ADD CONSTRAINT "Notification_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Notification" ADD CONSTRAINT "Notification_assignment_id_fkey" FOREIGN KEY ("assignment_id") REFERENCES "Assignment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "NotificationPreference" ADD CONSTRAINT "NotificationPreference_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "smsNotifications" BOOLEAN NOT NULL DEFAULT true;
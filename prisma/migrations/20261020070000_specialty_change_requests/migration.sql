@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "SpecialtyChangeStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED', 'SUPERSEDED');
+
+-- CreateTable
+CREATE TABLE "SpecialtyChangeRequest" (
+    "id" TEXT NOT NULL,
+    "tutor_id" TEXT NOT NULL,
+    "programSpecialty" TEXT NOT NULL,
+    "specialties" TEXT[],
+    "status" "SpecialtyChangeStatus" NOT NULL DEFAULT 'PENDING',
+    "reviewed_by_id" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "reviewNote" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SpecialtyChangeRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SpecialtyChangeRequest_tutor_id_status_idx" ON "SpecialtyChangeRequest"("tutor_id", "status");
+
+-- CreateIndex
+CREATE INDEX "SpecialtyChangeRequest_status_createdAt_idx" ON "SpecialtyChangeRequest"("status", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "SpecialtyChangeRequest" ADD CONSTRAINT "SpecialtyChangeRequest_tutor_id_fkey" FOREIGN KEY ("tutor_id") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SpecialtyChangeRequest" ADD CONSTRAINT "SpecialtyChangeRequest_reviewed_by_id_fkey" FOREIGN KEY ("reviewed_by_id") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
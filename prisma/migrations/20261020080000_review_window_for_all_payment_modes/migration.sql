@@ -0,0 +1,5 @@
+-- Pay-on-delivery solutions now get the same review window as escrow ones;
+-- give those already delivered a window starting now
+UPDATE "Assignment"
+SET "autoAcceptAt" = CURRENT_TIMESTAMP + INTERVAL '72 hours'
+WHERE "status" = 'COMPLETED' AND "autoAcceptAt" IS NULL;
@@ -0,0 +1,8 @@
+-- AlterEnum
+ALTER TYPE "DisputeStatus" ADD VALUE 'REFUNDING';
+
+-- AlterEnum
+ALTER TYPE "DisputeStatus" ADD VALUE 'REFUND_FAILED';
+
+-- AlterTable
+ALTER TABLE "Dispute" ADD COLUMN     "failedRefunds" JSONB;
@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "NotificationEvent" ADD VALUE 'TUTOR_REJECTED';
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "rejectedAt" TIMESTAMP(3);
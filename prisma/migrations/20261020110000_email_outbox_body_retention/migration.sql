@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "EmailOutbox" ALTER COLUMN "text" DROP NOT NULL;
+
+-- Drop the bodies already kept for sent or failed emails, and any pending one with a single-use link
+UPDATE "EmailOutbox" SET "text" = NULL, "html" = NULL WHERE "status" IN ('SENT', 'FAILED');
+UPDATE "EmailOutbox"
+SET "text" = NULL, "html" = NULL, "status" = 'FAILED', "lastError" = 'Body dropped: it carried a single-use link'
+WHERE "status" = 'PENDING' AND "template" IN ('emailVerification', 'passwordReset', 'adminInvitation');
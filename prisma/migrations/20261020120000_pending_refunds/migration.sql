@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Payment" ADD COLUMN     "pendingRefundAmount" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Dispute" ADD COLUMN     "issuedRefundAmount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "refundsStartedAt" TIMESTAMP(3);
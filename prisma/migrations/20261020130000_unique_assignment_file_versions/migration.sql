@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "AssignmentFile" ADD COLUMN     "position" INTEGER NOT NULL DEFAULT 0;
+
+-- Number the files already stored in each version in upload order
+UPDATE "AssignmentFile" AS f
+SET "position" = numbered."position"
+FROM (
+    SELECT "id", ROW_NUMBER() OVER (PARTITION BY "assignment_id", "kind", "version" ORDER BY "createdAt", "id") - 1 AS "position"
+    FROM "AssignmentFile"
+) AS numbered
+WHERE f."id" = numbered."id";
+
+-- DropIndex
+DROP INDEX "AssignmentFile_assignment_id_kind_version_idx";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AssignmentFile_assignment_id_kind_version_position_key" ON "AssignmentFile"("assignment_id", "kind", "version", "position");
@@ -0,0 +1,79 @@
+import request from "supertest";
+import app from "../app";
+import { resetDatabase, rowsOf, seed } from "./support/fakePrisma";
+import { seedAssignment, seedLoggedInUser, seedStudent } from "./support/fixtures";
+
+jest.mock("../config/prisma", () => require("./support/fakePrisma"));
+
+const SPECIALTY = "Computer Science";
+
+// A logged-in, approved tutor in SPECIALTY
+const seedTutor = (n: number) => {
+  const { user: tutor, cookie } = seedLoggedInUser({
+    email: `tutor${n}@aplusplanner.test`,
+    firstName: "Tutor",
+    lastName: `${n}`,
+    role: "TUTOR",
+    programSpecialty: SPECIALTY,
+    isApproved: true,
+    isVerified: true,
+  });
+  seed("tutorSpecialty", { tutorId: tutor.id, specialty: SPECIALTY });
+  return { tutor, cookie };
+};
+
+const seedOpenJob = () =>
+  seedAssignment({
+    title: "Data structures assignment",
+    programSpecialty: SPECIALTY,
+    studentId: seedStudent().id,
+    status: "ASSIGNED",
+    paymentMode: "PAY_ON_DELIVERY",
+    tutorCharge: null,
+    platformFee: null,
+  });
+
+beforeEach(() => {
+  resetDatabase();
+  jest.spyOn(console, "log").mockImplementation(() => undefined);
+});
+
+afterEach(() => jest.restoreAllMocks());
+
+describe("POST /api/assignments/:assignmentId/claim", () => {
+  // The fake Prisma client has no transaction isolation or rollback, so this
+  // does not prove the claim is race-safe against Postgres. It checks that the
+  // conditional update lets only one of several interleaved claims through.
+  it("lets only one of several interleaved claims take the job", async () => {
+    const job = seedOpenJob();
+    const tutors = Array.from({ length: 6 }, (_, n) => seedTutor(n + 1));
+
+    const responses = await Promise.all(
+      tutors.map(({ cookie }) => request(app).post(`/api/assignments/${job.id}/claim`).set("Cookie", cookie))
+    );
+
+    const statuses = responses.map((res) => res.status);
+    expect(statuses.filter((status) => status === 200)).toHaveLength(1);
+    expect(statuses.filter((status) => status === 409)).toHaveLength(tutors.length - 1);
+
+    const winner = tutors[statuses.indexOf(200)].tutor;
+    const stored = rowsOf("assignment").find((row) => row.id === job.id);
+    expect(stored).toMatchObject({ status: "ASSIGNED", assignedTutorId: winner.id });
+
+    // Only the winning claim is in the history
+    expect(rowsOf("assignmentStatusHistory")).toEqual([
+      expect.objectContaining({ assignmentId: job.id, changedById: winner.id, note: `Claimed by tutor ${winner.id}` }),
+    ]);
+  });
+
+  it("tells a later tutor the job is taken", async () => {
+    const job = seedOpenJob();
+    const [first, second] = [seedTutor(1), seedTutor(2)];
+
+    await request(app).post(`/api/assignments/${job.id}/claim`).set("Cookie", first.cookie).expect(200);
+    const res = await request(app).post(`/api/assignments/${job.id}/claim`).set("Cookie", second.cookie);
+
+    expect(res.status).toBe(409);
+    expect(rowsOf("assignment").find((row) => row.id === job.id)?.assignedTutorId).toBe(first.tutor.id);
+  });
+});
@@ -0,0 +1,64 @@
+import request from "supertest";
+import app from "../app";
+import { resetDatabase, rowsOf } from "./support/fakePrisma";
+import { seedAssignment, seedLoggedInUser, seedTutor } from "./support/fixtures";
+
+jest.mock("../config/prisma", () => require("./support/fakePrisma"));
+
+const seedUser = (role: string, email: string) => seedLoggedInUser({ role, email });
+
+// An escrow job whose accepted quote is waiting for the student's payment
+const seedEscrowJob = (studentId: string) =>
+  seedAssignment({ studentId, assignedTutorId: seedTutor().id, status: "AWAITING_PAYMENT", paymentMode: "ESCROW" });
+
+beforeEach(() => {
+  resetDatabase();
+  jest.spyOn(console, "log").mockImplementation(() => undefined);
+});
+
+afterEach(() => jest.restoreAllMocks());
+
+describe("PUT /api/assignments/mark-paid/:assignmentId", () => {
+  it("starts work on an escrow job like a Paystack payment would", async () => {
+    const student = seedUser("STUDENT", "student@aplusplanner.test");
+    const admin = seedUser("ADMIN", "admin@aplusplanner.test");
+    const job = seedEscrowJob(student.user.id);
+
+    await request(app).put(`/api/assignments/mark-paid/${job.id}`).set("Cookie", admin.cookie).expect(200);
+
+    expect(rowsOf("payment")).toEqual([
+      expect.objectContaining({ assignmentId: job.id, status: "SUCCESS", amount: 12000, channel: "manual" }),
+    ]);
+    expect(rowsOf("assignment").find((row) => row.id === job.id)?.status).toBe("IN_PROGRESS");
+    expect(rowsOf("assignmentStatusHistory")).toEqual([
+      expect.objectContaining({ fromStatus: "AWAITING_PAYMENT", toStatus: "IN_PROGRESS" }),
+    ]);
+  });
+
+  it("records one payment when two admins mark the job paid at once", async () => {
+    const student = seedUser("STUDENT", "student@aplusplanner.test");
+    const admin = seedUser("ADMIN", "admin@aplusplanner.test");
+    const otherAdmin = seedUser("ADMIN", "admin2@aplusplanner.test");
+    const job = seedEscrowJob(student.user.id);
+
+    const responses = await Promise.all(
+      [admin, otherAdmin].map(({ cookie }) =>
+        request(app).put(`/api/assignments/mark-paid/${job.id}`).set("Cookie", cookie)
+      )
+    );
+
+    expect(responses.map((res) => res.status).sort()).toEqual([200, 400]);
+    expect(rowsOf("payment")).toHaveLength(1);
+    expect(rowsOf("assignmentStatusHistory")).toHaveLength(1);
+  });
+
+  it("does not let a student mark their own job paid", async () => {
+    const student = seedUser("STUDENT", "student@aplusplanner.test");
+    const job = seedEscrowJob(student.user.id);
+
+    await request(app).put(`/api/assignments/mark-paid/${job.id}`).set("Cookie", student.cookie).expect(403);
+
+    expect(rowsOf("payment")).toHaveLength(0);
+    expect(rowsOf("assignment").find((row) => row.id === job.id)?.status).toBe("AWAITING_PAYMENT");
+  });
+});
@@ -0,0 +1,119 @@
+import request from "supertest";
+import type { Express } from "express";
+import { resetDatabase, rowsOf, seed } from "./support/fakePrisma";
+import { signedWebhook, startFakePaystack } from "./support/fakePaystack";
+import { seedAssignment, seedLoggedInUser, seedStudent, seedTutor } from "./support/fixtures";
+
+jest.mock("../config/prisma", () => require("./support/fakePrisma"));
+
+let paystack: Awaited<ReturnType<typeof startFakePaystack>>;
+let app: Express;
+
+// An accepted job whose tutor's payout is queued, or in `fields` state
+const seedPayout = (fields: Record<string, unknown> = {}) => {
+  const tutor = seedTutor({ momoNumber: "0241234567", paystackRecipientCode: null });
+  const assignment = seedAssignment({
+    studentId: seedStudent().id,
+    assignedTutorId: tutor.id,
+    status: "ACCEPTED",
+    paymentMode: "PAY_ON_DELIVERY",
+  });
+
+  return seed("payout", {
+    tutorId: tutor.id,
+    assignmentId: assignment.id,
+    grossAmount: 12000,
+    commissionAmount: 2000,
+    amount: 10000,
+    status: "PENDING",
+    reference: null,
+    batchId: null,
+    failureReason: null,
+    ...fields,
+  });
+};
+
+const approve = (payoutIds: string[], cookie: string) =>
+  request(app).post("/api/admin/payouts/approve").set("Cookie", cookie).send({ payoutIds });
+
+const transferRequests = () => paystack.requests.filter((req) => req.path === "/transfer");
+
+beforeAll(async () => {
+  paystack = await startFakePaystack();
+  // paystackService reads the base URL when it is first imported
+  process.env.PAYSTACK_BASE_URL = paystack.url;
+  app = (await import("../app")).default;
+});
+
+afterAll(() => paystack.close());
+
+beforeEach(() => {
+  resetDatabase();
+  paystack.requests.length = 0;
+  paystack.setTransferMode("accepted");
+  jest.spyOn(console, "log").mockImplementation(() => undefined);
+  jest.spyOn(console, "error").mockImplementation(() => undefined);
+});
+
+afterEach(() => jest.restoreAllMocks());
+
+describe("POST /api/admin/payouts/approve", () => {
+  it("leaves a transfer Paystack may have taken PROCESSING until a verify settles it", async () => {
+    const { cookie } = seedLoggedInUser({ email: "admin@aplusplanner.test", role: "ADMIN" });
+    const payout = seedPayout();
+    paystack.setTransferMode("unanswered");
+
+    await approve([payout.id], cookie).expect(200);
+
+    const { reference } = rowsOf("payout")[0];
+    expect(rowsOf("payout")[0]).toMatchObject({ status: "PROCESSING", reference: expect.stringMatching(/^payout-/) });
+
+    // It cannot be approved, and so sent, a second time
+    await approve([payout.id], cookie).expect(409);
+    expect(transferRequests()).toHaveLength(1);
+
+    paystack.settleTransfer(reference, "success");
+    await request(app).post(`/api/admin/payouts/${payout.id}/verify`).set("Cookie", cookie).expect(200);
+
+    expect(rowsOf("payout")[0]).toMatchObject({ status: "SUCCESS", paidAt: expect.any(Date) });
+  });
+
+  it("retries a rejected transfer with the same reference", async () => {
+    const { cookie } = seedLoggedInUser({ email: "admin@aplusplanner.test", role: "ADMIN" });
+    const payout = seedPayout();
+    paystack.setTransferMode("rejected");
+
+    await approve([payout.id], cookie).expect(200);
+
+    const { reference } = rowsOf("payout")[0];
+    expect(rowsOf("payout")[0]).toMatchObject({
+      status: "FAILED",
+      failureReason: "Your balance is not enough to fulfil this request",
+    });
+
+    paystack.setTransferMode("accepted");
+    await approve([payout.id], cookie).expect(200);
+
+    expect(rowsOf("payout")[0]).toMatchObject({ status: "PROCESSING", reference, transferCode: `TRF_${reference}` });
+    expect(transferRequests().map((req) => (req.body as { reference: string }).reference)).toEqual([reference, reference]);
+    expect(rowsOf("payoutBatch")).toHaveLength(2);
+  });
+
+  it("applies a late transfer.success to a payout already marked FAILED", async () => {
+    const payout = seedPayout({ status: "FAILED", reference: "payout-late", failureReason: "Request timed out" });
+    const signed = signedWebhook({ event: "transfer.success", data: { id: 501, reference: "payout-late", transfer_code: "TRF_late" } });
+
+    await request(app)
+      .post("/api/payments/webhook")
+      .set("Content-Type", "application/json")
+      .set("x-paystack-signature", signed.signature)
+      .send(signed.body)
+      .expect(200);
+
+    expect(rowsOf("payout").find((row) => row.id === payout.id)).toMatchObject({
+      status: "SUCCESS",
+      transferCode: "TRF_late",
+      failureReason: null,
+    });
+  });
+});
@@ -0,0 +1,151 @@
+import request from "supertest";
+import type { Express } from "express";
+import { resetDatabase, rowsOf, seed } from "./support/fakePrisma";
+import { signedWebhook, startFakePaystack } from "./support/fakePaystack";
+import { seedAssignment, seedStudent, seedTutor } from "./support/fixtures";
+import { fakeSmsInbox } from "../utils/smsProvider";
+
+jest.mock("../config/prisma", () => require("./support/fakePrisma"));
+
+let paystack: Awaited<ReturnType<typeof startFakePaystack>>;
+let app: Express;
+
+const sendWebhook = (payload: unknown, signature?: string) => {
+  const signed = signedWebhook(payload);
+  return request(app)
+    .post("/api/payments/webhook")
+    .set("Content-Type", "application/json")
+    .set("x-paystack-signature", signature ?? signed.signature)
+    .send(signed.body);
+};
+
+// An escrow job whose accepted quote is waiting for the student's payment
+const seedEscrowJob = () => {
+  const student = seedStudent({ phoneNumber: "0241234567", smsNotifications: true });
+  const assignment = seedAssignment({
+    studentId: student.id,
+    assignedTutorId: seedTutor().id,
+    status: "AWAITING_PAYMENT",
+    paymentMode: "ESCROW",
+  });
+  const payment = seed("payment", {
+    assignmentId: assignment.id,
+    payerId: student.id,
+    reference: "ref_escrow_1",
+    amount: 12000,
+    status: "INITIALIZED",
+  });
+
+  paystack.addTransaction({ reference: payment.reference, amount: 12000, status: "success", assignmentId: assignment.id });
+
+  return { student, assignment, payment };
+};
+
+const chargeSuccess = (reference: string, id = 9001) => ({
+  event: "charge.success",
+  data: { id, reference, amount: 12000, status: "success" },
+});
+
+beforeAll(async () => {
+  paystack = await startFakePaystack();
+  // paystackService reads the base URL when it is first imported
+  process.env.PAYSTACK_BASE_URL = paystack.url;
+  app = (await import("../app")).default;
+});
+
+afterAll(() => paystack.close());
+
+beforeEach(() => {
+  resetDatabase();
+  fakeSmsInbox.length = 0;
+  jest.spyOn(console, "log").mockImplementation(() => undefined);
+});
+
+afterEach(() => jest.restoreAllMocks());
+
+describe("POST /api/payments/webhook", () => {
+  it("rejects a body whose signature does not match", async () => {
+    const { payment } = seedEscrowJob();
+    const forged = signedWebhook(chargeSuccess(payment.reference), "sk_test_someone_else");
+
+    const res = await sendWebhook(chargeSuccess(payment.reference), forged.signature);
+
+    expect(res.status).toBe(401);
+    expect(rowsOf("paystackEvent")).toHaveLength(0);
+    expect(rowsOf("payment")[0].status).toBe("INITIALIZED");
+    expect(paystack.requests).not.toContainEqual(expect.objectContaining({ path: `/transaction/verify/${payment.reference}` }));
+  });
+
+  it("rejects a request without a signature", async () => {
+    const { payment } = seedEscrowJob();
+
+    const res = await request(app)
+      .post("/api/payments/webhook")
+      .set("Content-Type", "application/json")
+      .send(JSON.stringify(chargeSuccess(payment.reference)));
+
+    expect(res.status).toBe(401);
+    expect(rowsOf("paystackEvent")).toHaveLength(0);
+  });
+
+  it("settles a payment once when Paystack delivers the same event twice", async () => {
+    const { assignment, payment } = seedEscrowJob();
+
+    const first = await sendWebhook(chargeSuccess(payment.reference));
+    const second = await sendWebhook(chargeSuccess(payment.reference));
+
+    expect(first.body.message).toBe("Event received.");
+    expect(second.body.message).toBe("Event already processed.");
+
+    expect(rowsOf("paystackEvent")).toEqual([
+      expect.objectContaining({ eventKey: "charge.success:9001", processedAt: expect.any(Date) }),
+    ]);
+    expect(rowsOf("payment")).toEqual([expect.objectContaining({ status: "SUCCESS", amount: 12000 })]);
+
+    // The escrow hold started the work exactly once, and the student was texted once
+    const started = rowsOf("assignmentStatusHistory").filter((row) => row.toStatus === "IN_PROGRESS");
+    expect(started).toHaveLength(1);
+    expect(rowsOf("assignment").find((row) => row.id === assignment.id)?.status).toBe("IN_PROGRESS");
+    expect(fakeSmsInbox).toHaveLength(1);
+  });
+
+  it("answers 200 to a delivery that arrives while the same event is being recorded", async () => {
+    const { payment } = seedEscrowJob();
+
+    const responses = await Promise.all([
+      sendWebhook(chargeSuccess(payment.reference)),
+      sendWebhook(chargeSuccess(payment.reference)),
+    ]);
+
+    expect(responses.map((res) => res.status)).toEqual([200, 200]);
+    expect(responses.map((res) => res.body.message).sort()).toEqual(["Event already received.", "Event received."]);
+    expect(rowsOf("paystackEvent")).toHaveLength(1);
+    expect(rowsOf("payment")).toEqual([expect.objectContaining({ status: "SUCCESS", amount: 12000 })]);
+  });
+
+  it("keeps a refund that arrives before its charge", async () => {
+    const { assignment, payment } = seedEscrowJob();
+    rowsOf("payment").length = 0; // Initialized before the ledger existed, so Paystack is the only record
+
+    const refund = await sendWebhook({
+      event: "refund.processed",
+      data: { id: 77, transaction_reference: payment.reference, amount: 12000, status: "processed" },
+    });
+    const charge = await sendWebhook(chargeSuccess(payment.reference));
+
+    expect(refund.body.message).toBe("Event received.");
+    expect(charge.body.message).toBe("Event received.");
+
+    expect(rowsOf("payment")).toEqual([
+      expect.objectContaining({ assignmentId: assignment.id, status: "REFUNDED", refundedAmount: 12000 }),
+    ]);
+    expect(rowsOf("paystackEvent").map((row) => row.eventKey).sort()).toEqual([
+      "charge.success:9001",
+      "refund.processed:77",
+    ]);
+
+    // The late charge must not start work or text the student about a payment that was refunded
+    expect(rowsOf("assignment").find((row) => row.id === assignment.id)?.status).toBe("AWAITING_PAYMENT");
+    expect(fakeSmsInbox).toHaveLength(0);
+  });
+});
@@ -0,0 +1,162 @@
+import request from "supertest";
+import type { Express } from "express";
+import { resetDatabase, rowsOf, seed } from "./support/fakePrisma";
+import { startFakePaystack } from "./support/fakePaystack";
+import { seedAssignment, seedLoggedInUser, seedStudent, seedTutor } from "./support/fixtures";
+
+jest.mock("../config/prisma", () => require("./support/fakePrisma"));
+
+let paystack: Awaited<ReturnType<typeof startFakePaystack>>;
+let app: Express;
+
+const seedAdmin = () => seedLoggedInUser({ email: "admin@aplusplanner.test", role: "ADMIN" }).cookie;
+
+// A paid job the student disputed. An accepted one has the tutor's payout held
+const seedDisputedJob = (channel: string, status = "ACCEPTED") => {
+  const student = seedStudent();
+  const tutor = seedTutor();
+  const assignment = seedAssignment({
+    studentId: student.id,
+    assignedTutorId: tutor.id,
+    status,
+    paymentMode: "PAY_ON_DELIVERY",
+  });
+  const payment = seed("payment", {
+    assignmentId: assignment.id,
+    payerId: student.id,
+    reference: `ref_${channel}_1`,
+    amount: 12000,
+    channel,
+    status: "SUCCESS",
+    paidAt: new Date(),
+  });
+  if (status === "ACCEPTED") {
+    seed("payout", {
+      assignmentId: assignment.id,
+      tutorId: tutor.id,
+      grossAmount: 12000,
+      commissionAmount: 2000,
+      amount: 10000,
+      status: "HELD",
+    });
+  }
+  const dispute = seed("dispute", {
+    assignmentId: assignment.id,
+    openedById: student.id,
+    reason: "POOR_QUALITY",
+    description: "The solution does not answer the questions asked.",
+    status: "OPEN",
+    resolvedAt: null,
+  });
+
+  return { assignment, payment, dispute };
+};
+
+const resolve = (disputeId: string, cookie: string) =>
+  request(app).post(`/api/admin/disputes/${disputeId}/resolve`).set("Cookie", cookie).send({ outcome: "FULL_REFUND" });
+
+const refundRequestsFor = (reference: string) =>
+  paystack.requests.filter((req) => req.path === "/refund" && (req.body as { transaction: string }).transaction === reference);
+
+beforeAll(async () => {
+  paystack = await startFakePaystack();
+  // paystackService reads the base URL when it is first imported
+  process.env.PAYSTACK_BASE_URL = paystack.url;
+  app = (await import("../app")).default;
+});
+
+afterAll(() => paystack.close());
+
+beforeEach(() => {
+  resetDatabase();
+  paystack.requests.length = 0;
+  jest.spyOn(console, "log").mockImplementation(() => undefined);
+  jest.spyOn(console, "error").mockImplementation(() => undefined);
+});
+
+afterEach(() => jest.restoreAllMocks());
+
+describe("POST /api/admin/disputes/:disputeId/resolve", () => {
+  it("keeps the dispute open for a retry while Paystack rejects the refund", async () => {
+    const cookie = seedAdmin();
+    const { payment, dispute } = seedDisputedJob("mobile_money");
+    paystack.rejectRefunds(payment.reference);
+
+    const failed = await resolve(dispute.id, cookie);
+
+    expect(failed.status).toBe(502);
+    expect(rowsOf("dispute")[0]).toMatchObject({
+      status: "REFUND_FAILED",
+      outcome: "FULL_REFUND",
+      refundAmount: 12000,
+      resolvedAt: null,
+      failedRefunds: [{ reference: payment.reference, amount: 12000, status: "FAILED" }],
+    });
+    expect(rowsOf("payout")[0].status).toBe("HELD");
+
+    // Resolving again is refused; the recorded decision is retried instead
+    await resolve(dispute.id, cookie).expect(409);
+
+    paystack.acceptRefunds(payment.reference);
+    const retried = await request(app).post(`/api/admin/disputes/${dispute.id}/retry-refunds`).set("Cookie", cookie);
+
+    expect(retried.status).toBe(200);
+    expect(rowsOf("dispute")[0]).toMatchObject({ status: "RESOLVED", resolvedAt: expect.any(Date) });
+    expect(rowsOf("payout")[0].status).toBe("CANCELLED");
+    expect(refundRequestsFor(payment.reference)).toHaveLength(2);
+  });
+
+  it("records a refund of a manual payment on the ledger", async () => {
+    const cookie = seedAdmin();
+    const { payment, dispute } = seedDisputedJob("manual");
+
+    await resolve(dispute.id, cookie).expect(200);
+
+    expect(rowsOf("payment")[0]).toMatchObject({ status: "REFUNDED", refundedAmount: 12000, refundedAt: expect.any(Date) });
+    expect(rowsOf("dispute")[0].status).toBe("RESOLVED");
+    expect(rowsOf("payout")[0].status).toBe("CANCELLED");
+    expect(refundRequestsFor(payment.reference)).toHaveLength(0);
+  });
+
+  it("keeps a refund Paystack has not confirmed yet out of a payout queued later", async () => {
+    const cookie = seedAdmin();
+    const { assignment, payment, dispute } = seedDisputedJob("mobile_money", "COMPLETED");
+
+    await request(app)
+      .post(`/api/admin/disputes/${dispute.id}/resolve`)
+      .set("Cookie", cookie)
+      .send({ outcome: "PARTIAL_REFUND", refundAmount: 50 })
+      .expect(200);
+
+    expect(rowsOf("payment")[0]).toMatchObject({ refundedAmount: 0, pendingRefundAmount: 5000 });
+    expect(rowsOf("payout")).toHaveLength(0);
+
+    // The student accepts the solution before Paystack sends refund.processed
+    rowsOf("assignment")[0].status = "ACCEPTED";
+    const { queuePayoutIfEligible } = await import("../services/payoutService");
+    await queuePayoutIfEligible(assignment.id);
+
+    expect(rowsOf("payout")).toEqual([
+      expect.objectContaining({ grossAmount: 7000, commissionAmount: 2000, amount: 5000, status: "PENDING" }),
+    ]);
+    expect(refundRequestsFor(payment.reference)).toHaveLength(1);
+  });
+
+  it("finishes the refunds of a dispute left REFUNDING by a request that died", async () => {
+    const cookie = seedAdmin();
+    const { payment, dispute } = seedDisputedJob("mobile_money");
+    Object.assign(dispute, {
+      status: "REFUNDING",
+      outcome: "FULL_REFUND",
+      refundAmount: 12000,
+      refundsStartedAt: new Date(Date.now() - 3_600_000),
+    });
+
+    await request(app).post(`/api/admin/disputes/${dispute.id}/retry-refunds`).set("Cookie", cookie).expect(200);
+
+    expect(rowsOf("dispute")[0]).toMatchObject({ status: "RESOLVED", issuedRefundAmount: 12000 });
+    expect(rowsOf("payment")[0].pendingRefundAmount).toBe(12000);
+    expect(rowsOf("payout")[0].status).toBe("CANCELLED");
+    expect(refundRequestsFor(payment.reference)).toHaveLength(1);
+  });
+});
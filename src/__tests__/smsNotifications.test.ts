@@ -0,0 +1,50 @@
+import { SMS_MAX_LENGTH } from "../sms";
+import { fakeSmsInbox } from "../utils/smsProvider";
+import { sendTemplatedSms } from "../utils/smsService";
+
+// A student who signed up for text messages, with a local-form phone number
+const optedInStudent = { phoneNumber: "024 123 4567", smsNotifications: true, locale: "en" };
+
+beforeEach(() => {
+  fakeSmsInbox.length = 0;
+  jest.spyOn(console, "log").mockImplementation(() => undefined);
+});
+
+afterEach(() => jest.restoreAllMocks());
+
+describe("templated SMS", () => {
+  it("texts an opted-in user in international form", async () => {
+    const sent = await sendTemplatedSms(optedInStudent, "paymentReceived", {
+      title: "Thermodynamics problem set",
+      amount: 140,
+    });
+
+    expect(sent).toBe(true);
+    expect(fakeSmsInbox).toEqual([
+      expect.objectContaining({
+        to: "233241234567",
+        text: 'A+ Planner: we received your payment of GHS 140.00 for "Thermodynamics problem set". Thank you.',
+      }),
+    ]);
+  });
+
+  it("sends nothing to users who turned SMS off or have no phone number", async () => {
+    const variables = { title: "Thermodynamics problem set", paymentDue: null };
+
+    expect(await sendTemplatedSms({ ...optedInStudent, smsNotifications: false }, "solutionReady", variables)).toBe(false);
+    expect(await sendTemplatedSms({ ...optedInStudent, phoneNumber: null }, "solutionReady", variables)).toBe(false);
+    expect(fakeSmsInbox).toHaveLength(0);
+  });
+
+  it("shortens a long title so the message fits in one SMS", async () => {
+    const title = `Thermodynamics problem set: ${"entropy and the second law, ".repeat(6)}`;
+
+    await sendTemplatedSms(optedInStudent, "solutionReady", { title, paymentDue: 140 });
+
+    const [{ text }] = fakeSmsInbox;
+
+    expect(text).toHaveLength(SMS_MAX_LENGTH);
+    expect(text).toMatch(/^A\+ Planner: the solution for "Thermodynamics problem set: entropy/);
+    expect(text).toMatch(/\.\.\." is ready\. Pay GHS 140\.00 to download it\.$/);
+  });
+});
@@ -0,0 +1,9 @@
+import { FAKE_PAYSTACK_SECRET } from "./fakePaystack";
+
+// Loaded by jest before each test file, ahead of any module that reads these at import time
+process.env.PAYSTACK_SECRET_KEY = FAKE_PAYSTACK_SECRET;
+process.env.JWT_SECRET = "test-jwt-secret";
+process.env.ADMIN_EMAIL = "admin@aplusplanner.test";
+process.env.BASE_URL = "http://localhost:5000";
+process.env.EMAIL_TRANSPORT = "console";
+process.env.SMS_PROVIDER = "fake";
@@ -0,0 +1,154 @@
+import crypto from "crypto";
+import express from "express";
+import { AddressInfo } from "net";
+import { Server } from "http";
+
+export const FAKE_PAYSTACK_SECRET = "sk_test_fake_paystack";
+
+export interface FakeTransfer {
+  reference: string;
+  amount: number; // In pesewas
+  status: "pending" | "success" | "failed" | "reversed";
+}
+
+// How the fake answers POST /transfer: "rejected" is a definite 400, while
+// "unanswered" records the transfer but answers 502, as if the response was lost
+export type TransferMode = "accepted" | "rejected" | "unanswered";
+
+export interface FakeTransaction {
+  reference: string;
+  amount: number; // In pesewas
+  status: "success" | "failed" | "abandoned";
+  assignmentId: string;
+  channel?: string;
+  paid_at?: string;
+}
+
+/**
+ * A local HTTP server answering the Paystack endpoints the app calls, so
+ * tests run against the real HTTP client with PAYSTACK_BASE_URL pointed here.
+ * Transactions are added with `addTransaction`; every request is kept in
+ * `requests`. Refunds of a reference passed to `rejectRefunds` fail until
+ * `acceptRefunds` is called for it. Transfers are answered as set with
+ * `setTransferMode`, and `settleTransfer` sets what a verify returns.
+ */
+export const startFakePaystack = async () => {
+  const transactions = new Map<string, FakeTransaction>();
+  const requests: { method: string; path: string; body: unknown }[] = [];
+  const rejectedRefunds = new Set<string>();
+  const transfers = new Map<string, FakeTransfer>();
+  let transferMode: TransferMode = "accepted";
+  const app = express();
+
+  app.use(express.json());
+  app.use((req, res, next) => {
+    if (req.headers.authorization !== `Bearer ${FAKE_PAYSTACK_SECRET}`) {
+      res.status(401).json({ status: false, message: "Invalid key" });
+      return;
+    }
+    requests.push({ method: req.method, path: req.path, body: req.body });
+    next();
+  });
+
+  app.post("/transaction/initialize", (req, res) => {
+    const reference = `ref_${crypto.randomUUID()}`;
+    transactions.set(reference, {
+      reference,
+      amount: req.body.amount,
+      status: "abandoned",
+      assignmentId: req.body.metadata?.assignmentId,
+    });
+    res.json({
+      status: true,
+      data: { reference, access_code: reference, authorization_url: `https://checkout.paystack.test/${reference}` },
+    });
+  });
+
+  app.get("/transaction/verify/:reference", (req, res) => {
+    const transaction = transactions.get(req.params.reference);
+
+    if (!transaction) {
+      res.status(404).json({ status: false, message: "Transaction reference not found" });
+      return;
+    }
+
+    res.json({
+      status: true,
+      data: {
+        reference: transaction.reference,
+        amount: transaction.amount,
+        currency: "GHS",
+        status: transaction.status,
+        channel: transaction.channel ?? "mobile_money",
+        paid_at: transaction.paid_at ?? new Date().toISOString(),
+        metadata: { assignmentId: transaction.assignmentId },
+      },
+    });
+  });
+
+  app.post("/refund", (req, res) => {
+    if (rejectedRefunds.has(req.body.transaction)) {
+      res.status(400).json({ status: false, message: "Refund could not be processed" });
+      return;
+    }
+    res.json({ status: true, data: { id: Date.now(), status: "pending", transaction: { reference: req.body.transaction } } });
+  });
+
+  app.post("/transferrecipient", (req, res) => {
+    res.json({ status: true, data: { recipient_code: `RCP_${req.body.account_number}` } });
+  });
+
+  app.post("/transfer", (req, res) => {
+    if (transferMode === "rejected") {
+      res.status(400).json({ status: false, message: "Your balance is not enough to fulfil this request" });
+      return;
+    }
+
+    const { reference, amount } = req.body;
+    if (!transfers.has(reference)) transfers.set(reference, { reference, amount, status: "pending" });
+
+    if (transferMode === "unanswered") {
+      res.status(502).json({ status: false, message: "Bad gateway" });
+      return;
+    }
+    res.json({ status: true, data: { reference, transfer_code: `TRF_${reference}`, status: "pending" } });
+  });
+
+  app.get("/transfer/verify/:reference", (req, res) => {
+    const transfer = transfers.get(req.params.reference);
+
+    if (!transfer) {
+      res.status(404).json({ status: false, message: "Transfer not found" });
+      return;
+    }
+    res.json({ status: true, data: { ...transfer, transfer_code: `TRF_${transfer.reference}` } });
+  });
+
+  const server: Server = await new Promise((resolve) => {
+    const listening = app.listen(0, "127.0.0.1", () => resolve(listening));
+  });
+
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    requests,
+    addTransaction: (transaction: FakeTransaction) => transactions.set(transaction.reference, transaction),
+    rejectRefunds: (reference: string) => rejectedRefunds.add(reference),
+    acceptRefunds: (reference: string) => rejectedRefunds.delete(reference),
+    transfers,
+    setTransferMode: (mode: TransferMode) => {
+      transferMode = mode;
+    },
+    settleTransfer: (reference: string, status: FakeTransfer["status"]) => {
+      transfers.get(reference)!.status = status;
+    },
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+};
+
+/**
+ * A webhook body with the `x-paystack-signature` Paystack would send for it.
+ */
+export const signedWebhook = (payload: unknown, secret = FAKE_PAYSTACK_SECRET) => {
+  const body = JSON.stringify(payload);
+  return { body, signature: crypto.createHmac("sha512", secret).update(body).digest("hex") };
+};
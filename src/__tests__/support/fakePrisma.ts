@@ -0,0 +1,299 @@
+import crypto from "crypto";
+import { Prisma } from "@prisma/client";
+
+/**
+ * An in-memory stand-in for the Prisma client, used with
+ * `jest.mock("../config/prisma", () => require("./support/fakePrisma"))`.
+ *
+ * It covers the query shapes the services under test use: equality and
+ * in/notIn/not/lt/lte/gt/gte filters with AND/OR/NOT, the relations listed in
+ * RELATIONS for include/select, unique constraints from UNIQUE_FIELDS, and
+ * increment/decrement updates. Every call yields to the event loop before it
+ * runs, so concurrent requests interleave the way they would against a
+ * database. Transactions run their callback directly and roll nothing back.
+ */
+
+type Row = Record<string, any>;
+
+// model -> relation field -> [related model, foreign key, which side holds it, to-many]
+const RELATIONS: Record<string, Record<string, [string, string, "self" | "other", boolean]>> = {
+  assignment: {
+    Student: ["user", "studentId", "self", false],
+    Tutor: ["user", "assignedTutorId", "self", false],
+    payments: ["payment", "assignmentId", "other", true],
+    payout: ["payout", "assignmentId", "other", false],
+    disputes: ["dispute", "assignmentId", "other", true],
+    statusHistory: ["assignmentStatusHistory", "assignmentId", "other", true],
+  },
+  payment: { Assignment: ["assignment", "assignmentId", "self", false] },
+  payout: {
+    Assignment: ["assignment", "assignmentId", "self", false],
+    Tutor: ["user", "tutorId", "self", false],
+  },
+  dispute: { Assignment: ["assignment", "assignmentId", "self", false] },
+  user: { specialties: ["tutorSpecialty", "tutorId", "other", true] },
+};
+
+const UNIQUE_FIELDS: Record<string, string[]> = {
+  user: ["email"],
+  payment: ["reference"],
+  paystackEvent: ["eventKey"],
+  payout: ["assignmentId"],
+};
+
+const DEFAULTS: Record<string, Row> = {
+  payment: {
+    currency: "GHS",
+    channel: null,
+    payerId: null,
+    refundedAmount: 0,
+    pendingRefundAmount: 0,
+    refundedAt: null,
+    paidAt: null,
+  },
+  dispute: { issuedRefundAmount: 0, refundsStartedAt: null, failedRefunds: null },
+  paystackEvent: { processedAt: null },
+  assignment: { assignedTutorId: null, autoAssign: false, dueAt: null },
+  emailOutbox: { html: null, template: null, locale: null, status: "PENDING", attempts: 0, lastError: null, sentAt: null },
+};
+
+const tables = new Map<string, Row[]>();
+
+const table = (model: string) => {
+  if (!tables.has(model)) tables.set(model, []);
+  return tables.get(model)!;
+};
+
+const prismaError = (code: string, message: string) =>
+  new Prisma.PrismaClientKnownRequestError(message, { code, clientVersion: "fake" });
+
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+const isPlainObject = (value: unknown): value is Row =>
+  typeof value === "object" && value !== null && !(value instanceof Date) && !Array.isArray(value);
+
+const comparable = (value: unknown) => (value instanceof Date ? value.getTime() : value);
+
+const matchesValue = (value: unknown, condition: unknown): boolean => {
+  if (condition === null) return value === null || value === undefined;
+  if (!isPlainObject(condition)) return comparable(value) === comparable(condition);
+
+  return Object.entries(condition).every(([operator, operand]) => {
+    switch (operator) {
+      case "equals":
+        return matchesValue(value, operand);
+      case "in":
+        return (operand as unknown[]).some((item) => matchesValue(value, item));
+      case "notIn":
+        return !(operand as unknown[]).some((item) => matchesValue(value, item));
+      case "not":
+        return !matchesValue(value, operand);
+      case "lt":
+        return value != null && (comparable(value) as number) < (comparable(operand) as number);
+      case "lte":
+        return value != null && (comparable(value) as number) <= (comparable(operand) as number);
+      case "gt":
+        return value != null && (comparable(value) as number) > (comparable(operand) as number);
+      case "gte":
+        return value != null && (comparable(value) as number) >= (comparable(operand) as number);
+      default:
+        throw new Error(`fakePrisma: unsupported filter "${operator}"`);
+    }
+  });
+};
+
+const matches = (row: Row, where: Row = {}): boolean =>
+  Object.entries(where).every(([key, condition]) => {
+    if (condition === undefined) return true;
+    if (key === "AND") return ([] as Row[]).concat(condition).every((part) => matches(row, part));
+    if (key === "OR") return (condition as Row[]).some((part) => matches(row, part));
+    if (key === "NOT") return !([] as Row[]).concat(condition).some((part) => matches(row, part));
+    // Compound unique keys, e.g. `userId_event: { userId, event }`
+    if (!(key in row) && key.includes("_") && isPlainObject(condition)) return matches(row, condition);
+    return matchesValue(row[key], condition);
+  });
+
+const sortRows = (rows: Row[], orderBy?: Row | Row[]) => {
+  const orders = orderBy ? ([] as Row[]).concat(orderBy) : [];
+
+  return [...rows].sort((a, b) => {
+    for (const order of orders) {
+      const [field, direction] = Object.entries(order)[0];
+      const sort = isPlainObject(direction) ? direction.sort : direction;
+      const [left, right] = [comparable(a[field]), comparable(b[field])];
+      if (left === right) continue;
+      if (left == null) return 1;
+      if (right == null) return -1;
+      return (left < right ? -1 : 1) * (sort === "desc" ? -1 : 1);
+    }
+    return 0;
+  });
+};
+
+const applyData = (row: Row, data: Row) => {
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined) continue;
+    if (isPlainObject(value) && "increment" in value) row[key] += value.increment;
+    else if (isPlainObject(value) && "decrement" in value) row[key] -= value.decrement;
+    else if (isPlainObject(value) && "set" in value) row[key] = value.set;
+    else row[key] = value;
+  }
+  row.updatedAt = new Date();
+  return row;
+};
+
+const assertUnique = (model: string, row: Row) => {
+  for (const field of UNIQUE_FIELDS[model] ?? []) {
+    if (row[field] != null && table(model).some((other) => other !== row && other[field] === row[field])) {
+      throw prismaError("P2002", `Unique constraint failed on the fields: (\`${field}\`)`);
+    }
+  }
+};
+
+// Copies a row, resolving the relations asked for by `include` and `select`
+const shape = (model: string, row: Row, args: { include?: Row; select?: Row } = {}): Row => {
+  const relations = RELATIONS[model] ?? {};
+  const base: Row = args.select
+    ? Object.fromEntries(Object.keys(args.select).filter((key) => !relations[key]).map((key) => [key, row[key]]))
+    : { ...row };
+
+  for (const [field, option] of Object.entries({ ...args.include, ...args.select })) {
+    if (!option || !relations[field]) continue;
+
+    const [related, foreignKey, side, many] = relations[field];
+    const nested = isPlainObject(option) ? option : {};
+
+    if (many) {
+      const rows = table(related).filter((other) => other[foreignKey] === row.id && matches(other, nested.where));
+      base[field] = sortRows(rows, nested.orderBy).map((other) => shape(related, other, nested));
+    } else {
+      const target = table(related).find((other) =>
+        side === "self" ? other.id === row[foreignKey] : other[foreignKey] === row.id
+      );
+      base[field] = target ? shape(related, target, nested) : null;
+    }
+  }
+
+  return base;
+};
+
+const createDelegate = (model: string) => {
+  const rows = () => table(model);
+
+  const findMany = async (args: Row = {}) => {
+    await tick();
+    const found = sortRows(rows().filter((row) => matches(row, args.where)), args.orderBy);
+    const start = args.skip ?? 0;
+    return found.slice(start, args.take === undefined ? undefined : start + args.take).map((row) => shape(model, row, args));
+  };
+
+  const findFirst = async (args: Row = {}) => (await findMany({ ...args, take: 1 }))[0] ?? null;
+
+  const orThrow = async (args: Row) => {
+    const row = await findFirst(args);
+    if (!row) throw prismaError("P2025", `No ${model} found`);
+    return row;
+  };
+
+  const create = async ({ data, ...args }: Row) => {
+    await tick();
+    const row: Row = { id: crypto.randomUUID(), createdAt: new Date(), ...DEFAULTS[model] };
+    applyData(row, data);
+    assertUnique(model, row);
+    rows().push(row);
+    return shape(model, row, args);
+  };
+
+  const updateMany = async ({ where, data }: Row) => {
+    await tick();
+    const targets = rows().filter((row) => matches(row, where));
+    targets.forEach((row) => applyData(row, data));
+    targets.forEach((row) => assertUnique(model, row));
+    return { count: targets.length };
+  };
+
+  const update = async ({ where, data, ...args }: Row) => {
+    await tick();
+    const row = rows().find((candidate) => matches(candidate, where));
+    if (!row) throw prismaError("P2025", `No ${model} found to update`);
+    applyData(row, data);
+    assertUnique(model, row);
+    return shape(model, row, args);
+  };
+
+  const deleteMany = async ({ where }: Row = {}) => {
+    await tick();
+    const kept = rows().filter((row) => !matches(row, where));
+    const count = rows().length - kept.length;
+    tables.set(model, kept);
+    return { count };
+  };
+
+  return {
+    findMany,
+    findFirst,
+    findUnique: findFirst,
+    findFirstOrThrow: orThrow,
+    findUniqueOrThrow: orThrow,
+    count: async (args: Row = {}) => (await findMany({ where: args.where })).length,
+    create,
+    createMany: async ({ data }: Row) => {
+      for (const item of [].concat(data)) await create({ data: item });
+      return { count: [].concat(data).length };
+    },
+    update,
+    updateMany,
+    upsert: async ({ where, create: createData, update: updateData, ...args }: Row) =>
+      rows().some((row) => matches(row, where))
+        ? update({ where, data: updateData, ...args })
+        : create({ data: createData, ...args }),
+    delete: async ({ where }: Row) => {
+      const row = await orThrow({ where });
+      await deleteMany({ where: { id: row.id } });
+      return row;
+    },
+    deleteMany,
+  };
+};
+
+type Delegate = ReturnType<typeof createDelegate>;
+
+// Every property other than these methods is the delegate of the model with that name
+interface FakePrismaClient {
+  $transaction(work: ((tx: FakePrismaClient) => Promise<unknown>) | Promise<unknown>[]): Promise<unknown>;
+  $connect(): Promise<void>;
+  $disconnect(): Promise<void>;
+  [model: string]: Delegate | ((...args: never[]) => Promise<unknown>);
+}
+
+const clientMethods: Pick<FakePrismaClient, "$transaction" | "$connect" | "$disconnect"> = {
+  $transaction: async (work) => (typeof work === "function" ? work(prisma) : Promise.all(work)),
+  $connect: async () => undefined,
+  $disconnect: async () => undefined,
+};
+
+const delegates = new Map<string, Delegate>();
+
+const prisma: FakePrismaClient = new Proxy(clientMethods as FakePrismaClient, {
+  get: (target, property: string) => {
+    if (property in target) return target[property];
+    if (!delegates.has(property)) delegates.set(property, createDelegate(property));
+    return delegates.get(property);
+  },
+});
+
+/**
+ * Inserts rows as they are, filling in ids and timestamps. Returns the last row.
+ */
+export const seed = (model: string, ...rows: Row[]): Row => {
+  const inserted = rows.map((row) => ({ id: crypto.randomUUID(), createdAt: new Date(), updatedAt: new Date(), ...DEFAULTS[model], ...row }));
+  table(model).push(...inserted);
+  return inserted[inserted.length - 1];
+};
+
+// The stored rows of a model, for assertions
+export const rowsOf = (model: string) => table(model);
+
+export const resetDatabase = () => tables.clear();
+
+export default prisma;
@@ -0,0 +1,35 @@
+import jwt from "jsonwebtoken";
+import { seed } from "./fakePrisma";
+
+type Row = Record<string, any>;
+
+/**
+ * Seeds a user with an active session. Returns the user and the access token
+ * cookie for that session.
+ */
+export const seedLoggedInUser = (fields: Row) => {
+  const user = seed("user", { firstName: "Efua", lastName: "Owusu", locale: "en", ...fields });
+  const session = seed("session", { userId: user.id, revokedAt: null, expiresAt: new Date(Date.now() + 3_600_000) });
+
+  const token = jwt.sign({ id: user.id, role: user.role, email: user.email, sid: session.id }, process.env.JWT_SECRET!);
+  return { user, cookie: `token=${token}` };
+};
+
+export const seedStudent = (fields: Row = {}) =>
+  seed("user", { email: "student@aplusplanner.test", firstName: "Ama", lastName: "Mensah", role: "STUDENT", locale: "en", ...fields });
+
+export const seedTutor = (fields: Row = {}) =>
+  seed("user", { email: "tutor@aplusplanner.test", firstName: "Kofi", lastName: "Boateng", role: "TUTOR", locale: "en", ...fields });
+
+/**
+ * Seeds a priced assignment (GHS 120, of which GHS 20 is the platform fee).
+ * Pass at least the student, and the status and payment mode the test needs.
+ */
+export const seedAssignment = (fields: Row) =>
+  seed("assignment", {
+    title: "Thermodynamics problem set",
+    programSpecialty: "Mechanical Engineering",
+    tutorCharge: 120,
+    platformFee: 20,
+    ...fields,
+  });
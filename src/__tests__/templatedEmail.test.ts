@@ -0,0 +1,109 @@
+import { mkdtemp, readFile, readdir, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import { resetDatabase, rowsOf } from "./support/fakePrisma";
+import { seedStudent } from "./support/fixtures";
+import { sendTemplatedEmail } from "../utils/emailService";
+import { sendPasswordResetEmail } from "../services/verificationService";
+
+jest.mock("../config/prisma", () => require("./support/fakePrisma"));
+
+let emailDir: string;
+
+// The emails the file transport wrote, oldest first
+const sentEmails = async () => {
+  const files = (await readdir(emailDir)).sort();
+  return Promise.all(files.map(async (file) => JSON.parse(await readFile(path.join(emailDir, file), "utf8"))));
+};
+
+beforeAll(async () => {
+  emailDir = await mkdtemp(path.join(os.tmpdir(), "aplus-emails-"));
+  // Read when the transport is first used, which is after this
+  process.env.EMAIL_TRANSPORT = "file";
+  process.env.EMAIL_FILE_DIR = emailDir;
+  process.env.FRONTEND_URL = "https://app.aplusplanner.test";
+});
+
+afterAll(() => rm(emailDir, { recursive: true, force: true }));
+
+beforeEach(async () => {
+  resetDatabase();
+  await Promise.all((await readdir(emailDir)).map((file) => rm(path.join(emailDir, file))));
+  jest.spyOn(console, "log").mockImplementation(() => undefined);
+});
+
+afterEach(() => jest.restoreAllMocks());
+
+describe("templated emails", () => {
+  it("delivers a password reset with HTML and text versions without storing its link", async () => {
+    const user = seedStudent({ email: "ama@aplusplanner.test" });
+
+    await sendPasswordResetEmail({ id: user.id, email: user.email, firstName: user.firstName, locale: user.locale });
+
+    const [email] = await sentEmails();
+
+    expect(email).toMatchObject({ to: "ama@aplusplanner.test", subject: "Reset your A+ Planner password" });
+    expect(email.text).toMatch(/^Dear Ama,\n\n/);
+    expect(email.text).toContain("Choose a new password: https://app.aplusplanner.test/reset-password?token=");
+    expect(email.text).toContain("The link expires in 30 minutes.");
+    expect(email.text).toMatch(/Best regards,\nA\+ Planner Team$/);
+    expect(email.html).toMatch(/<a href="https:\/\/app\.aplusplanner\.test\/reset-password\?token=[\w-]+"[^>]*>Choose a new password<\/a>/);
+    expect(email.html).toContain("Best regards,<br>A+ Planner Team");
+
+    expect(rowsOf("emailOutbox")).toEqual([
+      expect.objectContaining({ template: "passwordReset", locale: "en", status: "SENT", attempts: 1, text: null, html: null }),
+    ]);
+  });
+
+  it("gives up on a password reset that cannot be sent instead of keeping it for a retry", async () => {
+    const user = seedStudent({ email: "ama@aplusplanner.test" });
+    const { getMailTransport } = await import("../utils/mailTransport");
+    jest.spyOn(getMailTransport(), "send").mockRejectedValueOnce(new Error("SMTP unavailable"));
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+
+    await sendPasswordResetEmail({ id: user.id, email: user.email, firstName: user.firstName, locale: user.locale });
+
+    expect(rowsOf("emailOutbox")).toEqual([
+      expect.objectContaining({ template: "passwordReset", status: "FAILED", lastError: "SMTP unavailable", text: null, html: null }),
+    ]);
+  });
+
+  it("escapes what users wrote in the HTML version only", async () => {
+    await sendTemplatedEmail({
+      to: "kofi@aplusplanner.test",
+      locale: "en",
+      template: "newMessage",
+      variables: {
+        firstName: "Kofi",
+        title: "Thermodynamics problem set",
+        senderName: "Ama Mensah",
+        excerpt: 'Is <b>question 3</b> "part b" included?',
+      },
+    });
+
+    const [email] = await sentEmails();
+
+    expect(email.subject).toBe('New Message About "Thermodynamics problem set"');
+    expect(email.text).toContain('Ama Mensah wrote:\n\nIs <b>question 3</b> "part b" included?\n\nLog in to reply.');
+    expect(email.html).toContain("Is &lt;b&gt;question 3&lt;/b&gt; &quot;part b&quot; included?");
+    expect(email.html).not.toContain("<b>question 3</b>");
+
+    // The outbox only keeps the body until the email is sent
+    expect(rowsOf("emailOutbox")).toEqual([expect.objectContaining({ status: "SENT", text: null, html: null })]);
+  });
+
+  it("falls back to English for a locale without translations", async () => {
+    await sendTemplatedEmail({
+      to: "kofi@aplusplanner.test",
+      locale: "tw",
+      template: "quoteExpired",
+      variables: { firstName: "Kofi", title: "Thermodynamics problem set", price: 120, recipient: "TUTOR" },
+    });
+
+    const [email] = await sentEmails();
+
+    expect(email.subject).toBe("Quote Expired");
+    expect(email.text).toContain('The student did not respond to your quote for "Thermodynamics problem set" in time');
+    expect(rowsOf("emailOutbox")).toEqual([expect.objectContaining({ template: "quoteExpired", locale: "tw" })]);
+  });
+});
@@ -0,0 +1,50 @@
+import express from "express";
+import cors from "cors";
+import helmet from "helmet";
+import dotenv from "dotenv";
+import bodyParser from "body-parser";
+import cookieParser from 'cookie-parser'
+import { swaggerUi, swaggerDocs } from "./config/swagger";
+import authRoutes from "./routes/authRoutes";
+import adminRoutes from "./routes/adminRoutes";
+import assignmentRoutes from "./routes/assignmentRoutes";
+import paymentRoutes from "./routes/paymentRoutes";
+import tutorRoutes from "./routes/tutorRoutes";
+import fileRoutes from "./routes/fileRoutes";
+import userRoutes from "./routes/userRoutes";
+import eventRoutes from "./routes/eventRoutes";
+import notificationRoutes from "./routes/notificationRoutes";
+
+
+dotenv.config();
+
+const app = express();
+
+// Paystack signs the raw body, so the webhook must see it before JSON parsing
+app.use("/api/payments/webhook", express.raw({ type: "application/json" }));
+app.use(express.json());
+app.use(express.urlencoded({extended: true}))
+app.use(cookieParser())
+app.use(cors({
+  origin: "http://localhost:3000", 
+  credentials: true,
+}));
+app.use(helmet());
+app.use(bodyParser.json());
+app.use(bodyParser.urlencoded({ extended: true }));
+
+// Swagger API Docs
+app.use("/api-docs", swaggerUi.serve, swaggerUi.setup(swaggerDocs));
+
+// Routes
+app.use("/api/auth", authRoutes);
+app.use("/api/admin", adminRoutes);
+app.use("/api/assignments", assignmentRoutes)
+app.use("/api/payments", paymentRoutes);
+app.use("/api/tutors", tutorRoutes);
+app.use("/api/files", fileRoutes);
+app.use("/api/users", userRoutes);
+app.use("/api/events", eventRoutes);
+app.use("/api/notifications", notificationRoutes);
+
+export default app;
@@ -1,11 +1,23 @@
 import { Request, Response } from "express";
 import prisma from "../config/prisma";
-import { sendEmail } from "../utils/emailService";
+import { revokeAllSessions } from "../services/sessionService";
+import { recordAdminAction } from "../services/adminAuditService";
+import { notifyUser } from "../services/notificationService";
+import { InvitationError, acceptAdminInvitation, inviteAdmin } from "../services/adminInvitationService";
+import {
+  SpecialtyChangeError,
+  listPendingSpecialtyChanges,
+  reviewSpecialtyChange,
+} from "../services/tutorSpecialtyService";
+
+interface AuthRequest extends Request {
+  user?: { id: string; role: string; email: string };
+}
 
 /**
  * Approves a tutor by the admin
  */
-export const approveTutor = async (req: Request, res: Response) => {
+export const approveTutor = async (req: AuthRequest, res: Response) => {
   try {
     const { tutorId } = req.params;
 
@@ -22,17 +34,18 @@ export const approveTutor = async (req: Request, res: Response) => {
       return res.status(400).json({ message: "Tutor is already approved" });
     }
 
-    // Update approval status
+    // Update approval status; a previously rejected application can still be approved
     await prisma.user.update({
       where: { id: tutorId },
-      data: { isApproved: true },
+      data: { isApproved: true, rejectedAt: null },
     });
 
-    
-    await sendEmail({
-      to: tutor.email,
-      subject: "Your Tutor Account is Approved!",
-      text: "Congratulations! Your tutor account has been approved. You can now log in and start receiving assignments.",
+    await recordAdminAction(req.user!.id, { action: "tutor.approve", targetType: "User", targetId: tutorId });
+
+    await notifyUser(tutor, "TUTOR_APPROVED", {
+      title: "Your Tutor Account is Approved!",
+      body: "Your tutor account has been approved. You can now start receiving assignments.",
+      email: { template: "tutorApproved", variables: { firstName: tutor.firstName } },
     });
 
     return res.json({ message: "Tutor approved successfully!" });
@@ -53,6 +66,7 @@ export const getTutorById = async (req: Request, res: Response): Promise<void> =
       lastName: true,
       email: true,
       programSpecialty: true,
+      specialties: { select: { specialty: true } },
       certificateUrl: true,
       isApproved: true,
       createdAt: true,
@@ -98,13 +112,14 @@ export const getStudentById = async (req: Request, res: Response): Promise<void>
 export const getPendingTutors = async (req: Request, res: Response) => {
   try {
     const pendingTutors = await prisma.user.findMany({
-      where: { role: "TUTOR", isApproved: false },
+      where: { role: "TUTOR", isApproved: false, rejectedAt: null },
       select: {
         id: true,
         firstName: true,
         lastName: true,
         email: true,
         programSpecialty: true,
+        specialties: { select: { specialty: true } },
         certificateUrl: true,
         createdAt: true,
       },
@@ -119,9 +134,11 @@ export const getPendingTutors = async (req: Request, res: Response) => {
 
 
 /**
- * Deletes a tutor if their approval is rejected
+ * Rejects a tutor application. The account is kept, unable to sign in, so the
+ * rejection is on record in the tutor's notifications and can be reversed by
+ * approving them later.
  */
-export const deleteTutor = async (req: Request, res: Response) => {
+export const rejectTutor = async (req: AuthRequest, res: Response) => {
   try {
     const { tutorId } = req.params;
 
@@ -134,19 +151,206 @@ export const deleteTutor = async (req: Request, res: Response) => {
       return res.status(404).json({ message: "Tutor not found" });
     }
 
-    // Delete tutor from the database
-    await prisma.user.delete({ where: { id: tutorId } });
+    if (tutor.rejectedAt) {
+      return res.status(400).json({ message: "Tutor application is already rejected" });
+    }
+
+    await prisma.user.update({
+      where: { id: tutorId },
+      data: { isApproved: false, rejectedAt: new Date() },
+    });
+    await revokeAllSessions(tutorId, "Tutor application rejected");
+
+    await recordAdminAction(req.user!.id, {
+      action: "tutor.reject",
+      targetType: "User",
+      targetId: tutorId,
+      details: { email: tutor.email },
+    });
+
+    await notifyUser(tutor, "TUTOR_REJECTED", {
+      title: "Your Tutor Application Was Rejected",
+      body: "Your tutor application has been rejected. Please contact support for more details.",
+      email: { template: "tutorRejected", variables: { firstName: tutor.firstName } },
+    });
+
+    return res.json({ message: "Tutor application rejected." });
+  } catch (error) {
+    console.error("Error rejecting tutor:", error);
+    return res.status(500).json({ message: "Something went wrong", error });
+  }
+};
+
+/**
+ * Lists tutors' specialty changes waiting for review
+ */
+export const getSpecialtyChanges = async (req: Request, res: Response) => {
+  try {
+    res.json({ specialtyChanges: await listPendingSpecialtyChanges() });
+  } catch (error) {
+    console.error("Error fetching specialty changes:", error);
+    return res.status(500).json({ message: "Something went wrong", error });
+  }
+};
+
+/**
+ * Approves or rejects a tutor's specialty change. Rejecting keeps the tutor's
+ * account, approval and current specialties.
+ */
+export const reviewTutorSpecialtyChange = async (req: AuthRequest, res: Response) => {
+  try {
+    const { requestId } = req.params;
+    const { approve, reason } = req.body ?? {};
+
+    if (typeof approve !== "boolean") {
+      return res.status(400).json({ message: "approve must be true or false." });
+    }
+
+    const request = await reviewSpecialtyChange(requestId, req.user!.id, {
+      approve,
+      reason: reason?.toString().trim() || undefined,
+    });
 
-    // ✅ Fix: Send email using the correct object structure
-    await sendEmail({
-      to: tutor.email,
-      subject: "Tutor Application Rejected",
-      text: "Unfortunately, your tutor application has been rejected. Please contact support for more details.",
+    await recordAdminAction(req.user!.id, {
+      action: approve ? "tutor.specialties.approve" : "tutor.specialties.reject",
+      targetType: "User",
+      targetId: request.tutorId,
+      details: { requestId, specialties: request.specialties },
     });
 
-    return res.json({ message: "Tutor application rejected and deleted." });
+    return res.json({ message: approve ? "Specialty change approved." : "Specialty change rejected.", request });
+  } catch (error) {
+    if (error instanceof SpecialtyChangeError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error("Error reviewing specialty change:", error);
+    return res.status(500).json({ message: "Something went wrong", error });
+  }
+};
+
+/**
+ * Revokes every session of a user, signing them out on all devices
+ */
+export const revokeUserSessions = async (req: AuthRequest, res: Response) => {
+  try {
+    const { userId } = req.params;
+
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    const revoked = await revokeAllSessions(userId, "Revoked by admin");
+
+    await recordAdminAction(req.user!.id, {
+      action: "user.revoke-sessions",
+      targetType: "User",
+      targetId: userId,
+      details: { revoked },
+    });
+
+    return res.json({ message: `Revoked ${revoked} session(s) for ${user.email}.` });
+  } catch (error) {
+    console.error("Error revoking sessions:", error);
+    return res.status(500).json({ message: "Something went wrong", error });
+  }
+};
+
+/**
+ * Invites a new admin by email
+ */
+export const inviteAdminUser = async (req: AuthRequest, res: Response) => {
+  try {
+    const email = req.body.email?.toString().trim().toLowerCase();
+
+    if (!email) {
+      return res.status(400).json({ message: "Email is required." });
+    }
+
+    const admin = await prisma.user.findUnique({ where: { id: req.user!.id } });
+    if (!admin) {
+      return res.status(401).json({ message: "Unauthorized." });
+    }
+
+    const invitation = await inviteAdmin(email, admin);
+
+    await recordAdminAction(admin.id, {
+      action: "admin.invite",
+      targetType: "AdminInvitation",
+      targetId: invitation.id,
+      details: { email },
+    });
+
+    return res.status(201).json({
+      message: `Invitation sent to ${email}.`,
+      invitation: { id: invitation.id, email: invitation.email, expiresAt: invitation.expiresAt },
+    });
+  } catch (error) {
+    if (error instanceof InvitationError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error("Error inviting admin:", error);
+    return res.status(500).json({ message: "Something went wrong", error });
+  }
+};
+
+/**
+ * Creates an admin account from an invitation token
+ */
+export const acceptInvitation = async (req: Request, res: Response) => {
+  try {
+    const { token, firstName, lastName, password } = req.body;
+
+    if (!token || !firstName || !lastName || !password) {
+      return res.status(400).json({ message: "All fields are required!" });
+    }
+
+    const admin = await acceptAdminInvitation(token, { firstName, lastName, password });
+
+    return res.status(201).json({
+      message: "Admin account created. You can now log in.",
+      admin: { id: admin.id, firstName: admin.firstName, lastName: admin.lastName, email: admin.email },
+    });
+  } catch (error) {
+    if (error instanceof InvitationError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error("Error accepting admin invitation:", error);
+    return res.status(500).json({ message: "Something went wrong", error });
+  }
+};
+
+/**
+ * Lists admin actions, newest first, filtered by admin, action or target
+ */
+export const getAdminAuditLog = async (req: Request, res: Response) => {
+  try {
+    const { adminId, action, targetType, targetId } = req.query;
+    const take = Math.min(Math.max(Number(req.query.limit) || 50, 1), 200);
+    const skip = Math.max(Number(req.query.offset) || 0, 0);
+
+    const where = {
+      ...(adminId && { adminId: adminId.toString() }),
+      ...(action && { action: action.toString() }),
+      ...(targetType && { targetType: targetType.toString() }),
+      ...(targetId && { targetId: targetId.toString() }),
+    };
+
+    const [entries, total] = await Promise.all([
+      prisma.adminAuditLog.findMany({
+        where,
+        orderBy: { createdAt: "desc" },
+        take,
+        skip,
+        include: { Admin: { select: { id: true, firstName: true, lastName: true, email: true } } },
+      }),
+      prisma.adminAuditLog.count({ where }),
+    ]);
+
+    return res.json({ entries, total });
   } catch (error) {
-    console.error("Error deleting tutor:", error);
+    console.error("Error fetching admin audit log:", error);
     return res.status(500).json({ message: "Something went wrong", error });
   }
 };
@@ -1,13 +1,73 @@
 import { Request, Response } from "express";
+import { PaymentMode, Prisma } from "@prisma/client";
 import prisma from "../config/prisma";
-import cloudinary from "../config/cloudinary";
-import { sendEmail } from "../utils/emailService";
+import { sendTemplatedEmail } from "../utils/emailService";
+import { sendTemplatedSms } from "../utils/smsService";
+import { uploadBuffer } from "../utils/cloudinaryUpload";
+import { canViewAssignment } from "../utils/assignmentAccess";
+import {
+  AssignmentConflictError,
+  AssignmentNotFoundError,
+  DELIVERED_ASSIGNMENT_STATUSES,
+  InvalidTransitionError,
+  OPEN_ASSIGNMENT_STATUSES,
+  parseAssignmentStatus,
+  transitionAssignment,
+} from "../services/assignmentStatusService";
+import {
+  applySettledPayment,
+  isAssignmentPaid,
+  publishPaymentConfirmed,
+  successfulPaymentsInclude,
+  toPesewas,
+  withPaymentState,
+} from "../services/paymentService";
+import { recordAdminAction } from "../services/adminAuditService";
+import { getTutorSpecialties } from "../services/tutorSpecialtyService";
+import { cancelAutoAssign, closeOffer, handleOfferDeclined } from "../services/assignmentOfferService";
+import {
+  QuoteError,
+  acceptQuote,
+  declineQuote,
+  quoteBreakdownOf,
+  submitQuote,
+  supersedePendingQuotes,
+} from "../services/quoteService";
+import { EscrowError, acceptSolution, autoAcceptDeadline, cancelAndRefundAssignment } from "../services/escrowService";
+import { RevisionError, listRevisionRequests, requestRevision, resolveRevisionRequest } from "../services/revisionService";
+import { notifyAdmins, notifyUser } from "../services/notificationService";
+import { publicUserSelect } from "../utils/publicUser";
+import { PriceOutOfRangeError, priceBreakdownOf } from "../services/pricingService";
+import {
+  DownloadDeniedError,
+  assertCanDownloadSolution,
+  discardAssignmentFiles,
+  latestAssignmentFiles,
+  serveSolutionDownload,
+  storeAssignmentFiles,
+} from "../services/assignmentFileService";
 
 
 interface AuthRequest extends Request {
-    user?: { id: string; role: string; programSpecialty?: string };
+    user?: { id: string; role: string };
   }
-  
+
+// Maps state machine errors to HTTP responses; returns false for anything else
+const handleTransitionError = (error: unknown, res: Response): boolean => {
+  if (error instanceof InvalidTransitionError) {
+    res.status(409).json({ message: error.message, from: error.from, to: error.to });
+    return true;
+  }
+  if (error instanceof AssignmentConflictError) {
+    res.status(409).json({ message: error.message });
+    return true;
+  }
+  if (error instanceof AssignmentNotFoundError) {
+    res.status(404).json({ message: error.message });
+    return true;
+  }
+  return false;
+};
 
 // ✅ Student submits assignment
 export const submitAssignment = async (req: AuthRequest, res: Response): Promise<void> => {
@@ -15,29 +75,33 @@ export const submitAssignment = async (req: AuthRequest, res: Response): Promise
     const { title, description, programSpecialty } = req.body;
     const studentId = req.user?.id; // ✅ Now TypeScript recognizes `user`
     const file = req.file;
+    const dueAt = req.body.dueAt ? new Date(req.body.dueAt) : null;
+    const paymentMode = req.body.paymentMode ?? "PAY_ON_DELIVERY";
 
     if (!studentId) {
       res.status(401).json({ message: "Unauthorized: No student ID found." });
       return;
     }
 
+    if (dueAt && (isNaN(dueAt.getTime()) || dueAt <= new Date())) {
+      res.status(400).json({ message: "dueAt must be a valid date in the future." });
+      return;
+    }
+
+    if (!(Object.values(PaymentMode) as string[]).includes(paymentMode)) {
+      res.status(400).json({ message: "paymentMode must be PAY_ON_DELIVERY or ESCROW." });
+      return;
+    }
+
     if (!file) {
       res.status(400).json({ message: "Assignment file is required!" });
       return;
     }
 
     // ✅ Upload file to Cloudinary
-    const uploadResult = await new Promise((resolve, reject) => {
-      cloudinary.uploader.upload_stream(
-        { folder: "assignments", resource_type: "auto" },
-        (error, result) => {
-          if (error) reject(error);
-          else resolve(result);
-        }
-      ).end(file.buffer);
-    });
+    const uploadResult = await uploadBuffer(file.buffer, { folder: "assignments" });
 
-    const fileUrl = (uploadResult as any).secure_url;
+    const fileUrl = uploadResult.secure_url;
 
     // ✅ Store assignment details in the database
     const assignment = await prisma.assignment.create({
@@ -47,16 +111,21 @@ export const submitAssignment = async (req: AuthRequest, res: Response): Promise
         description,
         programSpecialty,
         fileUrl,
-        status: "Pending", // Default status
+        dueAt,
+        paymentMode,
+        status: "PENDING",
         submittedAt: new Date(),
+        statusHistory: {
+          create: { toStatus: "PENDING", changedById: studentId, changedByRole: "STUDENT" },
+        },
       },
     });
 
-    // ✅ Notify Admin via Email (Fixed)
-    await sendEmail({
-      to: process.env.ADMIN_EMAIL!,
-      subject: "New Assignment Submitted",
-      text: `A new assignment has been submitted by a student.\n\nTitle: ${title}\nProgram Specialty: ${programSpecialty}\nStatus: Pending`,
+    await notifyAdmins("ASSIGNMENT_SUBMITTED", {
+      title: "New Assignment Submitted",
+      body: `"${title}" (${programSpecialty}) is waiting to be opened to tutors.`,
+      email: { template: "assignmentSubmitted", variables: { title, programSpecialty } },
+      assignmentId: assignment.id,
     });
 
     res.status(201).json({ message: "Assignment submitted successfully!", assignment });
@@ -69,8 +138,8 @@ export const submitAssignment = async (req: AuthRequest, res: Response): Promise
 export const getPendingAssignments = async (req: Request, res: Response) => {
     try {
       const assignments = await prisma.assignment.findMany({
-        where: { status: "Pending" },
-        include: { Student: true },
+        where: { status: "PENDING" },
+        include: { Student: { select: publicUserSelect } },
       });
   
       res.json({ assignments });
@@ -80,27 +149,29 @@ export const getPendingAssignments = async (req: Request, res: Response) => {
     }
   };
 
-  export const assignAssignment = async (req: Request, res: Response) => {
+  export const assignAssignment = async (req: AuthRequest, res: Response) => {
     try {
       const { assignmentId } = req.params;
   
-      // Check if the assignment exists
-      const assignment = await prisma.assignment.findUnique({
-        where: { id: assignmentId },
-      });
-  
-      if (!assignment) {
-        return res.status(404).json({ message: "Assignment not found" });
+      const assignment = await prisma.assignment.findUnique({ where: { id: assignmentId } });
+      if (assignment?.autoAssign) {
+        await cancelAutoAssign(assignmentId);
       }
-  
-      // Update the status to Assigned without specifying a tutor yet
-      await prisma.assignment.update({
-        where: { id: assignmentId },
-        data: { status: "Assigned" },
+      await supersedePendingQuotes(assignmentId);
+  
+      // Open the assignment to the marketplace without specifying a tutor yet
+      await transitionAssignment({
+        assignmentId,
+        to: "ASSIGNED",
+        actor: req.user,
+        note: "Opened to tutors",
       });
+
+      await recordAdminAction(req.user!.id, { action: "assignment.open", targetType: "Assignment", targetId: assignmentId });
   
       res.json({ message: "Assignment is now open for tutors with matching program specialty." });
     } catch (error) {
+      if (handleTransitionError(error, res)) return;
       console.error("Error assigning assignment:", error);
       res.status(500).json({ message: "Something went wrong", error });
     }
@@ -110,39 +181,120 @@ export const getPendingAssignments = async (req: Request, res: Response) => {
   export const getTutorPendingAssignments = async (req: AuthRequest, res: Response) => {
     try {
       const tutorId = req.user?.id;
-      const programSpecialty = req.user?.programSpecialty;
   
-      if (!tutorId || !programSpecialty) {
+      if (!tutorId) {
         return res.status(401).json({ message: "Unauthorized." });
       }
   
-      // Find all assignments with the same program specialty that haven't been accepted yet
-      const assignments = await prisma.assignment.findMany({
-        where: {
-          programSpecialty,
-          status: "Assigned",
-          assignedTutorId: null,
+      const page = Math.max(Math.floor(Number(req.query.page)) || 1, 1);
+      const pageSize = Math.min(Math.max(Math.floor(Number(req.query.pageSize)) || 20, 1), 100);
+  
+      // Specialties come from the database so admin changes apply without a new login
+      const specialties = await getTutorSpecialties(tutorId);
+  
+      // Open jobs in the tutor's specialties: unclaimed, or already assigned to this tutor
+      const where: Prisma.AssignmentWhereInput = {
+        programSpecialty: { in: specialties },
+        status: "ASSIGNED",
+        OR: [{ assignedTutorId: null }, { assignedTutorId: tutorId }],
+      };
+  
+      const [assignments, total] = await Promise.all([
+        prisma.assignment.findMany({
+          where,
+          orderBy: [{ dueAt: { sort: "asc", nulls: "last" } }, { submittedAt: "asc" }],
+          skip: (page - 1) * pageSize,
+          take: pageSize,
+          include: { Student: { select: publicUserSelect } },
+        }),
+        prisma.assignment.count({ where }),
+      ]);
+  
+      res.json({ assignments, specialties, page, pageSize, total, totalPages: Math.ceil(total / pageSize) });
+    } catch (error) {
+      console.error("Error fetching tutor pending assignments:", error);
+      res.status(500).json({ message: "Something went wrong", error });
+    }
+  };
+  
+  export const claimAssignment = async (req: AuthRequest, res: Response) => {
+    try {
+      const { assignmentId } = req.params;
+      const tutorId = req.user?.id;
+  
+      if (!tutorId) {
+        return res.status(401).json({ message: "Unauthorized." });
+      }
+  
+      const [assignment, specialties] = await Promise.all([
+        prisma.assignment.findUnique({ where: { id: assignmentId } }),
+        getTutorSpecialties(tutorId),
+      ]);
+  
+      if (!assignment || !specialties.includes(assignment.programSpecialty)) {
+        return res.status(404).json({ message: "Assignment not found." });
+      }
+  
+      if (assignment.assignedTutorId === tutorId) {
+        return res.status(409).json({ message: "You have already claimed this assignment." });
+      }
+  
+      if (assignment.status !== "ASSIGNED" || assignment.assignedTutorId) {
+        return res.status(409).json({ message: "Assignment is no longer open for claiming." });
+      }
+  
+      // Only written if the job is still open and unclaimed, so one tutor wins a race
+      const claimed = await transitionAssignment({
+        assignmentId,
+        to: "ASSIGNED",
+        actor: req.user,
+        data: { assignedTutorId: tutorId },
+        guard: { status: "ASSIGNED", assignedTutorId: null },
+        note: `Claimed by tutor ${tutorId}`,
+      });
+  
+      await notifyAdmins("ASSIGNMENT_ASSIGNED", {
+        title: "Assignment Claimed by Tutor",
+        body: `"${claimed.title}" was claimed by ${claimed.Tutor?.firstName} ${claimed.Tutor?.lastName}.`,
+        email: {
+          template: "assignmentClaimed",
+          variables: {
+            title: claimed.title,
+            assignmentId: claimed.id,
+            tutorName: `${claimed.Tutor?.firstName} ${claimed.Tutor?.lastName}`,
+            tutorEmail: claimed.Tutor?.email ?? "",
+          },
         },
-        include: { Student: true },
+        assignmentId: claimed.id,
       });
   
-      res.json({ assignments });
+      res.json({ message: "Assignment claimed. Review it and set your price to start working on it." });
     } catch (error) {
-      console.error("Error fetching tutor pending assignments:", error);
+      if (error instanceof AssignmentConflictError) {
+        return res.status(409).json({ message: "Assignment has already been claimed by another tutor." });
+      }
+      if (handleTransitionError(error, res)) return;
+      console.error("Error claiming assignment:", error);
       res.status(500).json({ message: "Something went wrong", error });
     }
   };
-  
+
   export const reviewAndSetPrice = async (req: AuthRequest, res: Response) => {
     try {
       const { assignmentId } = req.params;
       let { price } = req.body;
       const tutorId = req.user?.id;
+      const deliveryBy = req.body.deliveryBy ? new Date(req.body.deliveryBy) : null;
+      const note = req.body.note?.toString().trim() || undefined;
   
-      if (!tutorId) {
+      if (!req.user || !tutorId) {
         return res.status(401).json({ message: "Unauthorized." });
       }
   
+      if (deliveryBy && (isNaN(deliveryBy.getTime()) || deliveryBy <= new Date())) {
+        return res.status(400).json({ message: "deliveryBy must be a valid date in the future." });
+      }
+  
       price = Number(price);
   
       if (isNaN(price) || price <= 0) {
@@ -158,76 +310,265 @@ export const getPendingAssignments = async (req: Request, res: Response) => {
         return res.status(404).json({ message: "Assignment not found or not assigned to you." });
       }
   
-      if (assignment.status !== "Assigned") {
-        return res.status(400).json({ message: "Assignment is not in an assignable state." });
+      if (deliveryBy && assignment.dueAt && deliveryBy > assignment.dueAt) {
+        return res.status(400).json({ message: "deliveryBy cannot be later than the student's deadline." });
       }
   
-      await prisma.assignment.update({
-        where: { id: assignmentId },
-        data: { status: "In Progress", tutorCharge: price },
+      // Work only starts once the student accepts the quote
+      const quote = await submitQuote(assignment, { ...req.user, id: tutorId }, { price, deliveryBy, note });
+
+      await closeOffer(assignmentId, tutorId, "ACCEPTED");
+  
+      // Notify the student and admins
+      await notifyUser(assignment.Student, "ASSIGNMENT_PRICED", {
+        title: "Your Assignment Has a Quote",
+        body: `"${assignment.title}" was quoted at GHS ${quote.tutorCharge.toFixed(2)}. Accept or decline it before ${quote.expiresAt.toUTCString()}.`,
+        assignmentId,
+        email: {
+          template: "quoteReceived",
+          variables: {
+            firstName: assignment.Student.firstName,
+            title: assignment.title,
+            price: quote.tutorCharge,
+            deliveryBy: quote.deliveryBy,
+            note,
+            expiresAt: quote.expiresAt,
+          },
+        },
+      });
+
+      await sendTemplatedSms(assignment.Student, "quoteReceived", {
+        title: assignment.title,
+        price: quote.tutorCharge,
+        expiresAt: quote.expiresAt,
       });
   
-      // Send emails to admin and student
-      await sendEmail({
-        to: assignment.Student.email,
-        subject: "Assignment Accepted and Priced",
-        text: `Hello ${assignment.Student.firstName},\n\nThe tutor has accepted your assignment titled "${assignment.title}" and set the price at GHS ${price.toFixed(
-          2
-        )}.\n\nPlease proceed with payment to continue.\n\nBest regards,\nA+ Planner Team`,
+      await notifyAdmins("ASSIGNMENT_PRICED", {
+        title: "Tutor Quoted Assignment",
+        body: `"${assignment.title}" was quoted at GHS ${price.toFixed(2)}; the student price is GHS ${quote.tutorCharge.toFixed(2)}.`,
+        assignmentId,
+        email: {
+          template: "quoteSubmitted",
+          variables: {
+            title: assignment.title,
+            tutorQuote: price,
+            studentPrice: quote.tutorCharge,
+            platformFee: quote.platformFee,
+            urgencySurcharge: quote.urgencySurcharge,
+          },
+        },
       });
   
-      await sendEmail({
+      res.json({
+        message: `Quote of GHS ${quote.tutorCharge.toFixed(2)} sent to the student.`,
+        quote,
+        priceBreakdown: quoteBreakdownOf(quote),
+      });
+    } catch (error) {
+      if (error instanceof PriceOutOfRangeError) {
+        return res.status(400).json({ message: error.message, minPrice: error.minPrice, maxPrice: error.maxPrice });
+      }
+      if (handleTransitionError(error, res)) return;
+      console.error("Error in reviewAndSetPrice:", error);
+      res.status(500).json({ message: "Something went wrong", error });
+    }
+  };
+  
+  // Only the student who owns the assignment answers its quotes
+  const findStudentAssignment = (assignmentId: string, studentId?: string) =>
+    studentId ? prisma.assignment.findFirst({ where: { id: assignmentId, studentId } }) : null;
+
+  const handleQuoteError = (error: unknown, res: Response): boolean => {
+    if (error instanceof QuoteError) {
+      res.status(error.status).json({ message: error.message });
+      return true;
+    }
+    return handleTransitionError(error, res);
+  };
+
+  export const acceptAssignmentQuote = async (req: AuthRequest, res: Response) => {
+    try {
+      const { assignmentId } = req.params;
+  
+      if (!(await findStudentAssignment(assignmentId, req.user?.id))) {
+        return res.status(404).json({ message: "Assignment not found." });
+      }
+  
+      const { quote, assignment } = await acceptQuote(assignmentId, req.user!);
+      const escrow = assignment.status === "AWAITING_PAYMENT";
+  
+      if (assignment.Tutor) {
+        await sendTemplatedEmail({
+          to: assignment.Tutor.email,
+          locale: assignment.Tutor.locale,
+          template: "quoteAccepted",
+          variables: {
+            firstName: assignment.Tutor.firstName,
+            title: assignment.title,
+            price: quote.tutorCharge,
+            escrow,
+          },
+        });
+      }
+  
+      await sendTemplatedEmail({
         to: process.env.ADMIN_EMAIL!,
-        subject: "Tutor Accepted and Priced Assignment",
-        text: `The assignment titled "${assignment.title}" has been accepted by the tutor.\nThe tutor has set the price at GHS ${price.toFixed(
-          2
-        )}.\n\nBest regards,\nA+ Planner Team`,
+        template: "quoteAcceptedAdmin",
+        variables: { title: assignment.title, assignmentId: assignment.id, price: quote.tutorCharge },
       });
   
-      res.json({ message: `Assignment accepted and price set to GHS ${price.toFixed(2)}.` });
+      res.json({
+        message: escrow
+          ? `Quote accepted. Pay GHS ${quote.tutorCharge.toFixed(
+              2
+            )} to start the work; it is held until you accept the solution.`
+          : `Quote accepted. Please proceed with payment of GHS ${quote.tutorCharge.toFixed(2)}.`,
+        priceBreakdown: priceBreakdownOf(assignment),
+      });
     } catch (error) {
-      console.error("Error in reviewAndSetPrice:", error);
+      if (handleQuoteError(error, res)) return;
+      console.error("Error accepting quote:", error);
+      res.status(500).json({ message: "Something went wrong", error });
+    }
+  };
+
+  export const declineAssignmentQuote = async (req: AuthRequest, res: Response) => {
+    try {
+      const { assignmentId } = req.params;
+      const reason = req.body.reason?.toString().trim() || undefined;
+      const counterOffer = req.body.counterOffer !== undefined ? Number(req.body.counterOffer) : undefined;
+  
+      if (counterOffer !== undefined && (isNaN(counterOffer) || counterOffer <= 0)) {
+        return res.status(400).json({ message: "counterOffer must be a positive number." });
+      }
+  
+      if (!(await findStudentAssignment(assignmentId, req.user?.id))) {
+        return res.status(404).json({ message: "Assignment not found." });
+      }
+  
+      const { quote } = await declineQuote(assignmentId, req.user!, { reason, counterOffer });
+  
+      const tutor = await prisma.user.findUnique({ where: { id: quote.tutorId } });
+  
+      if (tutor) {
+        await sendTemplatedEmail({
+          to: tutor.email,
+          locale: tutor.locale,
+          template: "quoteDeclined",
+          variables: { firstName: tutor.firstName, price: quote.tutorCharge, reason, counterOffer },
+        });
+      }
+  
+      res.json({
+        message:
+          counterOffer !== undefined
+            ? "Quote declined. Your counter-offer has been sent to the tutor."
+            : "Quote declined. The assignment is open to other tutors again.",
+      });
+    } catch (error) {
+      if (handleQuoteError(error, res)) return;
+      console.error("Error declining quote:", error);
       res.status(500).json({ message: "Something went wrong", error });
     }
   };
+
+  export const getAssignmentQuotes = async (req: AuthRequest, res: Response) => {
+    try {
+      const { assignmentId } = req.params;
+  
+      const assignment = await prisma.assignment.findUnique({ where: { id: assignmentId } });
+  
+      if (!assignment || !req.user || !canViewAssignment(req.user, assignment)) {
+        return res.status(404).json({ message: "Assignment not found." });
+      }
+  
+      const quotes = await prisma.assignmentQuote.findMany({
+        where: { assignmentId },
+        orderBy: { createdAt: "asc" },
+        include: { Tutor: { select: { id: true, firstName: true, lastName: true } } },
+      });
   
+      res.json({ quotes });
+    } catch (error) {
+      console.error("Error fetching quotes:", error);
+      res.status(500).json({ message: "Something went wrong", error });
+    }
+  };
+
   export const getAllAssignments = async (req: Request, res: Response) => {
     try {
-      const { status } = req.query;
-      const filter = status ? { status: status.toString() } : {};
+      const status = parseAssignmentStatus(req.query.status);
+  
+      if (req.query.status && !status) {
+        return res.status(400).json({ message: "Invalid status filter." });
+      }
+  
+      const dueBefore = req.query.dueBefore ? new Date(req.query.dueBefore.toString()) : undefined;
+      const dueAfter = req.query.dueAfter ? new Date(req.query.dueAfter.toString()) : undefined;
+  
+      if ((dueBefore && isNaN(dueBefore.getTime())) || (dueAfter && isNaN(dueAfter.getTime()))) {
+        return res.status(400).json({ message: "dueBefore and dueAfter must be valid dates." });
+      }
+  
+      const filter: Prisma.AssignmentWhereInput = status ? { status } : {};
+  
+      if (dueBefore || dueAfter) {
+        filter.dueAt = { lte: dueBefore, gte: dueAfter };
+      }
+  
+      if (req.query.overdue === "true") {
+        // Past either the student's deadline or the tutor's committed delivery date
+        filter.status = status ?? { in: OPEN_ASSIGNMENT_STATUSES };
+        filter.OR = [{ dueAt: { lt: new Date() } }, { deliveryBy: { lt: new Date() } }];
+      }
+  
+      const sortField = req.query.sortBy === "deliveryBy" ? "deliveryBy" : req.query.sortBy === "dueAt" ? "dueAt" : null;
+      const sortOrder = req.query.order === "desc" ? "desc" : "asc";
   
       const assignments = await prisma.assignment.findMany({
         where: filter,
-        include: { Student: true, Tutor: true },  // Ensure relations are fetched
+        orderBy: sortField ? { [sortField]: { sort: sortOrder, nulls: "last" } } : { submittedAt: "desc" },
+        include: {
+          Student: { select: publicUserSelect },
+          Tutor: { select: publicUserSelect },
+          ...successfulPaymentsInclude,
+        },
       });
   
-      res.json({ assignments });
+      res.json({ assignments: assignments.map(withPaymentState) });
     } catch (error) {
       console.error("Error fetching all assignments:", error);
       res.status(500).json({ message: "Something went wrong", error });
     }
   };
   
-  export const getAssignmentById = async (req: Request, res: Response) => {
+  export const getAssignmentById = async (req: AuthRequest, res: Response) => {
     try {
       const { assignmentId } = req.params;
       const assignment = await prisma.assignment.findUnique({
         where: { id: assignmentId },
-        include: { Student: true, Tutor: true },
+        include: {
+          Student: { select: publicUserSelect },
+          Tutor: { select: publicUserSelect },
+          ...successfulPaymentsInclude,
+        },
       });
   
-      if (!assignment) {
+      // Someone else's assignment is reported as missing rather than forbidden
+      if (!assignment || !req.user || !canViewAssignment(req.user, assignment)) {
         return res.status(404).json({ message: "Assignment not found" });
       }
   
-      res.json({ assignment });
+      res.json({
+        assignment: { ...withPaymentState(assignment), priceBreakdown: priceBreakdownOf(assignment) },
+      });
     } catch (error) {
       console.error("Error fetching assignment:", error);
       res.status(500).json({ message: "Something went wrong", error });
     }
   };
 
-  export const assignAssignmentToTutor = async (req: Request, res: Response) => {
+  export const assignAssignmentToTutor = async (req: AuthRequest, res: Response) => {
     try {
       const { assignmentId } = req.params;
       const { tutorId } = req.body;
@@ -252,27 +593,49 @@ export const getPendingAssignments = async (req: Request, res: Response) => {
         return res.status(404).json({ message: "Tutor not found or not approved." });
       }
   
+      // A manual choice overrides auto-assign and any open quote
+      if (assignment.autoAssign) {
+        await cancelAutoAssign(assignmentId);
+      }
+      await supersedePendingQuotes(assignmentId);
+  
       // Update the assignment with the assigned tutor ID
-      await prisma.assignment.update({
-        where: { id: assignmentId },
-        data: { assignedTutorId: tutorId, status: "Assigned" },
+      await transitionAssignment({
+        assignmentId,
+        to: "ASSIGNED",
+        actor: req.user,
+        data: { assignedTutorId: tutorId },
+        note: `Assigned to tutor ${tutor.id}`,
+      });
+
+      await recordAdminAction(req.user!.id, {
+        action: "assignment.assign",
+        targetType: "Assignment",
+        targetId: assignmentId,
+        details: { tutorId },
       });
   
-      // ✅ Send email to the tutor and admin
-      await sendEmail({
-        to: tutor.email,
-        subject: "New Assignment Assigned to You",
-        text: `Dear ${tutor.firstName},\n\nA new assignment has been assigned to you. Please log in to your account to review and start working on it.\n\nAssignment Title: ${assignment.title}\n\nThank you for your collaboration.\n\nBest regards,\nA+ Planner Team`,
+      // Notify the tutor and admins
+      await notifyUser(tutor, "ASSIGNMENT_ASSIGNED", {
+        title: "New Assignment Assigned to You",
+        body: `"${assignment.title}" has been assigned to you. Review it and set your price.`,
+        assignmentId,
+        email: { template: "assignmentAssigned", variables: { firstName: tutor.firstName, title: assignment.title } },
       });
   
-      await sendEmail({
-        to: process.env.ADMIN_EMAIL!,
-        subject: "Assignment Assigned Notification",
-        text: `An assignment has been successfully assigned to tutor ${tutor.firstName} ${tutor.lastName}.\n\nAssignment Title: ${assignment.title}\nTutor Email: ${tutor.email}\n\nThank you for managing the assignment distribution.\n\nBest regards,\nA+ Planner Team`,
+      await notifyAdmins("ASSIGNMENT_ASSIGNED", {
+        title: "Assignment Assigned Notification",
+        body: `"${assignment.title}" was assigned to ${tutor.firstName} ${tutor.lastName}.`,
+        assignmentId,
+        email: {
+          template: "assignmentAssignedAdmin",
+          variables: { title: assignment.title, tutorName: `${tutor.firstName} ${tutor.lastName}`, tutorEmail: tutor.email },
+        },
       });
   
       res.json({ message: `Assignment assigned to tutor ${tutor.firstName} ${tutor.lastName}.` });
     } catch (error) {
+      if (handleTransitionError(error, res)) return;
       console.error("Error assigning assignment:", error);
       res.status(500).json({ message: "Something went wrong", error });
     }
@@ -287,14 +650,14 @@ export const getPendingAssignments = async (req: Request, res: Response) => {
   
       const assignments = await prisma.assignment.findMany({
         where: { assignedTutorId: tutorId },
-        include: { Student: true },
+        include: { Student: { select: publicUserSelect }, ...successfulPaymentsInclude },
       });
   
       if (!assignments || assignments.length === 0) {
         return res.status(404).json({ message: "No assignments found for this tutor." });
       }
   
-      res.json({ assignments });
+      res.json({ assignments: assignments.map(withPaymentState) });
     } catch (error) {
       console.error("Error fetching tutor assignments:", error);
       res.status(500).json({ message: "Something went wrong", error });
@@ -305,34 +668,100 @@ export const getPendingAssignments = async (req: Request, res: Response) => {
   export const completeAssignment = async (req: AuthRequest, res: Response) => {
     try {
       const { assignmentId } = req.params;
-      const { fileUrl } = req.body;
+      const tutorId = req.user?.id;
+      const files = (req.files as Express.Multer.File[] | undefined) ?? [];
   
-      const assignment = await prisma.assignment.update({
-        where: { id: assignmentId },
-        data: {
-          status: "Completed",
-          completedFileUrl: fileUrl,
-          completedAt: new Date(),
-        },
-        include: { Student: true },
-      });
+      const existing = await prisma.assignment.findUnique({ where: { id: assignmentId } });
   
-      if (!assignment || !assignment.Student?.email) {
-        return res.status(404).json({ message: "Student or assignment not found." });
+      if (!existing || !tutorId || existing.assignedTutorId !== tutorId) {
+        return res.status(404).json({ message: "Assignment not found or not assigned to you." });
       }
   
-      const tutorCharge = assignment.tutorCharge ?? 0; // Ensure tutorCharge is not null
+      if (files.length === 0) {
+        return res.status(400).json({ message: "At least one solution file is required!" });
+      }
   
-      await sendEmail({
-        to: assignment.Student.email,
-        subject: "Your Assignment is Completed",
-        text: `Your assignment "${assignment.title}" has been completed. To access the solution file, please proceed with the payment of GHS ${tutorCharge.toFixed(
-          2
-        )}. Once payment is confirmed, you will be able to download the solution.`,
+      // A completed assignment can receive a revised solution without changing status;
+      // one the student sent back goes to COMPLETED again
+      const isRevision = existing.status === "COMPLETED" || existing.status === "REVISION_REQUESTED";
+  
+      if (!isRevision && existing.status !== "IN_PROGRESS") {
+        throw new InvalidTransitionError(existing.status, "COMPLETED");
+      }
+  
+      const solutionFiles = await storeAssignmentFiles(assignmentId, tutorId, "SOLUTION", files);
+      const version = solutionFiles[0].version;
+  
+      // Every version gets a fresh review window; the tutor is only paid once it is accepted
+      const escrow = existing.paymentMode === "ESCROW";
+      const autoAcceptAt = autoAcceptDeadline();
+  
+      let assignment;
+
+      try {
+        if (existing.status === "COMPLETED") {
+          // Only while it is still waiting for the student, who may have accepted it meanwhile
+          const { count } = await prisma.assignment.updateMany({
+            where: { id: assignmentId, status: "COMPLETED" },
+            data: { autoAcceptAt },
+          });
+          if (count === 0) throw new AssignmentConflictError();
+
+          assignment = await prisma.assignment.findUniqueOrThrow({
+            where: { id: assignmentId },
+            include: { Student: { select: publicUserSelect }, Tutor: { select: publicUserSelect } },
+          });
+        } else {
+          assignment = await transitionAssignment({
+            assignmentId,
+            to: "COMPLETED",
+            actor: req.user,
+            data: isRevision ? { autoAcceptAt } : { completedAt: new Date(), autoAcceptAt },
+            note: isRevision
+              ? `Revision ${existing.revisionCount} delivered as solution version ${version}`
+              : `Solution version ${version} uploaded`,
+          });
+        }
+      } catch (error) {
+        // Nothing was delivered, so the uploaded version must not linger
+        await discardAssignmentFiles(solutionFiles);
+        throw error;
+      }
+  
+      if (existing.status === "REVISION_REQUESTED") {
+        await resolveRevisionRequest(assignmentId, version);
+      }
+  
+      await notifyUser(assignment.Student, "ASSIGNMENT_COMPLETED", {
+        title: isRevision ? "A Revised Solution Is Available" : "Your Assignment is Completed",
+        body: isRevision
+          ? `Version ${version} of the solution for "${assignment.title}" is ready.`
+          : `The solution for "${assignment.title}" is ready${escrow ? "" : " once you have paid"}.`,
+        assignmentId,
+        email: {
+          template: "solutionDelivered",
+          variables: {
+            title: assignment.title,
+            revision: isRevision ? version : null,
+            escrow,
+            price: assignment.tutorCharge ?? 0,
+            autoAcceptAt,
+          },
+        },
+      });
+
+      await sendTemplatedSms(assignment.Student, "solutionReady", {
+        title: assignment.title,
+        paymentDue: escrow || (await isAssignmentPaid(assignmentId)) ? null : assignment.tutorCharge ?? 0,
       });
   
-      res.json({ message: "Assignment marked as completed.", assignment });
+      res.json({
+        message: isRevision ? `Revised solution uploaded as version ${version}.` : "Assignment marked as completed.",
+        assignment,
+        files: solutionFiles,
+      });
     } catch (error) {
+      if (handleTransitionError(error, res)) return;
       console.error("Error completing assignment:", error);
       res.status(500).json({ message: "Something went wrong", error });
     }
@@ -347,107 +776,409 @@ export const getPendingAssignments = async (req: Request, res: Response) => {
       const studentId = req.user?.id;
       const assignments = await prisma.assignment.findMany({
         where: { studentId },
-        include: { Tutor: true },
+        include: { Tutor: { select: publicUserSelect }, ...successfulPaymentsInclude },
+      });
+      res.json({
+        assignments: assignments.map((assignment) => ({
+          ...withPaymentState(assignment),
+          priceBreakdown: priceBreakdownOf(assignment),
+        })),
       });
-      res.json({ assignments });
     } catch (error) {
       console.error("Error fetching student assignments:", error);
       res.status(500).json({ message: "Something went wrong", error });
     }
   };
 
-  export const downloadAssignment = async (req: Request, res: Response) => {
+  // Both download routes serve the requested solution file (default: first file of the
+  // latest version) or the legacy public URL, after the same access checks
+  const sendSolutionDownload = async (req: AuthRequest, res: Response) => {
+    const { assignmentId } = req.params;
+    const user = req.user as { id: string; role: string; email: string } | undefined;
+  
+    const assignment = await prisma.assignment.findUnique({ where: { id: assignmentId } });
+  
+    if (!assignment || !user) {
+      return res.status(404).json({ message: "Assignment not found." });
+    }
+  
+    await assertCanDownloadSolution(user, assignment);
+  
+    const fileId = req.query.fileId;
+    const file =
+      typeof fileId === "string"
+        ? await prisma.assignmentFile.findFirst({ where: { id: fileId, assignmentId, kind: "SOLUTION" } })
+        : (await latestAssignmentFiles(assignmentId, "SOLUTION"))[0] ?? null;
+  
+    const url =
+      typeof fileId === "string" && !file
+        ? null
+        : await serveSolutionDownload(user, assignment, file, { ipAddress: req.ip, userAgent: req.get("user-agent") });
+  
+    if (!url) {
+      return res.status(404).json({ message: "Solution file not found." });
+    }
+  
+    res.redirect(url); // Short-lived Cloudinary URL
+  };
+  
+  export const downloadAssignment = async (req: AuthRequest, res: Response) => {
     try {
-      const { assignmentId } = req.params;
-      const assignment = await prisma.assignment.findUnique({
-        where: { id: assignmentId },
-      });
-      if (!assignment || !assignment.completedFileUrl) {
-        return res.status(404).json({ message: "Completed file not found." });
-      }
-      res.redirect(assignment.completedFileUrl); // Redirect to the Cloudinary URL
+      await sendSolutionDownload(req, res);
     } catch (error) {
+      if (error instanceof DownloadDeniedError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       console.error("Error downloading assignment:", error);
       res.status(500).json({ message: "Something went wrong", error });
     }
   };
 
   export const downloadSolutionFile = async (req: AuthRequest, res: Response) => {
+    try {
+      await sendSolutionDownload(req, res);
+    } catch (error) {
+      if (error instanceof DownloadDeniedError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error downloading solution file:", error);
+      res.status(500).json({ message: "Something went wrong", error });
+    }
+  };
+
+  export const markAssignmentAsPaid = async (req: AuthRequest, res: Response): Promise<void> => {
     try {
       const { assignmentId } = req.params;
-      const studentId = req.user?.id;
-  
-      const assignment = await prisma.assignment.findFirst({
-        where: { id: assignmentId, studentId },
-      });
-  
+
+      const assignment = await prisma.assignment.findUnique({ where: { id: assignmentId } });
       if (!assignment) {
-        return res.status(404).json({ message: "Assignment not found." });
+        res.status(404).json({ message: "Assignment not found." });
+        return;
+      }
+
+      if (await isAssignmentPaid(assignmentId)) {
+        res.status(400).json({ message: "Assignment is already marked as paid." });
+        return;
+      }
+
+      if (!assignment.tutorCharge || assignment.status === "CANCELLED") {
+        res.status(400).json({ message: "Only a priced, active assignment can be marked as paid." });
+        return;
+      }
+
+      // Numbered per assignment, so two admins marking it paid at once compute the same
+      // reference and the unique constraint keeps the second payment out
+      const manualPayments = await prisma.payment.count({ where: { assignmentId, channel: "manual" } });
+
+      // Cash or bank payments an admin has checked still go through the ledger
+      let payment;
+      try {
+        payment = await prisma.payment.create({
+          data: {
+            assignmentId,
+            payerId: assignment.studentId,
+            reference: `manual-${assignmentId}-${manualPayments + 1}`,
+            amount: toPesewas(assignment.tutorCharge),
+            channel: "manual",
+            status: "SUCCESS",
+            providerPayload: { markedPaidBy: req.user!.id },
+            paidAt: new Date(),
+          },
+        });
+      } catch (error) {
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+          res.status(400).json({ message: "Assignment is already marked as paid." });
+          return;
+        }
+        throw error;
       }
+
+      await recordAdminAction(req.user!.id, { action: "assignment.mark-paid", targetType: "Assignment", targetId: assignmentId });
+
+      // Same escrow hold and payout rules as a payment confirmed by Paystack
+      await applySettledPayment(assignmentId, payment.reference);
+
+      publishPaymentConfirmed(assignment, { ...payment, paidAt: payment.paidAt ?? new Date() });
+
+      res.json({ message: "Assignment marked as paid successfully." });
+    } catch (error) {
+      console.error("Error marking assignment as paid:", error);
+      res.status(500).json({ message: "Something went wrong", error });
+    }
+  };
+  
   
-      if (!assignment.isPaid) {
-        return res.status(403).json({ message: "Access denied. Payment required to download the solution." });
+  export const rejectAssignment = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { assignmentId } = req.params;
+      const tutorId = req.user?.id;
+  
+      const assignment = await prisma.assignment.findUnique({ where: { id: assignmentId } });
+      if (!assignment || !tutorId || assignment.assignedTutorId !== tutorId) {
+        res.status(404).json({ message: "Assignment not found or not assigned to you." });
+        return;
       }
   
-      if (!assignment.completedFileUrl) {
-        return res.status(404).json({ message: "Solution file not found." });
+      // Release the tutor so the admin can reopen or reassign the job
+      await transitionAssignment({
+        assignmentId,
+        to: "REJECTED",
+        actor: req.user,
+        data: { assignedTutorId: null },
+        note: req.body?.reason,
+      });
+
+      // A tutor withdrawing after quoting takes the quote back with them
+      await supersedePendingQuotes(assignmentId);
+
+      if (assignment.autoAssign) {
+        // The rejection stands even if the next offer cannot be made
+        await handleOfferDeclined(assignmentId, tutorId).catch((error) =>
+          console.error(`Error re-offering assignment ${assignmentId}:`, error)
+        );
       }
   
-      res.redirect(assignment.completedFileUrl);  
+      res.json({ message: "Assignment rejected successfully." });
     } catch (error) {
-      console.error("Error downloading solution file:", error);
+      if (handleTransitionError(error, res)) return;
+      console.error("Error rejecting assignment:", error);
       res.status(500).json({ message: "Something went wrong", error });
     }
   };
 
-  export const markAssignmentAsPaid = async (req: Request, res: Response): Promise<void> => {
-    const { assignmentId } = req.params;
+  export const getSolutionFiles = async (req: AuthRequest, res: Response) => {
+    try {
+      const { assignmentId } = req.params;
+      const assignment = await prisma.assignment.findUnique({ where: { id: assignmentId } });
   
-    const assignment = await prisma.assignment.findUnique({ where: { id: assignmentId } });
-    if (!assignment) {
-      res.status(404).json({ message: "Assignment not found." });
-      return;
-    }
+      if (!assignment || !req.user || !canViewAssignment(req.user, assignment)) {
+        return res.status(404).json({ message: "Assignment not found" });
+      }
   
-    if (assignment.isPaid) {
-      res.status(400).json({ message: "Assignment is already marked as paid." });
-      return;
-    }
+      const files = await prisma.assignmentFile.findMany({
+        where: { assignmentId, kind: "SOLUTION" },
+        orderBy: [{ version: "desc" }, { createdAt: "asc" }],
+        select: { id: true, version: true, fileName: true, mimeType: true, bytes: true, createdAt: true },
+      });
   
-    await prisma.assignment.update({
-      where: { id: assignmentId },
-      data: { isPaid: true },
-    });
+      const versions = [...new Set(files.map((file) => file.version))].map((version) => ({
+        version,
+        files: files.filter((file) => file.version === version),
+      }));
   
-    res.json({ message: "Assignment marked as paid successfully." });
+      res.json({ versions });
+    } catch (error) {
+      console.error("Error fetching solution files:", error);
+      res.status(500).json({ message: "Something went wrong", error });
+    }
   };
+
+  export const getAssignmentHistory = async (req: AuthRequest, res: Response) => {
+    try {
+      const { assignmentId } = req.params;
+      const assignment = await prisma.assignment.findUnique({ where: { id: assignmentId } });
   
+      if (!assignment || !req.user || !canViewAssignment(req.user, assignment)) {
+        return res.status(404).json({ message: "Assignment not found" });
+      }
   
-  export const rejectAssignment = async (req: Request, res: Response): Promise<void> => {
-    const { assignmentId } = req.params;
+      const history = await prisma.assignmentStatusHistory.findMany({
+        where: { assignmentId },
+        orderBy: { createdAt: "asc" },
+        include: {
+          ChangedBy: { select: { id: true, firstName: true, lastName: true, role: true } },
+        },
+      });
   
-    const assignment = await prisma.assignment.findUnique({ where: { id: assignmentId } });
-    if (!assignment) {
-      res.status(404).json({ message: "Assignment not found." });
-      return;
+      res.json({ history });
+    } catch (error) {
+      console.error("Error fetching assignment history:", error);
+      res.status(500).json({ message: "Something went wrong", error });
     }
+  };
+
   
-    if (assignment.status !== "Assigned") {
-      res.status(400).json({ message: "Assignment is not in an assignable state." });
-      return;
+  
+  
+
+  export const rateAssignment = async (req: AuthRequest, res: Response) => {
+    try {
+      const { assignmentId } = req.params;
+      const rating = Number(req.body.rating);
+  
+      if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+        return res.status(400).json({ message: "Rating must be a whole number from 1 to 5." });
+      }
+  
+      const assignment = await prisma.assignment.findUnique({ where: { id: assignmentId } });
+  
+      if (!assignment || assignment.studentId !== req.user?.id) {
+        return res.status(404).json({ message: "Assignment not found." });
+      }
+  
+      if (!DELIVERED_ASSIGNMENT_STATUSES.includes(assignment.status) || !assignment.assignedTutorId) {
+        return res.status(400).json({ message: "Only completed assignments can be rated." });
+      }
+  
+      // The rating feeds tutor matching; a student may revise it
+      await prisma.assignment.update({
+        where: { id: assignmentId },
+        data: { studentRating: rating, ratedAt: new Date() },
+      });
+  
+      res.json({ message: "Thank you for rating your tutor.", rating });
+    } catch (error) {
+      console.error("Error rating assignment:", error);
+      res.status(500).json({ message: "Something went wrong", error });
     }
+  };
+
+  export const acceptAssignmentSolution = async (req: AuthRequest, res: Response) => {
+    try {
+      const { assignmentId } = req.params;
   
-    await prisma.assignment.update({
-      where: { id: assignmentId },
-      data: { status: "Rejected" },
-    });
+      if (!(await findStudentAssignment(assignmentId, req.user?.id))) {
+        return res.status(404).json({ message: "Assignment not found." });
+      }
+  
+      const { assignment, payout } = await acceptSolution(assignmentId, req.user!);
+  
+      if (assignment.Tutor) {
+        await sendTemplatedEmail({
+          to: assignment.Tutor.email,
+          locale: assignment.Tutor.locale,
+          template: "solutionAccepted",
+          variables: { firstName: assignment.Tutor.firstName, title: assignment.title, paymentReleased: Boolean(payout) },
+        });
+      }
   
-    res.json({ message: "Assignment rejected successfully." });
+      res.json({
+        message: payout ? "Solution accepted. The payment has been released to the tutor." : "Solution accepted.",
+        assignment,
+      });
+    } catch (error) {
+      if (error instanceof EscrowError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (handleTransitionError(error, res)) return;
+      console.error("Error accepting solution:", error);
+      res.status(500).json({ message: "Something went wrong", error });
+    }
   };
 
+  export const cancelAssignment = async (req: AuthRequest, res: Response) => {
+    try {
+      const { assignmentId } = req.params;
+      const reason = req.body?.reason?.toString().trim() || undefined;
+      const isAdmin = req.user?.role === "ADMIN";
+  
+      if (!isAdmin && !(await findStudentAssignment(assignmentId, req.user?.id))) {
+        return res.status(404).json({ message: "Assignment not found." });
+      }
   
+      const { assignment, refunds } = await cancelAndRefundAssignment(assignmentId, req.user!, reason);
   
+      if (isAdmin) {
+        await recordAdminAction(req.user!.id, {
+          action: "assignment.cancel",
+          targetType: "Assignment",
+          targetId: assignmentId,
+          details: { reason, refunds },
+        });
+      }
   
+      const cancellation = { title: assignment.title, byAdmin: isAdmin, reason, refunded: refunds.length > 0 };
 
+      await sendTemplatedEmail({
+        to: assignment.Student.email,
+        locale: assignment.Student.locale,
+        template: "assignmentCancelled",
+        variables: { ...cancellation, firstName: assignment.Student.firstName, recipient: "STUDENT" },
+      });
+  
+      if (assignment.Tutor) {
+        await sendTemplatedEmail({
+          to: assignment.Tutor.email,
+          locale: assignment.Tutor.locale,
+          template: "assignmentCancelled",
+          variables: { ...cancellation, firstName: assignment.Tutor.firstName, recipient: "TUTOR" },
+        });
+      }
+  
+      // Refunds Paystack rejected, and manual payments, need an admin
+      const unresolved = refunds.filter((refund) => refund.status !== "REQUESTED");
+      if (unresolved.length) {
+        await sendTemplatedEmail({
+          to: process.env.ADMIN_EMAIL!,
+          template: "refundNeedsAttention",
+          variables: { title: assignment.title, assignmentId, refunds: unresolved },
+        });
+      }
+  
+      res.json({ message: "Assignment cancelled.", assignment, refunds });
+    } catch (error) {
+      if (error instanceof EscrowError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (handleTransitionError(error, res)) return;
+      console.error("Error cancelling assignment:", error);
+      res.status(500).json({ message: "Something went wrong", error });
+    }
+  };
 
+  export const requestAssignmentRevision = async (req: AuthRequest, res: Response) => {
+    try {
+      const { assignmentId } = req.params;
+      const reason = req.body.reason?.toString().trim();
+      const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+  
+      if (!reason) {
+        return res.status(400).json({ message: "Please explain what needs to be revised." });
+      }
+  
+      const { assignment, request, attachments, freeRevisionsLeft } = await requestRevision(assignmentId, req.user!, {
+        reason,
+        files,
+      });
+  
+      if (assignment.Tutor) {
+        await sendTemplatedEmail({
+          to: assignment.Tutor.email,
+          locale: assignment.Tutor.locale,
+          template: "revisionRequested",
+          variables: {
+            firstName: assignment.Tutor.firstName,
+            title: assignment.title,
+            revisionNumber: request.revisionNumber,
+            reason,
+            attachmentCount: attachments.length,
+          },
+        });
+      }
+  
+      res.json({ message: "Revision requested. The tutor has been notified.", request, attachments, freeRevisionsLeft });
+    } catch (error) {
+      if (error instanceof RevisionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (handleTransitionError(error, res)) return;
+      console.error("Error requesting revision:", error);
+      res.status(500).json({ message: "Something went wrong", error });
+    }
+  };
 
+  export const getRevisionRequests = async (req: AuthRequest, res: Response) => {
+    try {
+      const { assignmentId } = req.params;
+      const assignment = await prisma.assignment.findUnique({ where: { id: assignmentId } });
+  
+      if (!assignment || !req.user || !canViewAssignment(req.user, assignment)) {
+        return res.status(404).json({ message: "Assignment not found" });
+      }
+  
+      res.json({ revisionCount: assignment.revisionCount, requests: await listRevisionRequests(assignmentId) });
+    } catch (error) {
+      console.error("Error fetching revision requests:", error);
+      res.status(500).json({ message: "Something went wrong", error });
+    }
+  };
@@ -1,12 +1,36 @@
 import { Request, Response } from "express";
 import bcrypt from "bcryptjs";
-import jwt from "jsonwebtoken";
 import prisma from "../config/prisma";
-import cloudinary from "../config/cloudinary";
+import { uploadBuffer } from "../utils/cloudinaryUpload";
+import { toPublicUser } from "../utils/publicUser";
+import { normalizeSpecialties } from "../services/tutorSpecialtyService";
+import {
+  SessionError,
+  SessionSubject,
+  clearAuthCookies,
+  findSessionByRefreshToken,
+  revokeAllSessions,
+  revokeSession,
+  rotateRefreshToken,
+  setAuthCookies,
+  startSession,
+} from "../services/sessionService";
+import {
+  TooManyRequestsError,
+  VerificationError,
+  resetPassword,
+  sendPasswordResetEmail,
+  sendVerificationEmail,
+  verifyEmail,
+} from "../services/verificationService";
+import { MIN_PASSWORD_LENGTH } from "../utils/password";
+
+interface AuthRequest extends Request {
+  user?: { id: string; role: string; email: string; sid: string };
+}
+
+const clientInfo = (req: Request) => ({ userAgent: req.get("user-agent"), ipAddress: req.ip });
 
-// Static Admin Credentials
-const ADMIN_EMAIL = process.env.ADMIN_EMAIL || "admin@aplusplanner.com";
-const ADMIN_PASSWORD = process.env.ADMIN_PASSWORD || "Admin123!";
 const JWT_SECRET = process.env.JWT_SECRET;
 
 // ✅ Admin Login
@@ -18,24 +42,20 @@ export const adminLogin = async (req: Request, res: Response) => {
       return res.status(500).json({ message: "Server Error: JWT secret not configured." });
     }
 
-    if (email === ADMIN_EMAIL && password === ADMIN_PASSWORD) {
-      const token = jwt.sign(
-        { role: "ADMIN", email: ADMIN_EMAIL },  // Added email field
-        JWT_SECRET,
-        { expiresIn: "1h" }
-      );
+    const admin = email ? await prisma.user.findUnique({ where: { email } }) : null;
 
-      res.cookie("token", token, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === "production",
-        sameSite: "lax",
-        maxAge: 3600000,  // 1 hour
-      });
-
-      return res.json({ message: "Admin login successful" });
+    if (!admin || admin.role !== "ADMIN" || !password || !(await bcrypt.compare(password, admin.password))) {
+      return res.status(400).json({ message: "Invalid admin credentials" });
     }
 
-    return res.status(400).json({ message: "Invalid admin credentials" });
+    const { accessToken, refreshToken } = await startSession(
+      { userId: admin.id, role: admin.role, email: admin.email },
+      clientInfo(req)
+    );
+
+    setAuthCookies(res, accessToken, refreshToken);
+
+    return res.json({ message: "Admin login successful" });
   } catch (error) {
     return res.status(500).json({ message: "Something went wrong", error });
   }
@@ -62,7 +82,9 @@ export const registerStudent = async (req: Request, res: Response): Promise<void
       data: { firstName, lastName, email, password: hashedPassword, role: "STUDENT", department, phoneNumber, momoNumber, isApproved: true },
     });
 
-    res.status(201).json({ message: "Student registered successfully!", user });
+    await sendVerificationEmail(user);
+
+    res.status(201).json({ message: "Student registered successfully! Please check your email to verify your account.", user: toPublicUser(user) });
   } catch (error) {
     res.status(500).json({ message: "Something went wrong", error });
   }
@@ -73,6 +95,8 @@ export const registerTutor = async (req: Request, res: Response): Promise<void>
   try {
     const { firstName, lastName, email, password, programSpecialty } = req.body;
     const certificate = req.file;
+    // programSpecialty is the primary one; extra specialties may be sent as repeated fields
+    const specialties = normalizeSpecialties([programSpecialty, ...[].concat(req.body.specialties ?? [])]);
 
     if (!certificate) {
       res.status(400).json({ message: "Certificate file is required!" });
@@ -88,17 +112,9 @@ export const registerTutor = async (req: Request, res: Response): Promise<void>
     const hashedPassword = await bcrypt.hash(password, 10);
 
     // Upload certificate to Cloudinary
-    const uploadResult = await new Promise((resolve, reject) => {
-      cloudinary.uploader.upload_stream(
-        { folder: "tutor_certificates", resource_type: "auto" },
-        (error, result) => {
-          if (error) reject(error);
-          else resolve(result);
-        }
-      ).end(certificate.buffer);
-    });
+    const uploadResult = await uploadBuffer(certificate.buffer, { folder: "tutor_certificates" });
 
-    const certificateUrl = (uploadResult as any).secure_url;
+    const certificateUrl = uploadResult.secure_url;
 
     const user = await prisma.user.create({
       data: {
@@ -111,10 +127,16 @@ export const registerTutor = async (req: Request, res: Response): Promise<void>
         certificateUrl,
         isVerified: false,
         isApproved: false,
+        specialties: { create: specialties.map((specialty) => ({ specialty })) },
       },
     });
 
-    res.status(201).json({ message: "Tutor registered successfully! Awaiting admin approval.", user });
+    await sendVerificationEmail(user);
+
+    res.status(201).json({
+      message: "Tutor registered successfully! Please verify your email; your account is also awaiting admin approval.",
+      user: toPublicUser(user),
+    });
   } catch (error) {
     res.status(500).json({ message: "Something went wrong", error });
   }
@@ -131,24 +153,240 @@ export const login = async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
+    if (!user.isVerified) {
+      res.status(403).json({ message: "Please verify your email address before logging in.", code: "EMAIL_NOT_VERIFIED" });
+      return;
+    }
+
     if (user.role === "TUTOR" && !user.isApproved) {
-      res.status(403).json({ message: "Tutor is awaiting admin approval." });
+      res.status(403).json({
+        message: user.rejectedAt
+          ? "Your tutor application was rejected. Please contact support for more details."
+          : "Tutor is awaiting admin approval.",
+      });
       return;
     }
 
-    const token = jwt.sign(
-      { id: user.id, role: user.role, email: user.email },  // Include email in the token
-      process.env.JWT_SECRET!,
-      { expiresIn: "1h" }
+    const { accessToken, refreshToken } = await startSession(
+      { userId: user.id, role: user.role, email: user.email },
+      clientInfo(req)
     );
 
-    res.cookie("token", token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      maxAge: 3600000,  // 1 hour
+    setAuthCookies(res, accessToken, refreshToken);
+
+    res.json({ message: "Login successful", user: toPublicUser(user) });
+  } catch (error) {
+    res.status(500).json({ message: "Something went wrong", error });
+  }
+};
+
+// ✅ Verify Email
+export const verifyEmailAddress = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const token = req.query.token?.toString();
+
+    if (!token) {
+      res.status(400).json({ message: "Verification token is required." });
+      return;
+    }
+
+    await verifyEmail(token);
+
+    res.json({ message: "Email verified successfully! You can now log in." });
+  } catch (error) {
+    if (error instanceof VerificationError) {
+      res.status(400).json({ message: error.message, code: "INVALID_VERIFICATION_TOKEN" });
+      return;
+    }
+    res.status(500).json({ message: "Something went wrong", error });
+  }
+};
+
+// ✅ Resend Verification Email
+export const resendVerificationEmail = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const email = req.body.email?.toString().trim();
+
+    if (!email) {
+      res.status(400).json({ message: "Email is required." });
+      return;
+    }
+
+    const user = await prisma.user.findUnique({ where: { email } });
+
+    // Same answer whether or not the account exists, so emails cannot be probed
+    if (user && !user.isVerified) {
+      await sendVerificationEmail(user);
+    }
+
+    res.json({ message: "If the account exists and is not yet verified, a new verification email has been sent." });
+  } catch (error) {
+    if (error instanceof TooManyRequestsError) {
+      res.set("Retry-After", String(error.retryAfterSeconds));
+      res.status(429).json({ message: error.message, code: "TOO_MANY_REQUESTS", retryAfter: error.retryAfterSeconds });
+      return;
+    }
+    res.status(500).json({ message: "Something went wrong", error });
+  }
+};
+
+// ✅ Forgot Password
+export const forgotPassword = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const email = req.body.email?.toString().trim();
+
+    if (!email) {
+      res.status(400).json({ message: "Email is required." });
+      return;
+    }
+
+    const user = await prisma.user.findUnique({ where: { email } });
+
+    if (user) {
+      try {
+        await sendPasswordResetEmail(user);
+      } catch (error) {
+        // Answering 429 here would reveal that the account exists
+        if (!(error instanceof TooManyRequestsError)) throw error;
+      }
+    }
+
+    res.json({ message: "If an account exists for this email, a password reset link has been sent." });
+  } catch (error) {
+    res.status(500).json({ message: "Something went wrong", error });
+  }
+};
+
+// ✅ Reset Password
+export const resetForgottenPassword = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { token, newPassword } = req.body;
+
+    if (!token || !newPassword) {
+      res.status(400).json({ message: "Token and new password are required." });
+      return;
+    }
+
+    if (newPassword.length < MIN_PASSWORD_LENGTH) {
+      res.status(400).json({ message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters long.` });
+      return;
+    }
+
+    await resetPassword(token, newPassword);
+
+    clearAuthCookies(res);
+    res.json({ message: "Password reset successfully. Please log in with your new password." });
+  } catch (error) {
+    if (error instanceof VerificationError) {
+      res.status(400).json({ message: error.message, code: "INVALID_RESET_TOKEN" });
+      return;
+    }
+    res.status(500).json({ message: "Something went wrong", error });
+  }
+};
+
+// ✅ Change Password
+export const changePassword = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { currentPassword, newPassword } = req.body;
+
+    if (!currentPassword || !newPassword) {
+      res.status(400).json({ message: "Current and new password are required." });
+      return;
+    }
+
+    if (newPassword.length < MIN_PASSWORD_LENGTH) {
+      res.status(400).json({ message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters long.` });
+      return;
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: req.user!.id } });
+    if (!user || !(await bcrypt.compare(currentPassword, user.password))) {
+      res.status(400).json({ message: "Current password is incorrect." });
+      return;
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { password: await bcrypt.hash(newPassword, 10) },
     });
 
-    res.json({ message: "Login successful", user });
+    // Sign out every device, then keep this one signed in with a fresh session
+    await revokeAllSessions(user.id, "Password changed");
+
+    const { accessToken, refreshToken } = await startSession(
+      { userId: user.id, role: user.role, email: user.email },
+      clientInfo(req)
+    );
+    setAuthCookies(res, accessToken, refreshToken);
+
+    res.json({ message: "Password changed successfully. Other sessions have been signed out." });
+  } catch (error) {
+    res.status(500).json({ message: "Something went wrong", error });
+  }
+};
+
+// Reloads who a session belongs to; null if they may no longer sign in
+const resolveSessionSubject = async (session: { userId: string }): Promise<SessionSubject | null> => {
+  const user = await prisma.user.findUnique({ where: { id: session.userId } });
+
+  if (!user || !user.isVerified || (user.role === "TUTOR" && !user.isApproved)) {
+    return null;
+  }
+
+  return { userId: user.id, role: user.role, email: user.email };
+};
+
+// ✅ Refresh Session
+export const refreshSession = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const token = req.cookies?.refreshToken;
+
+    if (!token) {
+      res.status(401).json({ message: "No refresh token provided." });
+      return;
+    }
+
+    const { accessToken, refreshToken } = await rotateRefreshToken(token, resolveSessionSubject);
+
+    setAuthCookies(res, accessToken, refreshToken);
+
+    res.json({ message: "Session refreshed" });
+  } catch (error) {
+    if (error instanceof SessionError) {
+      clearAuthCookies(res);
+      res.status(401).json({ message: error.message });
+      return;
+    }
+    res.status(500).json({ message: "Something went wrong", error });
+  }
+};
+
+// ✅ Logout (current session)
+export const logout = async (req: Request, res: Response): Promise<void> => {
+  try {
+    // Works with an expired access token, as long as the refresh cookie is there
+    const token = req.cookies?.refreshToken;
+    const session = token ? await findSessionByRefreshToken(token) : null;
+
+    if (session) {
+      await revokeSession(session.id, "Logged out");
+    }
+
+    clearAuthCookies(res);
+    res.json({ message: "Logged out" });
+  } catch (error) {
+    res.status(500).json({ message: "Something went wrong", error });
+  }
+};
+
+// ✅ Logout from every device
+export const logoutAll = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const revoked = await revokeAllSessions(req.user!.id, "Logged out everywhere");
+
+    clearAuthCookies(res);
+    res.json({ message: `Logged out of ${revoked} session(s)` });
   } catch (error) {
     res.status(500).json({ message: "Something went wrong", error });
   }
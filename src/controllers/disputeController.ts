@@ -0,0 +1,323 @@
+import { Request, Response } from "express";
+import { DisputeOutcome, DisputeReason, DisputeStatus } from "@prisma/client";
+import prisma from "../config/prisma";
+import { sendTemplatedEmail } from "../utils/emailService";
+import { canViewAssignment } from "../utils/assignmentAccess";
+import { recordAdminAction } from "../services/adminAuditService";
+import { toPesewas } from "../services/paymentService";
+import {
+  DisputeError,
+  addDisputeEvidence,
+  disputeEvidenceInclude,
+  openDispute,
+  resolveDispute,
+  retryDisputeRefunds,
+  withEvidenceFiles,
+} from "../services/disputeService";
+
+interface AuthRequest extends Request {
+  user?: { id: string; role: string; email: string };
+}
+
+const handleDisputeError = (error: unknown, res: Response): boolean => {
+  if (error instanceof DisputeError) {
+    res.status(error.status).json({ message: error.message });
+    return true;
+  }
+  return false;
+};
+
+const uploadedFiles = (req: Request) => (req.files as Express.Multer.File[] | undefined) ?? [];
+
+/**
+ * Student opens a dispute on a paid assignment, with optional evidence files
+ */
+export const openAssignmentDispute = async (req: AuthRequest, res: Response) => {
+  try {
+    const { assignmentId } = req.params;
+    const reason = req.body.reason?.toString().toUpperCase();
+    const description = req.body.description?.toString().trim();
+
+    if (!(Object.values(DisputeReason) as string[]).includes(reason)) {
+      return res
+        .status(400)
+        .json({ message: `reason must be one of ${Object.values(DisputeReason).join(", ")}.` });
+    }
+
+    if (!description) {
+      return res.status(400).json({ message: "Please describe the problem." });
+    }
+
+    const { dispute, payout } = await openDispute(assignmentId, req.user!.id, {
+      reason: reason as DisputeReason,
+      description,
+      files: uploadedFiles(req),
+    });
+
+    const assignment = await prisma.assignment.findUniqueOrThrow({
+      where: { id: assignmentId },
+      include: { Tutor: true },
+    });
+
+    await sendTemplatedEmail({
+      to: process.env.ADMIN_EMAIL!,
+      template: "disputeOpened",
+      variables: {
+        title: assignment.title,
+        assignmentId,
+        reason: dispute.reason,
+        description,
+        unheldPayoutStatus: payout && payout.status !== "HELD" ? payout.status : null,
+      },
+    });
+
+    if (assignment.Tutor) {
+      await sendTemplatedEmail({
+        to: assignment.Tutor.email,
+        locale: assignment.Tutor.locale,
+        template: "disputeOpenedTutor",
+        variables: { firstName: assignment.Tutor.firstName, title: assignment.title },
+      });
+    }
+
+    res.status(201).json({ message: "Dispute opened. An admin will review it.", dispute });
+  } catch (error) {
+    if (handleDisputeError(error, res)) return;
+    console.error("Error opening dispute:", error);
+    res.status(500).json({ message: "Something went wrong", error });
+  }
+};
+
+/**
+ * The student, assigned tutor or an admin adds a note and/or files to an open dispute
+ */
+export const submitDisputeEvidence = async (req: AuthRequest, res: Response) => {
+  try {
+    const { disputeId } = req.params;
+    const note = req.body.note?.toString().trim() || undefined;
+
+    const evidence = await addDisputeEvidence(disputeId, req.user!, { note, files: uploadedFiles(req) });
+
+    res.status(201).json({ message: "Evidence submitted.", evidence });
+  } catch (error) {
+    if (handleDisputeError(error, res)) return;
+    console.error("Error submitting dispute evidence:", error);
+    res.status(500).json({ message: "Something went wrong", error });
+  }
+};
+
+/**
+ * Lists the disputes of an assignment, newest first, for the people on it
+ */
+export const getAssignmentDisputes = async (req: AuthRequest, res: Response) => {
+  try {
+    const { assignmentId } = req.params;
+    const assignment = await prisma.assignment.findUnique({ where: { id: assignmentId } });
+
+    if (!assignment || !req.user || !canViewAssignment(req.user, assignment)) {
+      return res.status(404).json({ message: "Assignment not found" });
+    }
+
+    const disputes = await prisma.dispute.findMany({
+      where: { assignmentId },
+      orderBy: { createdAt: "desc" },
+      include: disputeEvidenceInclude,
+    });
+
+    res.json({ disputes: await Promise.all(disputes.map(withEvidenceFiles)) });
+  } catch (error) {
+    console.error("Error fetching assignment disputes:", error);
+    res.status(500).json({ message: "Something went wrong", error });
+  }
+};
+
+/**
+ * Lists disputes for admin review, oldest open ones first by default
+ */
+export const getDisputes = async (req: Request, res: Response) => {
+  try {
+    const status = req.query.status?.toString().toUpperCase() ?? "OPEN";
+    const take = Math.min(Math.max(Number(req.query.limit) || 50, 1), 200);
+    const skip = Math.max(Number(req.query.offset) || 0, 0);
+
+    if (status !== "ALL" && !(Object.values(DisputeStatus) as string[]).includes(status)) {
+      return res.status(400).json({ message: "Invalid dispute status." });
+    }
+
+    const where = status === "ALL" ? {} : { status: status as DisputeStatus };
+
+    const [disputes, total] = await Promise.all([
+      prisma.dispute.findMany({
+        where,
+        orderBy: { createdAt: status === "OPEN" ? "asc" : "desc" },
+        take,
+        skip,
+        include: {
+          Assignment: { select: { id: true, title: true, status: true, studentId: true, assignedTutorId: true } },
+          OpenedBy: { select: { id: true, firstName: true, lastName: true, email: true } },
+          _count: { select: { evidence: true } },
+        },
+      }),
+      prisma.dispute.count({ where }),
+    ]);
+
+    res.json({ disputes, total });
+  } catch (error) {
+    console.error("Error fetching disputes:", error);
+    res.status(500).json({ message: "Something went wrong", error });
+  }
+};
+
+/**
+ * One dispute with its evidence, payments and payout, for admin review
+ */
+export const getDisputeById = async (req: Request, res: Response) => {
+  try {
+    const dispute = await prisma.dispute.findUnique({
+      where: { id: req.params.disputeId },
+      include: {
+        ...disputeEvidenceInclude,
+        Assignment: {
+          include: {
+            Student: { select: { id: true, firstName: true, lastName: true, email: true } },
+            Tutor: { select: { id: true, firstName: true, lastName: true, email: true } },
+            payments: { orderBy: { createdAt: "asc" } },
+            payout: true,
+          },
+        },
+        ResolvedBy: { select: { id: true, email: true } },
+      },
+    });
+
+    if (!dispute) {
+      return res.status(404).json({ message: "Dispute not found." });
+    }
+
+    res.json({ dispute: await withEvidenceFiles(dispute) });
+  } catch (error) {
+    console.error("Error fetching dispute:", error);
+    res.status(500).json({ message: "Something went wrong", error });
+  }
+};
+
+type DisputeResolution = Awaited<ReturnType<typeof resolveDispute>>;
+
+/**
+ * Tells the student and tutor about a resolved dispute and the admin about
+ * refunds that need a hand. A dispute whose refunds Paystack rejected is not
+ * resolved yet: only the admin hears about it, so they can retry.
+ */
+const announceDisputeOutcome = async ({ dispute, refunds, payout }: DisputeResolution, res: Response) => {
+  const { Assignment: assignment } = dispute;
+  const note = dispute.resolutionNote;
+
+  // Refunds Paystack rejected, and manual payments, need an admin
+  const unresolved = refunds.filter((refund) => refund.status !== "REQUESTED");
+  if (unresolved.length) {
+    await sendTemplatedEmail({
+      to: process.env.ADMIN_EMAIL!,
+      template: "disputeRefundsNeedAttention",
+      variables: { title: assignment.title, disputeId: dispute.id, refunds: unresolved },
+    });
+  }
+
+  if (dispute.status !== "RESOLVED") {
+    return res.status(502).json({
+      message: "The decision is recorded, but some refunds could not be made. Retry them once the problem is fixed.",
+      dispute,
+      refunds,
+      payout,
+    });
+  }
+
+  const decision = {
+    title: assignment.title,
+    upheld: dispute.outcome === "TUTOR_UPHELD",
+    refundAmount: (dispute.refundAmount ?? 0) / 100,
+    requeuedPayout: payout?.status === "PENDING" ? payout.amount / 100 : null,
+    note,
+  };
+
+  await sendTemplatedEmail({
+    to: assignment.Student.email,
+    locale: assignment.Student.locale,
+    template: "disputeResolved",
+    variables: { ...decision, firstName: assignment.Student.firstName, recipient: "STUDENT" },
+  });
+
+  if (assignment.Tutor) {
+    await sendTemplatedEmail({
+      to: assignment.Tutor.email,
+      locale: assignment.Tutor.locale,
+      template: "disputeResolved",
+      variables: { ...decision, firstName: assignment.Tutor.firstName, recipient: "TUTOR" },
+    });
+  }
+
+  res.json({ message: "Dispute resolved.", dispute, refunds, payout });
+};
+
+/**
+ * Admin resolves a dispute with a full refund, a partial refund (refundAmount in GHS) or by upholding the tutor
+ */
+export const resolveAssignmentDispute = async (req: AuthRequest, res: Response) => {
+  try {
+    const { disputeId } = req.params;
+    const outcome = req.body.outcome?.toString().toUpperCase();
+    const note = req.body.note?.toString().trim() || undefined;
+    const refundAmount = req.body.refundAmount !== undefined ? Number(req.body.refundAmount) : undefined;
+
+    if (!(Object.values(DisputeOutcome) as string[]).includes(outcome)) {
+      return res
+        .status(400)
+        .json({ message: `outcome must be one of ${Object.values(DisputeOutcome).join(", ")}.` });
+    }
+
+    if (outcome === "PARTIAL_REFUND" && (refundAmount === undefined || isNaN(refundAmount))) {
+      return res.status(400).json({ message: "refundAmount is required for a partial refund." });
+    }
+
+    const { dispute, refunds, payout } = await resolveDispute(disputeId, req.user!.id, {
+      outcome: outcome as DisputeOutcome,
+      refundAmount: refundAmount !== undefined ? toPesewas(refundAmount) : undefined,
+      note,
+    });
+
+    await recordAdminAction(req.user!.id, {
+      action: "dispute.resolve",
+      targetType: "Dispute",
+      targetId: disputeId,
+      details: { outcome, refundAmount: dispute.refundAmount, refunds, payoutStatus: payout?.status ?? null },
+    });
+
+    await announceDisputeOutcome({ dispute, refunds, payout }, res);
+  } catch (error) {
+    if (handleDisputeError(error, res)) return;
+    console.error("Error resolving dispute:", error);
+    res.status(500).json({ message: "Something went wrong", error });
+  }
+};
+
+/**
+ * Admin retries the refunds Paystack rejected when a dispute was resolved
+ */
+export const retryFailedDisputeRefunds = async (req: AuthRequest, res: Response) => {
+  try {
+    const { disputeId } = req.params;
+
+    const result = await retryDisputeRefunds(disputeId);
+
+    await recordAdminAction(req.user!.id, {
+      action: "dispute.retry-refunds",
+      targetType: "Dispute",
+      targetId: disputeId,
+      details: { refunds: result.refunds, payoutStatus: result.payout?.status ?? null },
+    });
+
+    await announceDisputeOutcome(result, res);
+  } catch (error) {
+    if (handleDisputeError(error, res)) return;
+    console.error("Error retrying dispute refunds:", error);
+    res.status(500).json({ message: "Something went wrong", error });
+  }
+};
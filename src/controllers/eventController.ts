@@ -0,0 +1,50 @@
+import { Request, Response } from "express";
+import { positiveNumberFromEnv } from "../utils/env";
+import { isSessionActive } from "../services/sessionService";
+import { getTutorSpecialties } from "../services/tutorSpecialtyService";
+import { joinRooms, roleRoom, specialtyRoom, userRoom } from "../services/realtimeService";
+
+interface AuthRequest extends Request {
+  user?: { id: string; role: string; email: string; sid: string };
+}
+
+/**
+ * Opens a Server-Sent Events stream for the logged-in user. It joins their own
+ * room, their role's room and, for tutors, one room per specialty. A comment
+ * line every EVENT_STREAM_HEARTBEAT_SECONDS (default 25) keeps proxies from
+ * closing it and ends the stream once the session is revoked.
+ */
+export const streamEvents = async (req: AuthRequest, res: Response) => {
+  const user = req.user!;
+
+  // Specialties are read once; later changes move the stream to the new rooms (see moveToSpecialtyRooms)
+  const specialties = user.role === "TUTOR" ? await getTutorSpecialties(user.id) : [];
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    // Stops nginx from buffering the stream
+    "X-Accel-Buffering": "no",
+  });
+  res.write("retry: 5000\n\n");
+
+  const leaveRooms = joinRooms(res, [userRoom(user.id), roleRoom(user.role), ...specialties.map(specialtyRoom)]);
+
+  const heartbeat = setInterval(async () => {
+    try {
+      if (!(await isSessionActive(user.sid))) {
+        res.end();
+        return;
+      }
+      res.write(": heartbeat\n\n");
+    } catch (error) {
+      console.error("Error checking event stream session:", error);
+    }
+  }, positiveNumberFromEnv("EVENT_STREAM_HEARTBEAT_SECONDS", 25) * 1000);
+
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    leaveRooms();
+  });
+};
@@ -0,0 +1,86 @@
+import { Request, Response } from "express";
+import prisma from "../config/prisma";
+import {
+  DownloadDeniedError,
+  assertCanDownloadFile,
+  createDownloadToken,
+  serveSolutionDownload,
+  verifyDownloadToken,
+} from "../services/assignmentFileService";
+
+interface AuthRequest extends Request {
+  user?: { id: string; role: string; email: string };
+}
+
+/**
+ * Issues a short-lived download link for one assignment file, bound to the requesting user
+ */
+export const createFileDownloadLink = async (req: AuthRequest, res: Response) => {
+  try {
+    const { assignmentId, fileId } = req.params;
+
+    const file = await prisma.assignmentFile.findFirst({
+      where: { id: fileId, assignmentId },
+      include: { Assignment: true },
+    });
+
+    if (!file || !req.user) {
+      return res.status(404).json({ message: "File not found." });
+    }
+
+    await assertCanDownloadFile(req.user, file, file.Assignment);
+
+    const { token, expiresAt } = createDownloadToken(file.id, req.user);
+
+    res.json({
+      url: `${process.env.BASE_URL}/api/files/download?token=${encodeURIComponent(token)}`,
+      expiresAt,
+    });
+  } catch (error) {
+    if (error instanceof DownloadDeniedError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error("Error creating download link:", error);
+    res.status(500).json({ message: "Something went wrong", error });
+  }
+};
+
+/**
+ * Redeems a download link: re-checks access, records the download and redirects to Cloudinary
+ */
+export const downloadWithToken = async (req: AuthRequest, res: Response) => {
+  try {
+    const { token } = req.query;
+
+    if (typeof token !== "string" || !req.user) {
+      return res.status(400).json({ message: "Download token is required." });
+    }
+
+    const fileId = verifyDownloadToken(token, req.user);
+
+    const file = await prisma.assignmentFile.findUnique({
+      where: { id: fileId },
+      include: { Assignment: true },
+    });
+
+    if (!file) {
+      return res.status(404).json({ message: "File not found." });
+    }
+
+    // Access may have changed since the link was issued (e.g. a refund)
+    await assertCanDownloadFile(req.user, file, file.Assignment);
+
+    const url = await serveSolutionDownload(req.user, file.Assignment, file, {
+      ipAddress: req.ip,
+      userAgent: req.get("user-agent"),
+    });
+
+    res.redirect(url!);
+  } catch (error) {
+    if (error instanceof DownloadDeniedError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error("Error downloading file:", error);
+    res.status(500).json({ message: "Something went wrong", error });
+  }
+};
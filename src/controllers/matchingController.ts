@@ -0,0 +1,77 @@
+import { Request, Response } from "express";
+import prisma from "../config/prisma";
+import { rankTutorsForAssignment } from "../services/tutorMatchingService";
+import { AutoAssignError, startAutoAssign } from "../services/assignmentOfferService";
+import { AssignmentConflictError, InvalidTransitionError } from "../services/assignmentStatusService";
+import { recordAdminAction } from "../services/adminAuditService";
+
+interface AuthRequest extends Request {
+  user?: { id: string; role: string; email: string };
+}
+
+/**
+ * Ranks approved tutors for an assignment by specialty, workload, speed, reliability and rating
+ */
+export const getSuggestedTutors = async (req: Request, res: Response) => {
+  try {
+    const { assignmentId } = req.params;
+    const limit = Math.min(Math.max(Math.floor(Number(req.query.limit)) || 10, 1), 50);
+
+    const assignment = await prisma.assignment.findUnique({
+      where: { id: assignmentId },
+      include: { offers: { orderBy: { createdAt: "asc" } } },
+    });
+
+    if (!assignment) {
+      return res.status(404).json({ message: "Assignment not found." });
+    }
+
+    const suggestions = await rankTutorsForAssignment(assignment, {
+      specialtyOnly: req.query.specialtyOnly === "true",
+    });
+
+    res.json({
+      assignmentId,
+      programSpecialty: assignment.programSpecialty,
+      autoAssign: assignment.autoAssign,
+      offers: assignment.offers,
+      suggestions: suggestions.slice(0, limit),
+    });
+  } catch (error) {
+    console.error("Error ranking tutors:", error);
+    res.status(500).json({ message: "Something went wrong", error });
+  }
+};
+
+/**
+ * Offers an assignment to the best-ranked tutor, then to the next one on rejection or timeout
+ */
+export const autoAssignAssignment = async (req: AuthRequest, res: Response) => {
+  try {
+    const { assignmentId } = req.params;
+
+    const offer = await startAutoAssign(assignmentId, req.user!);
+
+    await recordAdminAction(req.user!.id, {
+      action: "assignment.auto-assign",
+      targetType: "Assignment",
+      targetId: assignmentId,
+      details: { firstOfferTutorId: offer?.tutorId ?? null },
+    });
+
+    if (!offer) {
+      return res.json({ message: "No tutor with a matching specialty is available; the assignment is open to all tutors." });
+    }
+
+    res.json({ message: "Auto-assign started.", offer });
+  } catch (error) {
+    if (error instanceof AutoAssignError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    if (error instanceof AssignmentConflictError || error instanceof InvalidTransitionError) {
+      return res.status(409).json({ message: error.message });
+    }
+    console.error("Error starting auto-assign:", error);
+    res.status(500).json({ message: "Something went wrong", error });
+  }
+};
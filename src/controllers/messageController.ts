@@ -0,0 +1,69 @@
+import { Request, Response } from "express";
+import prisma from "../config/prisma";
+import { canViewAssignment } from "../utils/assignmentAccess";
+import { MessageError, countUnreadMessages, listMessages, postMessage } from "../services/messageService";
+
+interface AuthRequest extends Request {
+  user?: { id: string; role: string; email: string };
+}
+
+const handleMessageError = (error: unknown, res: Response): boolean => {
+  if (error instanceof MessageError) {
+    res.status(error.status).json({ message: error.message });
+    return true;
+  }
+  return false;
+};
+
+const findVisibleAssignment = async (req: AuthRequest) => {
+  const assignment = await prisma.assignment.findUnique({ where: { id: req.params.assignmentId } });
+  return assignment && req.user && canViewAssignment(req.user, assignment) ? assignment : null;
+};
+
+/**
+ * A page of the assignment's message thread; everything returned is marked as read
+ */
+export const getAssignmentMessages = async (req: AuthRequest, res: Response) => {
+  try {
+    const assignment = await findVisibleAssignment(req);
+
+    if (!assignment) {
+      return res.status(404).json({ message: "Assignment not found" });
+    }
+
+    const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 200);
+    const before = req.query.before?.toString() || undefined;
+
+    const { messages, hasMore } = await listMessages(assignment.id, req.user!.id, { before, limit });
+
+    res.json({ messages, hasMore, unreadCount: await countUnreadMessages(assignment.id, req.user!.id) });
+  } catch (error) {
+    if (handleMessageError(error, res)) return;
+    console.error("Error fetching assignment messages:", error);
+    res.status(500).json({ message: "Something went wrong", error });
+  }
+};
+
+/**
+ * The student, assigned tutor or an admin posts to the assignment's message thread
+ */
+export const postAssignmentMessage = async (req: AuthRequest, res: Response) => {
+  try {
+    const assignment = await findVisibleAssignment(req);
+
+    if (!assignment) {
+      return res.status(404).json({ message: "Assignment not found" });
+    }
+
+    const assignmentMessage = await postMessage(assignment, req.user!.id, {
+      body: req.body.body?.toString().trim() ?? "",
+      files: (req.files as Express.Multer.File[] | undefined) ?? [],
+    });
+
+    res.status(201).json({ message: "Message sent.", assignmentMessage });
+  } catch (error) {
+    if (handleMessageError(error, res)) return;
+    console.error("Error posting assignment message:", error);
+    res.status(500).json({ message: "Something went wrong", error });
+  }
+};
@@ -0,0 +1,91 @@
+import { Request, Response } from "express";
+import {
+  NotificationError,
+  getNotificationPreferences,
+  listNotifications,
+  markNotificationsRead,
+  updateNotificationPreferences,
+} from "../services/notificationService";
+
+interface AuthRequest extends Request {
+  user?: { id: string; role: string; email: string };
+}
+
+/**
+ * The logged-in user's notifications, newest first, with their unread count
+ */
+export const getNotifications = async (req: AuthRequest, res: Response) => {
+  try {
+    const limit = Math.min(Math.max(Number(req.query.limit) || 20, 1), 100);
+    const offset = Math.max(Number(req.query.offset) || 0, 0);
+    const unreadOnly = req.query.unread === "true";
+
+    res.json(await listNotifications(req.user!.id, { unreadOnly, limit, offset }));
+  } catch (error) {
+    console.error("Error fetching notifications:", error);
+    res.status(500).json({ message: "Something went wrong", error });
+  }
+};
+
+/**
+ * Marks one notification as read
+ */
+export const markNotificationRead = async (req: AuthRequest, res: Response) => {
+  try {
+    const updated = await markNotificationsRead(req.user!.id, [req.params.notificationId]);
+    res.json({ message: "Notification marked as read.", updated });
+  } catch (error) {
+    console.error("Error marking notification as read:", error);
+    res.status(500).json({ message: "Something went wrong", error });
+  }
+};
+
+/**
+ * Marks the given notifications (`ids`), or all of them, as read
+ */
+export const markAllNotificationsRead = async (req: AuthRequest, res: Response) => {
+  try {
+    const ids = req.body?.ids;
+
+    if (ids !== undefined && (!Array.isArray(ids) || ids.some((id) => typeof id !== "string"))) {
+      return res.status(400).json({ message: "ids must be an array of notification IDs." });
+    }
+
+    const updated = await markNotificationsRead(req.user!.id, ids);
+    res.json({ message: "Notifications marked as read.", updated });
+  } catch (error) {
+    console.error("Error marking notifications as read:", error);
+    res.status(500).json({ message: "Something went wrong", error });
+  }
+};
+
+export const getPreferences = async (req: AuthRequest, res: Response) => {
+  try {
+    res.json({ preferences: await getNotificationPreferences(req.user!.id) });
+  } catch (error) {
+    console.error("Error fetching notification preferences:", error);
+    res.status(500).json({ message: "Something went wrong", error });
+  }
+};
+
+/**
+ * Chooses which events are emailed; the rest stay in-app only
+ */
+export const updatePreferences = async (req: AuthRequest, res: Response) => {
+  try {
+    const updates = req.body?.email;
+
+    if (!updates || typeof updates !== "object" || Array.isArray(updates)) {
+      return res.status(400).json({ message: "email must be an object of event names to true or false." });
+    }
+
+    const preferences = await updateNotificationPreferences(req.user!.id, updates);
+    res.json({ message: "Notification preferences updated.", preferences });
+  } catch (error) {
+    if (error instanceof NotificationError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error("Error updating notification preferences:", error);
+    res.status(500).json({ message: "Something went wrong", error });
+  }
+};
@@ -1,13 +1,28 @@
 import { Request, Response } from "express";
+import { Prisma } from "@prisma/client";
 import prisma from "../config/prisma";
-import { initializePayment, verifyPayment } from "../services/paystackService";
-import { sendEmail } from "../utils/emailService";
+import { initializePayment, verifyWebhookSignature } from "../services/paystackService";
+import {
+  PaymentVerificationError,
+  refundAssignmentPayment,
+  settleAssignmentPayment,
+  recordInitializedPayment,
+  isAssignmentPaid,
+  toPesewas,
+} from "../services/paymentService";
+import { TransferEventData, applyTransferEvent } from "../services/payoutService";
+import { priceBreakdownOf } from "../services/pricingService";
 
 interface AuthRequest extends Request {
   user?: { id: string; email: string };
 }
 
 // ✅ Initialize Payment for Assignment
+//
+// The pricing rules are applied when the tutor quotes (`priceAssignment` in
+// submitQuote), not here: the student is charged the `tutorCharge` of the quote
+// they accepted, so they pay the price they agreed to even if an admin changes
+// the rules or the deadline gets closer before they pay.
 export const initializePaymentForAssignment = async (req: AuthRequest, res: Response) => {
   try {
     const { assignmentId } = req.params;
@@ -25,11 +40,37 @@ export const initializePaymentForAssignment = async (req: AuthRequest, res: Resp
       return res.status(404).json({ message: "Assignment not found or price not set." });
     }
 
-    const paymentData = await initializePayment(req.user.email, assignment.tutorCharge, assignmentId);
+    if (assignment.status === "CANCELLED") {
+      return res.status(400).json({ message: "Assignment has been cancelled." });
+    }
+
+    // Escrow jobs are paid up front, once the student has accepted the quote
+    if (assignment.paymentMode === "ESCROW" && assignment.status !== "AWAITING_PAYMENT") {
+      return res.status(400).json({ message: "Accept the tutor's quote before paying for this assignment." });
+    }
+
+    if (await isAssignmentPaid(assignmentId)) {
+      return res.status(400).json({ message: "Assignment is already paid." });
+    }
+
+    // Already priced by the rules, urgency surcharge included, when the student accepted the quote
+    const amount = assignment.tutorCharge;
+
+    const paymentData = await initializePayment(req.user.email, amount, assignmentId);
+
+    await recordInitializedPayment({
+      assignmentId,
+      payerId: studentId,
+      reference: paymentData.data.reference,
+      amount: toPesewas(amount),
+      providerPayload: paymentData.data,
+    });
 
     res.json({
       message: "Payment initialized successfully.",
       authorization_url: paymentData.data.authorization_url,
+      reference: paymentData.data.reference,
+      priceBreakdown: priceBreakdownOf(assignment),
     });
   } catch (error) {
     console.error("Error initializing payment:", error);
@@ -46,36 +87,89 @@ export const verifyPaymentForAssignment = async (req: AuthRequest, res: Response
         return res.status(400).json({ message: "Payment reference is required." });
       }
   
-      const verificationData = await verifyPayment(reference.toString());
-  
-      if (verificationData.data.status === "success") {
-        const assignmentId = verificationData.data.metadata.assignmentId;
-  
-        if (!assignmentId) {
-          return res.status(400).json({ message: "Assignment ID missing from payment verification data." });
-        }
-  
-        const assignment = await prisma.assignment.update({
-          where: { id: assignmentId },
-          data: { isPaid: true },
-          include: { Student: true },  // Include student information for email
-        });
+      const { assignment } = await settleAssignmentPayment(reference.toString());
   
-        // ✅ Send email with the download link
-        if (assignment.Student?.email && assignment.completedFileUrl) {
-          await sendEmail({
-            to: assignment.Student.email,
-            subject: "Assignment Solution Available",
-            text: `Your assignment "${assignment.title}" is now available. Please download your solution from the following link: ${process.env.BASE_URL}/api/assignments/download/${assignment.id}`,
-          });
-        }
-  
-        return res.json({ message: "Payment verified successfully!", assignment });
-      } else {
-        return res.status(400).json({ message: "Payment verification failed." });
-      }
+      return res.json({ message: "Payment verified successfully!", assignment });
     } catch (error) {
+      if (error instanceof PaymentVerificationError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error("Error verifying payment:", error);
       res.status(500).json({ message: "Something went wrong", error });
     }
   };
+
+// The parts of a Paystack webhook body this handler reads
+interface PaystackWebhookPayload {
+  event: string;
+  data?: TransferEventData & {
+    id?: number;
+    reference?: string;
+    transaction_reference?: string; // refund.* events
+    amount?: number; // In pesewas
+  };
+}
+
+// Paystack events that carry the transaction reference somewhere other than data.reference
+const eventReference = ({ event, data }: PaystackWebhookPayload): string | undefined =>
+  event.startsWith("refund.") ? data?.transaction_reference : data?.reference;
+
+// ✅ Paystack Webhook
+export const handlePaystackWebhook = async (req: Request, res: Response) => {
+  try {
+    const rawBody = req.body;
+
+    if (!Buffer.isBuffer(rawBody) || !verifyWebhookSignature(rawBody, req.headers["x-paystack-signature"])) {
+      return res.status(401).json({ message: "Invalid signature." });
+    }
+
+    const payload: PaystackWebhookPayload = JSON.parse(rawBody.toString("utf8"));
+    const { event } = payload;
+    const reference = eventReference(payload);
+    const eventKey = `${event}:${payload.data?.id ?? reference}`;
+
+    const existing = await prisma.paystackEvent.findUnique({ where: { eventKey } });
+
+    if (existing?.processedAt) {
+      return res.json({ message: "Event already processed." });
+    }
+
+    let record = existing;
+    if (!record) {
+      try {
+        record = await prisma.paystackEvent.create({
+          data: { eventKey, event, reference, payload: payload as unknown as Prisma.InputJsonObject },
+        });
+      } catch (error) {
+        // A concurrent delivery of the same event recorded it first and is handling it
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+          return res.json({ message: "Event already received." });
+        }
+        throw error;
+      }
+    }
+
+    if (reference && event === "charge.success") {
+      await settleAssignmentPayment(reference);
+    } else if (reference && event === "refund.processed") {
+      await refundAssignmentPayment(reference, payload.data?.amount);
+    } else if (reference && event.startsWith("transfer.")) {
+      await applyTransferEvent(event, reference, payload.data);
+    }
+
+    await prisma.paystackEvent.update({
+      where: { id: record.id },
+      data: { processedAt: new Date() },
+    });
+
+    res.json({ message: "Event received." });
+  } catch (error) {
+    if (error instanceof PaymentVerificationError) {
+      // Paystack retries non-2xx responses; a failed cross-check will not fix itself
+      console.warn("Paystack webhook rejected:", error.message);
+      return res.json({ message: error.message });
+    }
+    console.error("Error handling Paystack webhook:", error);
+    res.status(500).json({ message: "Something went wrong" });
+  }
+};
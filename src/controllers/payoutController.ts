@@ -0,0 +1,141 @@
+import { Request, Response } from "express";
+import { PayoutStatus } from "@prisma/client";
+import prisma from "../config/prisma";
+import { PayoutError, approvePayoutBatch, verifyPayoutTransfer } from "../services/payoutService";
+import { recordAdminAction } from "../services/adminAuditService";
+
+interface AuthRequest extends Request {
+  user?: { id: string; role: string; email: string };
+}
+
+const handlePayoutError = (error: unknown, res: Response): boolean => {
+  if (error instanceof PayoutError) {
+    res.status(error.status).json({ message: error.message });
+    return true;
+  }
+  return false;
+};
+
+/**
+ * Lists payouts for admins, optionally filtered by status
+ */
+export const getPayouts = async (req: Request, res: Response) => {
+  try {
+    const status = req.query.status?.toString().toUpperCase();
+
+    if (status && !(Object.values(PayoutStatus) as string[]).includes(status)) {
+      return res.status(400).json({ message: "Invalid payout status." });
+    }
+
+    const payouts = await prisma.payout.findMany({
+      where: status ? { status: status as PayoutStatus } : {},
+      orderBy: { createdAt: "desc" },
+      include: {
+        Tutor: { select: { id: true, firstName: true, lastName: true, email: true, momoNumber: true } },
+        Assignment: { select: { id: true, title: true } },
+      },
+    });
+
+    res.json({ payouts });
+  } catch (error) {
+    console.error("Error fetching payouts:", error);
+    res.status(500).json({ message: "Something went wrong", error });
+  }
+};
+
+/**
+ * Approves a batch of queued or failed payouts and sends them to Paystack
+ */
+export const approvePayouts = async (req: AuthRequest, res: Response) => {
+  try {
+    const { payoutIds } = req.body;
+
+    if (!Array.isArray(payoutIds) || payoutIds.length === 0) {
+      return res.status(400).json({ message: "payoutIds must be a non-empty array." });
+    }
+
+    const { batch, payouts } = await approvePayoutBatch(payoutIds, {
+      id: req.user!.id,
+      email: req.user!.email,
+    });
+
+    const failed = payouts.filter((payout) => payout.status === "FAILED").length;
+
+    await recordAdminAction(req.user!.id, {
+      action: "payout.approve",
+      targetType: "PayoutBatch",
+      targetId: batch.id,
+      details: { payoutIds: payouts.map((payout) => payout.id), failed },
+    });
+
+    res.json({
+      message: `${payouts.length - failed} payout(s) sent, ${failed} failed.`,
+      batchId: batch.id,
+      payouts,
+    });
+  } catch (error) {
+    if (handlePayoutError(error, res)) return;
+    console.error("Error approving payouts:", error);
+    res.status(500).json({ message: "Something went wrong", error });
+  }
+};
+
+/**
+ * Settles a payout left PROCESSING by an ambiguous transfer error from Paystack's record of the transfer
+ */
+export const verifyPayout = async (req: AuthRequest, res: Response) => {
+  try {
+    const payout = await verifyPayoutTransfer(req.params.payoutId);
+
+    await recordAdminAction(req.user!.id, {
+      action: "payout.verify",
+      targetType: "Payout",
+      targetId: payout.id,
+      details: { status: payout.status },
+    });
+
+    res.json({ message: `Payout is ${payout.status}.`, payout });
+  } catch (error) {
+    if (handlePayoutError(error, res)) return;
+    console.error("Error verifying payout:", error);
+    res.status(500).json({ message: "Something went wrong", error });
+  }
+};
+
+/**
+ * Shows the logged-in tutor their payouts and totals per status (amounts in pesewas)
+ */
+export const getMyEarnings = async (req: AuthRequest, res: Response) => {
+  try {
+    const tutorId = req.user?.id;
+
+    if (!tutorId) {
+      return res.status(401).json({ message: "Unauthorized." });
+    }
+
+    const payouts = await prisma.payout.findMany({
+      where: { tutorId },
+      orderBy: { createdAt: "desc" },
+      include: { Assignment: { select: { id: true, title: true, completedAt: true } } },
+    });
+
+    const totals = payouts.reduce<Record<string, number>>((acc, payout) => {
+      acc[payout.status] = (acc[payout.status] ?? 0) + payout.amount;
+      return acc;
+    }, {});
+
+    res.json({
+      currency: "GHS",
+      totals: {
+        earned: totals.SUCCESS ?? 0,
+        pending: (totals.PENDING ?? 0) + (totals.PROCESSING ?? 0),
+        failed: totals.FAILED ?? 0,
+        reversed: totals.REVERSED ?? 0,
+      },
+      payouts,
+    });
+  } catch (error) {
+    console.error("Error fetching tutor earnings:", error);
+    res.status(500).json({ message: "Something went wrong", error });
+  }
+};
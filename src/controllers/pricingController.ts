@@ -0,0 +1,171 @@
+import { Request, Response } from "express";
+import { Prisma } from "@prisma/client";
+import prisma from "../config/prisma";
+import { DEFAULT_PRICING_SPECIALTY } from "../services/pricingService";
+import { recordAdminAction } from "../services/adminAuditService";
+
+interface AuthRequest extends Request {
+  user?: { id: string; role: string; email: string };
+}
+
+const NUMERIC_FIELDS = [
+  "minPrice",
+  "maxPrice",
+  "commissionPercent",
+  "urgentWithinHours",
+  "urgencySurchargePercent",
+] as const;
+
+/**
+ * Picks and validates the numeric rule fields from a request body.
+ * Returns an error message instead when a field is invalid.
+ */
+const parseRuleFields = (body: any, partial: boolean) => {
+  const data: Partial<Record<(typeof NUMERIC_FIELDS)[number], number>> = {};
+
+  for (const field of NUMERIC_FIELDS) {
+    if (body[field] === undefined) {
+      const optional = partial || field === "urgentWithinHours" || field === "urgencySurchargePercent";
+      if (!optional) return { error: `${field} is required.` };
+      continue;
+    }
+
+    const value = Number(body[field]);
+    if (!Number.isFinite(value) || value < 0) {
+      return { error: `${field} must be a non-negative number.` };
+    }
+    data[field] = field === "urgentWithinHours" ? Math.round(value) : value;
+  }
+
+  if (data.commissionPercent !== undefined && data.commissionPercent > 100) {
+    return { error: "commissionPercent cannot exceed 100." };
+  }
+
+  return { data };
+};
+
+/**
+ * Lists all pricing rules, the "*" default rule included
+ */
+export const getPricingRules = async (req: Request, res: Response) => {
+  try {
+    const pricingRules = await prisma.pricingRule.findMany({ orderBy: { programSpecialty: "asc" } });
+    res.json({ pricingRules, defaultSpecialty: DEFAULT_PRICING_SPECIALTY });
+  } catch (error) {
+    console.error("Error fetching pricing rules:", error);
+    res.status(500).json({ message: "Something went wrong", error });
+  }
+};
+
+/**
+ * Creates the pricing rule for a program specialty
+ */
+export const createPricingRule = async (req: AuthRequest, res: Response) => {
+  try {
+    const programSpecialty = req.body.programSpecialty?.toString().trim();
+
+    if (!programSpecialty) {
+      return res.status(400).json({ message: "programSpecialty is required." });
+    }
+
+    const { data, error } = parseRuleFields(req.body, false);
+    if (error || !data) {
+      return res.status(400).json({ message: error });
+    }
+
+    if (data.minPrice! > data.maxPrice!) {
+      return res.status(400).json({ message: "minPrice cannot be greater than maxPrice." });
+    }
+
+    const pricingRule = await prisma.pricingRule.create({
+      data: {
+        programSpecialty,
+        minPrice: data.minPrice!,
+        maxPrice: data.maxPrice!,
+        commissionPercent: data.commissionPercent!,
+        urgentWithinHours: data.urgentWithinHours,
+        urgencySurchargePercent: data.urgencySurchargePercent,
+      },
+    });
+
+    await recordAdminAction(req.user!.id, {
+      action: "pricing-rule.create",
+      targetType: "PricingRule",
+      targetId: pricingRule.id,
+      details: { programSpecialty, ...data },
+    });
+
+    res.status(201).json({ message: "Pricing rule created.", pricingRule });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return res.status(409).json({ message: "A pricing rule already exists for this program specialty." });
+    }
+    console.error("Error creating pricing rule:", error);
+    res.status(500).json({ message: "Something went wrong", error });
+  }
+};
+
+/**
+ * Updates some fields of a pricing rule
+ */
+export const updatePricingRule = async (req: AuthRequest, res: Response) => {
+  try {
+    const { ruleId } = req.params;
+
+    const existing = await prisma.pricingRule.findUnique({ where: { id: ruleId } });
+    if (!existing) {
+      return res.status(404).json({ message: "Pricing rule not found." });
+    }
+
+    const { data, error } = parseRuleFields(req.body, true);
+    if (error || !data) {
+      return res.status(400).json({ message: error });
+    }
+
+    if ((data.minPrice ?? existing.minPrice) > (data.maxPrice ?? existing.maxPrice)) {
+      return res.status(400).json({ message: "minPrice cannot be greater than maxPrice." });
+    }
+
+    const pricingRule = await prisma.pricingRule.update({ where: { id: ruleId }, data });
+
+    await recordAdminAction(req.user!.id, {
+      action: "pricing-rule.update",
+      targetType: "PricingRule",
+      targetId: ruleId,
+      details: data,
+    });
+
+    res.json({ message: "Pricing rule updated.", pricingRule });
+  } catch (error) {
+    console.error("Error updating pricing rule:", error);
+    res.status(500).json({ message: "Something went wrong", error });
+  }
+};
+
+/**
+ * Deletes a pricing rule; its specialty falls back to the default rule
+ */
+export const deletePricingRule = async (req: AuthRequest, res: Response) => {
+  try {
+    const { ruleId } = req.params;
+
+    const existing = await prisma.pricingRule.findUnique({ where: { id: ruleId } });
+    if (!existing) {
+      return res.status(404).json({ message: "Pricing rule not found." });
+    }
+
+    await prisma.pricingRule.delete({ where: { id: ruleId } });
+
+    await recordAdminAction(req.user!.id, {
+      action: "pricing-rule.delete",
+      targetType: "PricingRule",
+      targetId: ruleId,
+      details: { programSpecialty: existing.programSpecialty },
+    });
+
+    res.json({ message: "Pricing rule deleted." });
+  } catch (error) {
+    console.error("Error deleting pricing rule:", error);
+    res.status(500).json({ message: "Something went wrong", error });
+  }
+};
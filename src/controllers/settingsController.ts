@@ -0,0 +1,44 @@
+import { Request, Response } from "express";
+import { recordAdminAction } from "../services/adminAuditService";
+import {
+  PlatformSettingError,
+  listPlatformSettings,
+  updatePlatformSettings,
+} from "../services/platformSettingsService";
+
+interface AuthRequest extends Request {
+  user?: { id: string; role: string; email: string };
+}
+
+/**
+ * Lists every platform setting with its current value and limits
+ */
+export const getSettings = async (req: Request, res: Response) => {
+  try {
+    res.json({ settings: await listPlatformSettings() });
+  } catch (error) {
+    console.error("Error fetching platform settings:", error);
+    res.status(500).json({ message: "Something went wrong", error });
+  }
+};
+
+/**
+ * Updates one or more platform settings, e.g. { "maxFreeRevisions": 3 }
+ */
+export const updateSettings = async (req: AuthRequest, res: Response) => {
+  try {
+    const updates = req.body && typeof req.body === "object" ? req.body : {};
+
+    const saved = await updatePlatformSettings(updates, req.user!.id);
+
+    await recordAdminAction(req.user!.id, { action: "settings.update", targetType: "PlatformSetting", details: saved });
+
+    res.json({ message: "Settings updated.", settings: await listPlatformSettings() });
+  } catch (error) {
+    if (error instanceof PlatformSettingError) {
+      return res.status(400).json({ message: error.message });
+    }
+    console.error("Error updating platform settings:", error);
+    res.status(500).json({ message: "Something went wrong", error });
+  }
+};
@@ -0,0 +1,195 @@
+import { Request, Response } from "express";
+import { MessageEmailMode } from "@prisma/client";
+import prisma from "../config/prisma";
+import { momoProvider, normalizeGhanaPhone } from "../utils/phone";
+import { publicUserSelect } from "../utils/publicUser";
+import { EMAIL_LOCALES, isEmailLocale } from "../emails";
+import {
+  getPendingSpecialtyChange,
+  getTutorSpecialties,
+  normalizeSpecialties,
+  requestSpecialtyChange,
+  setTutorSpecialties,
+} from "../services/tutorSpecialtyService";
+import { moveToSpecialtyRooms } from "../services/realtimeService";
+
+interface AuthRequest extends Request {
+  user?: { id: string; role: string; email: string };
+}
+
+// Fields any user may edit; empty values clear the optional ones
+const TEXT_FIELDS = ["firstName", "lastName", "university", "department"] as const;
+const REQUIRED_FIELDS: readonly string[] = ["firstName", "lastName"];
+
+/**
+ * Returns the logged-in user's profile
+ */
+export const getMyProfile = async (req: AuthRequest, res: Response) => {
+  try {
+    const user = await prisma.user.findUnique({ where: { id: req.user!.id }, select: publicUserSelect });
+
+    if (!user) {
+      return res.status(404).json({ message: "User not found." });
+    }
+
+    res.json({
+      user:
+        user.role === "TUTOR"
+          ? {
+              ...user,
+              specialties: await getTutorSpecialties(user.id),
+              pendingSpecialtyChange: await getPendingSpecialtyChange(user.id),
+            }
+          : user,
+    });
+  } catch (error) {
+    console.error("Error fetching profile:", error);
+    res.status(500).json({ message: "Something went wrong", error });
+  }
+};
+
+/**
+ * Updates the logged-in user's profile. An approved tutor's change of program
+ * specialties is sent to the admins for review; until then the current ones apply.
+ */
+export const updateMyProfile = async (req: AuthRequest, res: Response) => {
+  try {
+    const existing = await prisma.user.findUnique({ where: { id: req.user!.id } });
+
+    if (!existing) {
+      return res.status(404).json({ message: "User not found." });
+    }
+
+    const body = req.body ?? {};
+    const data: Record<string, string | boolean | null> = {};
+
+    for (const field of TEXT_FIELDS) {
+      if (body[field] === undefined) continue;
+
+      const value = body[field]?.toString().trim() || null;
+      if (!value && REQUIRED_FIELDS.includes(field)) {
+        return res.status(400).json({ message: `${field} cannot be empty.` });
+      }
+      data[field] = value;
+    }
+
+    if (body.phoneNumber !== undefined) {
+      const raw = body.phoneNumber?.toString().trim();
+      const phoneNumber = raw ? normalizeGhanaPhone(raw) : null;
+
+      if (raw && !phoneNumber) {
+        return res.status(400).json({ message: "phoneNumber must be a valid Ghanaian phone number." });
+      }
+      data.phoneNumber = phoneNumber;
+    }
+
+    if (body.momoNumber !== undefined) {
+      const raw = body.momoNumber?.toString().trim();
+      const momoNumber = raw ? normalizeGhanaPhone(raw) : null;
+
+      if (raw && (!momoNumber || !momoProvider(momoNumber))) {
+        return res.status(400).json({ message: "momoNumber must be an MTN, Telecel or AirtelTigo mobile money number." });
+      }
+
+      if (momoNumber !== existing.momoNumber) {
+        data.momoNumber = momoNumber;
+        // The Paystack recipient points at the old number
+        data.paystackRecipientCode = null;
+      }
+    }
+
+    if (body.messageEmails !== undefined) {
+      const messageEmails = body.messageEmails?.toString().toUpperCase();
+
+      if (!(Object.values(MessageEmailMode) as string[]).includes(messageEmails)) {
+        return res
+          .status(400)
+          .json({ message: `messageEmails must be one of ${Object.values(MessageEmailMode).join(", ")}.` });
+      }
+      data.messageEmails = messageEmails;
+    }
+
+    if (body.locale !== undefined) {
+      const locale = body.locale?.toString().trim().toLowerCase();
+
+      if (!isEmailLocale(locale)) {
+        return res.status(400).json({ message: `locale must be one of ${EMAIL_LOCALES.join(", ")}.` });
+      }
+      data.locale = locale;
+    }
+
+    if (body.smsNotifications !== undefined) {
+      if (typeof body.smsNotifications !== "boolean") {
+        return res.status(400).json({ message: "smsNotifications must be true or false." });
+      }
+      data.smsNotifications = body.smsNotifications;
+    }
+
+    let specialties: string[] | null = null;
+    let requestedSpecialty: string | null = null;
+
+    if (body.programSpecialty !== undefined || body.specialties !== undefined) {
+      if (existing.role !== "TUTOR") {
+        return res.status(400).json({ message: "Only tutors have program specialties." });
+      }
+
+      if (body.specialties !== undefined && !Array.isArray(body.specialties)) {
+        return res.status(400).json({ message: "specialties must be an array." });
+      }
+
+      const programSpecialty =
+        body.programSpecialty !== undefined ? body.programSpecialty?.toString().trim() : existing.programSpecialty;
+      if (!programSpecialty) {
+        return res.status(400).json({ message: "programSpecialty cannot be empty." });
+      }
+
+      const previousSpecialties = await getTutorSpecialties(existing.id);
+
+      // Without a new list, a changed primary specialty replaces the old one
+      const requested = body.specialties ?? previousSpecialties.filter((s) => s !== existing.programSpecialty);
+      const next = normalizeSpecialties([programSpecialty, ...requested]);
+
+      const changed =
+        programSpecialty !== existing.programSpecialty ||
+        next.length !== previousSpecialties.length ||
+        next.some((specialty) => !previousSpecialties.includes(specialty));
+
+      if (changed) {
+        requestedSpecialty = programSpecialty;
+        specialties = next;
+      }
+    }
+
+    // A tutor still waiting for approval is reviewed with whatever they list, so it applies now
+    const reviewChange = Boolean(specialties && existing.isApproved);
+
+    const applyNow = specialties && !reviewChange ? specialties : null;
+
+    if (applyNow) {
+      data.programSpecialty = requestedSpecialty;
+    }
+
+    const user = await prisma.$transaction(async (tx) => {
+      if (applyNow) {
+        await setTutorSpecialties(existing.id, applyNow, tx);
+      }
+      return tx.user.update({ where: { id: existing.id }, data, select: publicUserSelect });
+    });
+
+    if (applyNow) moveToSpecialtyRooms(existing.id, applyNow);
+
+    if (!reviewChange) {
+      return res.json({ message: "Profile updated successfully.", user });
+    }
+
+    const pendingSpecialtyChange = await requestSpecialtyChange(existing, requestedSpecialty!, specialties!);
+
+    res.json({
+      message: "Profile updated. Your new program specialties will apply once an admin approves them.",
+      user: { ...user, specialties: await getTutorSpecialties(user.id), pendingSpecialtyChange },
+    });
+  } catch (error) {
+    console.error("Error updating profile:", error);
+    res.status(500).json({ message: "Something went wrong", error });
+  }
+};
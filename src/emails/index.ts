@@ -0,0 +1,93 @@
+import en from "./locales/en";
+import {
+  EmailLocale,
+  EmailTemplate,
+  EmailTemplateName,
+  EmailTemplateVariables,
+  EmailTemplates,
+  LocaleEmails,
+} from "./types";
+
+export * from "./types";
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * Translations by locale. Other locales may leave templates out; those fall
+ * back to English. Add a locale by writing its file under ./locales and
+ * listing it here.
+ */
+const LOCALES: { en: LocaleEmails } & Partial<Record<EmailLocale, LocaleEmails<Partial<EmailTemplates>>>> = { en };
+
+export const DEFAULT_EMAIL_LOCALE: EmailLocale = "en";
+
+// Locales users can choose for their emails
+export const EMAIL_LOCALES = Object.keys(LOCALES) as EmailLocale[];
+
+/**
+ * Templates whose links carry a single-use token. The outbox never stores
+ * their bodies, so they are not retried; the user can ask for a new link.
+ */
+export const TOKEN_BEARING_EMAIL_TEMPLATES: readonly EmailTemplateName[] = [
+  "emailVerification",
+  "passwordReset",
+  "adminInvitation",
+];
+
+export const isEmailLocale = (value: unknown): value is EmailLocale =>
+  typeof value === "string" && (EMAIL_LOCALES as string[]).includes(value);
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&#39;");
+
+const htmlParagraph = (paragraph: string) =>
+  `<p style="margin:0 0 16px">${escapeHtml(paragraph).replace(/\n/g, "<br>")}</p>`;
+
+const htmlLayout = (subject: string, content: string) => `<!DOCTYPE html>
+<html>
+  <head><meta charset="utf-8"><title>${escapeHtml(subject)}</title></head>
+  <body style="margin:0;padding:24px;background:#f4f5f7;font-family:Arial,Helvetica,sans-serif;color:#1f2933">
+    <div style="max-width:560px;margin:0 auto;padding:32px;background:#ffffff;border-radius:8px;font-size:15px;line-height:1.5">
+      ${content}
+    </div>
+  </body>
+</html>`;
+
+/**
+ * Renders a named template in the given locale, falling back to English when
+ * the locale or the template has no translation. Variables are HTML-escaped in
+ * the HTML version.
+ */
+export const renderEmail = <N extends EmailTemplateName>(
+  name: N,
+  variables: EmailTemplateVariables[N],
+  locale: string = DEFAULT_EMAIL_LOCALE
+): RenderedEmail => {
+  const translation = isEmailLocale(locale) ? LOCALES[locale] : undefined;
+  const localized = translation?.templates[name] as EmailTemplate<EmailTemplateVariables[N]> | undefined;
+  const { signOff, format } = localized && translation ? translation : LOCALES.en;
+  const template = localized ?? (LOCALES.en.templates[name] as EmailTemplate<EmailTemplateVariables[N]>);
+
+  const subject = template.subject(variables);
+  const paragraphs = template.body(variables, format);
+  const action = template.action?.(variables);
+
+  const text = [...paragraphs, ...(action ? [`${action.label}: ${action.url}`] : []), signOff].join("\n\n");
+
+  const button = action
+    ? `<p style="margin:24px 0"><a href="${escapeHtml(action.url)}" style="display:inline-block;padding:12px 20px;background:#2563eb;color:#ffffff;text-decoration:none;border-radius:6px">${escapeHtml(
+        action.label
+      )}</a></p>`
+    : "";
+
+  const html = htmlLayout(
+    subject,
+    [...paragraphs.map(htmlParagraph), button, htmlParagraph(signOff)].filter(Boolean).join("\n      ")
+  );
+
+  return { subject, text, html };
+};
@@ -0,0 +1,346 @@
+import { LocaleEmails } from "../types";
+
+// English is the reference locale: every template must exist here
+const en: LocaleEmails = {
+  signOff: "Best regards,\nA+ Planner Team",
+  format: {
+    date: (date) => date.toUTCString(),
+    money: (amount) => `GHS ${amount.toFixed(2)}`,
+  },
+  templates: {
+    assignmentSubmitted: {
+      subject: () => "New Assignment Submitted",
+      body: ({ title, programSpecialty }) => [
+        "A new assignment has been submitted by a student.",
+        `Title: ${title}\nProgram Specialty: ${programSpecialty}\nStatus: Pending`,
+      ],
+    },
+    assignmentClaimed: {
+      subject: () => "Assignment Claimed by Tutor",
+      body: ({ title, assignmentId, tutorName, tutorEmail }) => [
+        `The assignment "${title}" (${assignmentId}) has been claimed by tutor ${tutorName} (${tutorEmail}).`,
+      ],
+    },
+    assignmentAssigned: {
+      subject: () => "New Assignment Assigned to You",
+      body: ({ firstName, title }) => [
+        `Dear ${firstName},`,
+        "A new assignment has been assigned to you. Please log in to your account to review and start working on it.",
+        `Assignment Title: ${title}`,
+        "Thank you for your collaboration.",
+      ],
+    },
+    assignmentAssignedAdmin: {
+      subject: () => "Assignment Assigned Notification",
+      body: ({ title, tutorName, tutorEmail }) => [
+        `An assignment has been successfully assigned to tutor ${tutorName}.`,
+        `Assignment Title: ${title}\nTutor Email: ${tutorEmail}`,
+        "Thank you for managing the assignment distribution.",
+      ],
+    },
+    assignmentOffered: {
+      subject: () => "New Assignment Offered to You",
+      body: ({ firstName, title, expiresAt }, format) => [
+        `Dear ${firstName},`,
+        `The assignment "${title}" has been offered to you. Please log in to review and price it, or reject it, before ${format.date(
+          expiresAt
+        )}. After that it will be offered to another tutor.`,
+      ],
+    },
+    autoAssignNoTutor: {
+      subject: () => "Auto-assign Found No Tutor",
+      body: ({ title, assignmentId }) => [
+        `No remaining tutor accepted the assignment "${title}" (${assignmentId}). It is now open for tutors with a matching program specialty to claim.`,
+      ],
+    },
+    quoteReceived: {
+      subject: () => "Your Assignment Has a Quote",
+      body: ({ firstName, title, price, deliveryBy, note, expiresAt }, format) => [
+        `Hello ${firstName},`,
+        `The tutor has reviewed your assignment titled "${title}" and quoted ${format.money(price)}${
+          deliveryBy ? `, with delivery by ${format.date(deliveryBy)}` : ""
+        }.`,
+        ...(note ? [`Note from the tutor: ${note}`] : []),
+        `Please log in to accept or decline the quote before ${format.date(expiresAt)}.`,
+      ],
+    },
+    quoteSubmitted: {
+      subject: () => "Tutor Quoted Assignment",
+      body: ({ title, tutorQuote, studentPrice, platformFee, urgencySurcharge }, format) => [
+        `The assignment titled "${title}" has been quoted by the tutor.\nThe tutor has quoted ${format.money(
+          tutorQuote
+        )}; the student price is ${format.money(studentPrice)} (platform fee ${format.money(
+          platformFee
+        )}, urgency surcharge ${format.money(urgencySurcharge)}).`,
+      ],
+    },
+    quoteAccepted: {
+      subject: () => "Quote Accepted",
+      body: ({ firstName, title, price, escrow }, format) => [
+        `Dear ${firstName},`,
+        `The student has accepted your quote of ${format.money(price)} for "${title}". ${
+          escrow
+            ? "We will let you know once their payment is held, so you can start working on it."
+            : "You can start working on it now."
+        }`,
+      ],
+    },
+    quoteAcceptedAdmin: {
+      subject: () => "Quote Accepted",
+      body: ({ title, assignmentId, price }, format) => [
+        `The student accepted the quote of ${format.money(price)} for "${title}" (${assignmentId}).`,
+      ],
+    },
+    escrowPaymentReceived: {
+      subject: () => "Payment Received - Start Working",
+      body: ({ firstName, title }) => [
+        `Dear ${firstName},`,
+        `The student has paid for "${title}". The payment is held until they accept your solution, so you can start working on it now.`,
+      ],
+    },
+    quoteDeclined: {
+      subject: () => "Quote Declined",
+      body: ({ firstName, price, reason, counterOffer }, format) => [
+        `Dear ${firstName},`,
+        `The student declined your quote of ${format.money(price)}.`,
+        ...(reason ? [`Reason: ${reason}`] : []),
+        counterOffer !== undefined
+          ? `They would accept ${format.money(counterOffer)}. The assignment stays with you; you can send a new quote.`
+          : "The assignment has been released to other tutors.",
+      ],
+    },
+    quoteExpired: {
+      subject: () => "Quote Expired",
+      body: ({ firstName, title, price, recipient }, format) =>
+        recipient === "STUDENT"
+          ? [
+              `Hello ${firstName},`,
+              `The quote of ${format.money(price)} for your assignment "${title}" expired before it was accepted. The assignment is open to other tutors again.`,
+            ]
+          : [
+              `Dear ${firstName},`,
+              `The student did not respond to your quote for "${title}" in time, so the assignment has been released to other tutors.`,
+            ],
+    },
+    solutionDelivered: {
+      subject: ({ revision }) => (revision !== null ? "A Revised Solution Is Available" : "Your Assignment is Completed"),
+      body: ({ title, revision, escrow, price, autoAcceptAt }, format) => [
+        revision !== null
+          ? `The tutor has uploaded a revised solution (version ${revision}) for your assignment "${title}". Log in to download the latest version.`
+          : escrow
+          ? `Your assignment "${title}" has been completed and the solution is ready to download.`
+          : `Your assignment "${title}" has been completed. To access the solution file, please proceed with the payment of ${format.money(
+              price
+            )}. Once payment is confirmed, you will be able to download the solution.`,
+        ...(autoAcceptAt
+          ? [
+              escrow
+                ? `Please review it and accept the solution to release your payment to the tutor. If you do nothing, it will be accepted automatically on ${format.date(
+                    autoAcceptAt
+                  )}.`
+                : `If it needs changes, please request a revision before ${format.date(
+                    autoAcceptAt
+                  )}. After that the solution is accepted automatically.`,
+            ]
+          : []),
+      ],
+    },
+    solutionAvailable: {
+      subject: () => "Assignment Solution Available",
+      body: ({ title }) => [`Your assignment "${title}" is now available. Please download your solution.`],
+      action: ({ downloadUrl }) => ({ label: "Download solution", url: downloadUrl }),
+    },
+    solutionAccepted: {
+      subject: () => "Solution Accepted",
+      body: ({ firstName, title, paymentReleased }) => [
+        `Dear ${firstName},`,
+        `The student has accepted your solution for "${title}".${
+          paymentReleased ? " The payment has been released to your payout balance." : ""
+        }`,
+      ],
+    },
+    solutionAutoAccepted: {
+      subject: ({ recipient }) => (recipient === "STUDENT" ? "Solution Accepted Automatically" : "Solution Accepted"),
+      body: ({ firstName, title, recipient, paymentReleased }) =>
+        recipient === "STUDENT"
+          ? [
+              `Hello ${firstName},`,
+              `The review period for your assignment "${title}" has ended, so the solution has been accepted${
+                paymentReleased ? " and your payment released to the tutor" : ""
+              }.`,
+            ]
+          : [
+              `Dear ${firstName},`,
+              `Your solution for "${title}" has been accepted.${
+                paymentReleased ? " The payment has been released to your payout balance." : ""
+              }`,
+            ],
+    },
+    revisionRequested: {
+      subject: () => "Revision Requested",
+      body: ({ firstName, title, revisionNumber, reason, attachmentCount }) => [
+        `Dear ${firstName},`,
+        `The student has requested revision ${revisionNumber} of your solution for "${title}".`,
+        `Reason: ${reason}`,
+        ...(attachmentCount ? [`They attached ${attachmentCount} file(s), which you can download from the assignment.`] : []),
+        "Please upload a revised solution.",
+      ],
+    },
+    assignmentCancelled: {
+      subject: () => "Assignment Cancelled",
+      body: ({ firstName, title, byAdmin, reason, recipient, refunded }) => [
+        recipient === "STUDENT" ? `Hello ${firstName},` : `Dear ${firstName},`,
+        `The assignment "${title}" has been cancelled${byAdmin ? " by an administrator" : ""}.`,
+        ...(reason ? [`Reason: ${reason}`] : []),
+        ...(recipient === "TUTOR" ? ["Please stop any work on it."] : []),
+        ...(recipient === "STUDENT" && refunded ? ["Any payment you made will be refunded to you."] : []),
+      ],
+    },
+    refundNeedsAttention: {
+      subject: () => "Refund Needs Attention",
+      body: ({ title, assignmentId, refunds }, format) => [
+        `The cancelled assignment "${title}" (${assignmentId}) has payments that could not be refunded through Paystack:`,
+        refunds.map((refund) => `${refund.reference}: ${format.money(refund.amount / 100)} (${refund.status})`).join("\n"),
+      ],
+    },
+    disputeOpened: {
+      subject: () => "New Assignment Dispute",
+      body: ({ title, assignmentId, reason, description, unheldPayoutStatus }) => [
+        `A student opened a dispute (${reason}) on "${title}" (${assignmentId}).`,
+        description,
+        ...(unheldPayoutStatus
+          ? [`Note: the tutor payout is already ${unheldPayoutStatus} and could not be held.`]
+          : []),
+      ],
+    },
+    disputeOpenedTutor: {
+      subject: () => "A Dispute Was Opened on Your Assignment",
+      body: ({ firstName, title }) => [
+        `Dear ${firstName},`,
+        `The student has opened a dispute on "${title}". Your payout for it is on hold until an admin reviews the case. You can log in to submit your side and any evidence.`,
+      ],
+    },
+    disputeResolved: {
+      subject: ({ recipient }) => (recipient === "STUDENT" ? "Your Dispute Has Been Resolved" : "Dispute Resolved"),
+      body: ({ firstName, title, recipient, upheld, refundAmount, requeuedPayout, note }, format) => {
+        const decision = upheld
+          ? "the tutor's work was upheld and no refund is due"
+          : `${format.money(refundAmount)} will be refunded to the student`;
+
+        return [
+          recipient === "STUDENT" ? `Hello ${firstName},` : `Dear ${firstName},`,
+          recipient === "STUDENT"
+            ? `Your dispute on "${title}" has been reviewed: ${decision}.`
+            : `The dispute on "${title}" has been reviewed: ${decision}.${
+                requeuedPayout !== null ? ` Your payout of ${format.money(requeuedPayout)} is queued again.` : ""
+              }`,
+          ...(note ? [note] : []),
+        ];
+      },
+    },
+    disputeRefundsNeedAttention: {
+      subject: () => "Refund Needs Attention",
+      body: ({ title, disputeId, refunds }, format) => [
+        `Dispute ${disputeId} on "${title}" has refunds that could not be made through Paystack:`,
+        refunds.map((refund) => `${refund.reference}: ${format.money(refund.amount / 100)} (${refund.status})`).join("\n"),
+      ],
+    },
+    deadlineAlert: {
+      subject: ({ overdue }) => (overdue ? "Assignment Overdue" : "Assignment Deadline Approaching"),
+      body: ({ firstName, title, deadline, overdue }, format) => [
+        `Dear ${firstName},`,
+        `The assignment "${title}" ${
+          overdue ? `was due on ${format.date(deadline)} and has not been completed` : `is due on ${format.date(deadline)}`
+        }. Please complete and upload the solution as soon as possible.`,
+      ],
+    },
+    deadlineAlertAdmin: {
+      subject: ({ overdue }) => (overdue ? "Assignment Overdue" : "Assignment Deadline Approaching"),
+      body: ({ title, assignmentId, deadline, overdue, status, tutorName }, format) => [
+        `The assignment "${title}" (${assignmentId}) ${
+          overdue ? `was due on ${format.date(deadline)} and has not been completed` : `is due on ${format.date(deadline)}`
+        }.\nStatus: ${status}\nTutor: ${tutorName ?? "not assigned"}`,
+      ],
+    },
+    tutorApproved: {
+      subject: () => "Your Tutor Account is Approved!",
+      body: ({ firstName }) => [
+        `Dear ${firstName},`,
+        "Congratulations! Your tutor account has been approved. You can now log in and start receiving assignments.",
+      ],
+    },
+    tutorRejected: {
+      subject: () => "Tutor Application Rejected",
+      body: ({ firstName }) => [
+        `Dear ${firstName},`,
+        "Unfortunately, your tutor application has been rejected. Please contact support for more details.",
+      ],
+    },
+    specialtyChangeRequested: {
+      subject: () => "Tutor Specialty Change Awaiting Review",
+      body: ({ tutorName, tutorEmail, current, requested }) => [
+        `Tutor ${tutorName} (${tutorEmail}) asked to change their program specialties from "${
+          current.join(", ") || "none"
+        }" to "${requested.join(", ")}".`,
+        "They keep their current specialties until you approve or reject the change.",
+      ],
+    },
+    specialtyChangeReviewed: {
+      subject: ({ approved }) => (approved ? "Your New Specialties Are Approved" : "Your Specialty Change Was Not Approved"),
+      body: ({ firstName, approved, specialties, reason }) => [
+        `Dear ${firstName},`,
+        approved
+          ? `Your program specialties are now: ${specialties.join(", ")}. You will see open jobs in them from now on.`
+          : `Your requested specialty change was not approved, so you keep your current specialties: ${specialties.join(", ")}.`,
+        ...(reason ? [`Reason: ${reason}`] : []),
+      ],
+    },
+    newMessage: {
+      subject: ({ title }) => `New Message About "${title}"`,
+      body: ({ firstName, senderName, excerpt }) => [
+        `Hello ${firstName},`,
+        `${senderName} wrote:`,
+        excerpt,
+        "Log in to reply.",
+      ],
+    },
+    messageDigest: {
+      subject: ({ messages }) => `You Have ${messages.length} Unread Message${messages.length === 1 ? "" : "s"}`,
+      body: ({ firstName, messages }) => [
+        `Hello ${firstName},`,
+        "Here are the messages you have not read yet:",
+        ...messages.map(({ title, senderName, excerpt }) => `"${title}" - ${senderName}:\n${excerpt}`),
+        "Log in to reply.",
+      ],
+    },
+    emailVerification: {
+      subject: () => "Verify your A+ Planner email address",
+      body: ({ firstName, expiresInHours }) => [
+        `Dear ${firstName},`,
+        "Please verify your email address using the link below.",
+        `The link expires in ${expiresInHours} hours.`,
+      ],
+      action: ({ verifyUrl }) => ({ label: "Verify email address", url: verifyUrl }),
+    },
+    passwordReset: {
+      subject: () => "Reset your A+ Planner password",
+      body: ({ firstName, expiresInMinutes }) => [
+        `Dear ${firstName},`,
+        "We received a request to reset your password. Use the link below to choose a new one.",
+        `The link expires in ${expiresInMinutes} minutes. If you did not ask for this, you can ignore this email.`,
+      ],
+      action: ({ resetUrl }) => ({ label: "Choose a new password", url: resetUrl }),
+    },
+    adminInvitation: {
+      subject: () => "You're invited to administer A+ Planner",
+      body: ({ inviterName, expiresAt }, format) => [
+        "Hello,",
+        `${inviterName} has invited you to become an A+ Planner admin.`,
+        `Set up your account before ${format.date(expiresAt)} using the link below.`,
+      ],
+      action: ({ acceptUrl }) => ({ label: "Set up your admin account", url: acceptUrl }),
+    },
+  },
+};
+
+export default en;
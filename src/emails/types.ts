@@ -0,0 +1,136 @@
+export type EmailLocale = "en" | "fr" | "tw";
+
+export interface RefundLine {
+  reference: string;
+  amount: number; // In pesewas
+  status: string;
+}
+
+export interface DigestMessage {
+  title: string; // Of the assignment the message is about
+  senderName: string;
+  excerpt: string;
+}
+
+/**
+ * The variables each named template is rendered with. Every locale renders
+ * the same variables, so callers never depend on the recipient's language.
+ */
+export interface EmailTemplateVariables {
+  assignmentSubmitted: { title: string; programSpecialty: string };
+  assignmentClaimed: { title: string; assignmentId: string; tutorName: string; tutorEmail: string };
+  assignmentAssigned: { firstName: string; title: string };
+  assignmentAssignedAdmin: { title: string; tutorName: string; tutorEmail: string };
+  assignmentOffered: { firstName: string; title: string; expiresAt: Date };
+  autoAssignNoTutor: { title: string; assignmentId: string };
+  quoteReceived: {
+    firstName: string;
+    title: string;
+    price: number;
+    deliveryBy: Date | null;
+    note?: string;
+    expiresAt: Date;
+  };
+  quoteSubmitted: {
+    title: string;
+    tutorQuote: number;
+    studentPrice: number;
+    platformFee: number;
+    urgencySurcharge: number;
+  };
+  quoteAccepted: { firstName: string; title: string; price: number; escrow: boolean };
+  quoteAcceptedAdmin: { title: string; assignmentId: string; price: number };
+  escrowPaymentReceived: { firstName: string; title: string };
+  quoteDeclined: { firstName: string; price: number; reason?: string; counterOffer?: number };
+  quoteExpired: { firstName: string; title: string; price: number; recipient: "STUDENT" | "TUTOR" };
+  solutionDelivered: {
+    title: string;
+    revision: number | null; // Solution version when it is a revision
+    escrow: boolean;
+    price: number;
+    autoAcceptAt: Date | null;
+  };
+  solutionAvailable: { title: string; downloadUrl: string };
+  solutionAccepted: { firstName: string; title: string; paymentReleased: boolean };
+  solutionAutoAccepted: { firstName: string; title: string; recipient: "STUDENT" | "TUTOR"; paymentReleased: boolean };
+  revisionRequested: {
+    firstName: string;
+    title: string;
+    revisionNumber: number;
+    reason: string;
+    attachmentCount: number;
+  };
+  assignmentCancelled: {
+    firstName: string;
+    title: string;
+    byAdmin: boolean;
+    reason?: string;
+    recipient: "STUDENT" | "TUTOR";
+    refunded: boolean;
+  };
+  refundNeedsAttention: { title: string; assignmentId: string; refunds: RefundLine[] };
+  disputeOpened: {
+    title: string;
+    assignmentId: string;
+    reason: string;
+    description: string;
+    unheldPayoutStatus: string | null; // Set when the payout had already gone too far to hold
+  };
+  disputeOpenedTutor: { firstName: string; title: string };
+  disputeResolved: {
+    firstName: string;
+    title: string;
+    recipient: "STUDENT" | "TUTOR";
+    upheld: boolean;
+    refundAmount: number; // In GHS
+    requeuedPayout: number | null; // In GHS, when the tutor's payout is queued again
+    note?: string | null;
+  };
+  disputeRefundsNeedAttention: { title: string; disputeId: string; refunds: RefundLine[] };
+  deadlineAlert: { firstName: string; title: string; deadline: Date; overdue: boolean };
+  deadlineAlertAdmin: {
+    title: string;
+    assignmentId: string;
+    deadline: Date;
+    overdue: boolean;
+    status: string;
+    tutorName: string | null;
+  };
+  newMessage: { firstName: string; title: string; senderName: string; excerpt: string };
+  messageDigest: { firstName: string; messages: DigestMessage[] };
+  emailVerification: { firstName: string; verifyUrl: string; expiresInHours: number };
+  passwordReset: { firstName: string; resetUrl: string; expiresInMinutes: number };
+  adminInvitation: { inviterName: string; acceptUrl: string; expiresAt: Date };
+  tutorApproved: { firstName: string };
+  tutorRejected: { firstName: string };
+  specialtyChangeRequested: { tutorName: string; tutorEmail: string; current: string[]; requested: string[] };
+  specialtyChangeReviewed: { firstName: string; approved: boolean; specialties: string[]; reason?: string };
+}
+
+export type EmailTemplateName = keyof EmailTemplateVariables;
+
+export interface EmailFormatters {
+  date: (date: Date) => string;
+  money: (amount: number) => string; // Amount in GHS
+}
+
+export interface EmailTemplate<V> {
+  subject: (variables: V) => string;
+  // Paragraphs of the body; line breaks inside a paragraph are kept
+  body: (variables: V, format: EmailFormatters) => string[];
+  // Rendered as a button in HTML and as a plain link in text
+  action?: (variables: V) => { label: string; url: string } | undefined;
+}
+
+export type EmailTemplates = { [N in EmailTemplateName]: EmailTemplate<EmailTemplateVariables[N]> };
+
+export interface LocaleEmails<T = EmailTemplates> {
+  signOff: string;
+  format: EmailFormatters;
+  templates: T;
+}
+
+// A template name with its variables, e.g. for a notification's email
+export type TemplatedEmail = {
+  [N in EmailTemplateName]: { template: N; variables: EmailTemplateVariables[N] };
+}[EmailTemplateName];
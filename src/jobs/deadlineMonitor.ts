@@ -0,0 +1,89 @@
+import prisma from "../config/prisma";
+import { sendTemplatedEmail } from "../utils/emailService";
+import { positiveNumberFromEnv } from "../utils/env";
+import { OPEN_ASSIGNMENT_STATUSES } from "../services/assignmentStatusService";
+
+/**
+ * The deadline that matters: the earlier of the student's due date and the
+ * delivery date the tutor committed to.
+ */
+export const effectiveDeadline = (assignment: { dueAt: Date | null; deliveryBy: Date | null }) => {
+  const dates = [assignment.dueAt, assignment.deliveryBy].filter((date): date is Date => date !== null);
+  return dates.length ? new Date(Math.min(...dates.map((date) => date.getTime()))) : null;
+};
+
+/**
+ * Emails the assigned tutor and the admin about every active assignment that
+ * is due within AT_RISK_WINDOW_HOURS or already overdue. Each alert is sent
+ * once per assignment.
+ */
+export const checkAssignmentDeadlines = async (now: Date = new Date()) => {
+  const windowEnd = new Date(now.getTime() + positiveNumberFromEnv("AT_RISK_WINDOW_HOURS", 24) * 3_600_000);
+
+  const assignments = await prisma.assignment.findMany({
+    where: {
+      status: { in: OPEN_ASSIGNMENT_STATUSES },
+      overdueNotifiedAt: null,
+      OR: [{ dueAt: { lte: windowEnd } }, { deliveryBy: { lte: windowEnd } }],
+    },
+    include: { Tutor: true },
+  });
+
+  let notified = 0;
+
+  for (const assignment of assignments) {
+    const deadline = effectiveDeadline(assignment);
+    if (!deadline) continue;
+
+    const overdue = deadline <= now;
+    if (!overdue && assignment.atRiskNotifiedAt) continue;
+
+    // Claim the alert first so overlapping runs do not send it twice
+    const { count } = await prisma.assignment.updateMany({
+      where: overdue
+        ? { id: assignment.id, overdueNotifiedAt: null }
+        : { id: assignment.id, atRiskNotifiedAt: null },
+      data: overdue ? { overdueNotifiedAt: now } : { atRiskNotifiedAt: now },
+    });
+    if (count === 0) continue;
+
+    if (assignment.Tutor?.email) {
+      await sendTemplatedEmail({
+        to: assignment.Tutor.email,
+        locale: assignment.Tutor.locale,
+        template: "deadlineAlert",
+        variables: { firstName: assignment.Tutor.firstName, title: assignment.title, deadline, overdue },
+      });
+    }
+
+    await sendTemplatedEmail({
+      to: process.env.ADMIN_EMAIL!,
+      template: "deadlineAlertAdmin",
+      variables: {
+        title: assignment.title,
+        assignmentId: assignment.id,
+        deadline,
+        overdue,
+        status: assignment.status,
+        tutorName: assignment.Tutor ? `${assignment.Tutor.firstName} ${assignment.Tutor.lastName}` : null,
+      },
+    });
+
+    notified++;
+  }
+
+  return notified;
+};
+
+/**
+ * Runs the deadline check every DEADLINE_CHECK_INTERVAL_MINUTES (default 30).
+ */
+export const startDeadlineMonitor = () => {
+  const intervalMs = positiveNumberFromEnv("DEADLINE_CHECK_INTERVAL_MINUTES", 30) * 60_000;
+
+  const run = () =>
+    checkAssignmentDeadlines().catch((error) => console.error("Error checking assignment deadlines:", error));
+
+  run();
+  return setInterval(run, intervalMs);
+};
@@ -0,0 +1,14 @@
+import { positiveNumberFromEnv } from "../utils/env";
+import { processEmailOutbox } from "../services/emailOutboxService";
+
+/**
+ * Retries undelivered outbox emails every EMAIL_OUTBOX_INTERVAL_MINUTES (default 1).
+ */
+export const startEmailOutboxMonitor = () => {
+  const intervalMs = positiveNumberFromEnv("EMAIL_OUTBOX_INTERVAL_MINUTES", 1) * 60_000;
+
+  const run = () => processEmailOutbox().catch((error) => console.error("Error processing email outbox:", error));
+
+  run();
+  return setInterval(run, intervalMs);
+};
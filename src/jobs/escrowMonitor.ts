@@ -0,0 +1,45 @@
+import { sendTemplatedEmail } from "../utils/emailService";
+import { positiveNumberFromEnv } from "../utils/env";
+import { autoAcceptDeliveredSolutions } from "../services/escrowService";
+
+/**
+ * Accepts solutions the student did not review within ESCROW_AUTO_ACCEPT_HOURS,
+ * releasing any payment to the tutor.
+ */
+export const checkEscrowAutoAccept = async (now: Date = new Date()) => {
+  const accepted = await autoAcceptDeliveredSolutions(now);
+
+  for (const { assignment, payout } of accepted) {
+    const acceptance = { title: assignment.title, paymentReleased: Boolean(payout) };
+
+    await sendTemplatedEmail({
+      to: assignment.Student.email,
+      locale: assignment.Student.locale,
+      template: "solutionAutoAccepted",
+      variables: { ...acceptance, firstName: assignment.Student.firstName, recipient: "STUDENT" },
+    });
+
+    if (assignment.Tutor) {
+      await sendTemplatedEmail({
+        to: assignment.Tutor.email,
+        locale: assignment.Tutor.locale,
+        template: "solutionAutoAccepted",
+        variables: { ...acceptance, firstName: assignment.Tutor.firstName, recipient: "TUTOR" },
+      });
+    }
+  }
+
+  return accepted.length;
+};
+
+/**
+ * Runs the escrow auto-accept check every ESCROW_CHECK_INTERVAL_MINUTES (default 30).
+ */
+export const startEscrowMonitor = () => {
+  const intervalMs = positiveNumberFromEnv("ESCROW_CHECK_INTERVAL_MINUTES", 30) * 60_000;
+
+  const run = () => checkEscrowAutoAccept().catch((error) => console.error("Error auto-accepting solutions:", error));
+
+  run();
+  return setInterval(run, intervalMs);
+};
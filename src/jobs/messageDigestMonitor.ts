@@ -0,0 +1,15 @@
+import { positiveNumberFromEnv } from "../utils/env";
+import { sendMessageDigests } from "../services/messageService";
+
+/**
+ * Sends the unread-message digest to users in digest mode every
+ * MESSAGE_DIGEST_INTERVAL_MINUTES (default 60).
+ */
+export const startMessageDigestMonitor = () => {
+  const intervalMs = positiveNumberFromEnv("MESSAGE_DIGEST_INTERVAL_MINUTES", 60) * 60_000;
+
+  const run = () => sendMessageDigests().catch((error) => console.error("Error sending message digests:", error));
+
+  run();
+  return setInterval(run, intervalMs);
+};
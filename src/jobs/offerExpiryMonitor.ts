@@ -0,0 +1,15 @@
+import { positiveNumberFromEnv } from "../utils/env";
+import { expireAssignmentOffers } from "../services/assignmentOfferService";
+
+/**
+ * Expires unanswered auto-assign offers every OFFER_CHECK_INTERVAL_MINUTES (default 5).
+ */
+export const startOfferExpiryMonitor = () => {
+  const intervalMs = positiveNumberFromEnv("OFFER_CHECK_INTERVAL_MINUTES", 5) * 60_000;
+
+  const run = () =>
+    expireAssignmentOffers().catch((error) => console.error("Error expiring assignment offers:", error));
+
+  run();
+  return setInterval(run, intervalMs);
+};
@@ -0,0 +1,43 @@
+import { sendTemplatedEmail } from "../utils/emailService";
+import { positiveNumberFromEnv } from "../utils/env";
+import { expireQuotes } from "../services/quoteService";
+
+/**
+ * Expires unanswered quotes and tells the student and tutor that the job is
+ * back in the marketplace.
+ */
+export const checkQuoteExpiry = async (now: Date = new Date()) => {
+  const expired = await expireQuotes(now);
+
+  for (const { quote, assignment } of expired) {
+    const expiry = { title: assignment.title, price: quote.tutorCharge };
+
+    await sendTemplatedEmail({
+      to: assignment.Student.email,
+      locale: assignment.Student.locale,
+      template: "quoteExpired",
+      variables: { ...expiry, firstName: assignment.Student.firstName, recipient: "STUDENT" },
+    });
+
+    await sendTemplatedEmail({
+      to: quote.Tutor.email,
+      locale: quote.Tutor.locale,
+      template: "quoteExpired",
+      variables: { ...expiry, firstName: quote.Tutor.firstName, recipient: "TUTOR" },
+    });
+  }
+
+  return expired.length;
+};
+
+/**
+ * Runs the quote expiry check every QUOTE_CHECK_INTERVAL_MINUTES (default 15).
+ */
+export const startQuoteExpiryMonitor = () => {
+  const intervalMs = positiveNumberFromEnv("QUOTE_CHECK_INTERVAL_MINUTES", 15) * 60_000;
+
+  const run = () => checkQuoteExpiry().catch((error) => console.error("Error expiring quotes:", error));
+
+  run();
+  return setInterval(run, intervalMs);
+};
@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
+import { isSessionActive } from "../services/sessionService";
 
 interface AuthRequest extends Request {
   user?: any;
@@ -8,7 +9,6 @@ interface AuthRequest extends Request {
 const authMiddleware = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
   try {
     const token = req.cookies?.token;
-    console.log("Received Token from Cookies:", token);
 
     if (!token) {
       res.status(401).json({ message: "Access Denied. No token provided." });
@@ -16,13 +16,18 @@ const authMiddleware = async (req: AuthRequest, res: Response, next: NextFunctio
     }
 
     const decoded = jwt.verify(token, process.env.JWT_SECRET!) as any;
-    console.log("Decoded Token:", decoded);
 
     if (!decoded.email) {
       res.status(400).json({ message: "Email is missing from token." });
       return;
     }
 
+    // Tokens from before sessions existed carry no sid and are rejected too
+    if (!decoded.sid || !(await isSessionActive(decoded.sid))) {
+      res.status(401).json({ message: "Session has been revoked. Please log in again." });
+      return;
+    }
+
     req.user = decoded;
     next();
   } catch (error) {
@@ -1,7 +1,34 @@
 import express, { Request, Response, NextFunction } from "express";
-import { approveTutor, getPendingTutors, deleteTutor, getTutorById, getStudentById } from "../controllers/adminController";
+import {
+  approveTutor,
+  getPendingTutors,
+  rejectTutor,
+  getTutorById,
+  getStudentById,
+  revokeUserSessions,
+  inviteAdminUser,
+  acceptInvitation,
+  getAdminAuditLog,
+  getSpecialtyChanges,
+  reviewTutorSpecialtyChange,
+} from "../controllers/adminController";
 import authMiddleware, { roleMiddleware } from "../middleware/authMiddleware";
 import { adminLogin } from "../controllers/authController";
+import { getPayouts, approvePayouts, verifyPayout } from "../controllers/payoutController";
+import { getSuggestedTutors, autoAssignAssignment } from "../controllers/matchingController";
+import {
+  getPricingRules,
+  createPricingRule,
+  updatePricingRule,
+  deletePricingRule,
+} from "../controllers/pricingController";
+import { getSettings, updateSettings } from "../controllers/settingsController";
+import {
+  getDisputes,
+  getDisputeById,
+  resolveAssignmentDispute,
+  retryFailedDisputeRefunds,
+} from "../controllers/disputeController";
 import prisma from "../config/prisma";
 
 
@@ -233,22 +260,63 @@ router.get("/students", authMiddleware, roleMiddleware(["ADMIN"]), async (req, r
   }
 });
 
+/**
+ * @swagger
+ * /api/admin/reject-tutor/{tutorId}:
+ *   put:
+ *     summary: Reject a tutor application
+ *     description: Keeps the account but stops it signing in, and records the rejection in the tutor's notifications. Approving the tutor later reverses it.
+ *     tags: [Admin]
+ *     parameters:
+ *       - in: path
+ *         name: tutorId
+ *         required: true
+ *         description: ID of the tutor to reject
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Tutor application rejected
+ *       400:
+ *         description: Tutor application already rejected
+ *       404:
+ *         description: Tutor not found
+ *       500:
+ *         description: Internal server error
+ */
+router.put(
+  "/reject-tutor/:tutorId",
+  authMiddleware,
+  roleMiddleware(["ADMIN"]),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await rejectTutor(req, res);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 /**
  * @swagger
  * /api/admin/delete-tutor/{tutorId}:
  *   delete:
- *     summary: Reject and delete a tutor application
+ *     summary: Reject a tutor application
+ *     description: Kept for older clients; same as PUT /api/admin/reject-tutor/{tutorId}. The account is no longer deleted.
+ *     deprecated: true
  *     tags: [Admin]
  *     parameters:
  *       - in: path
  *         name: tutorId
  *         required: true
- *         description: ID of the tutor to delete
+ *         description: ID of the tutor to reject
  *         schema:
  *           type: string
  *     responses:
  *       200:
  *         description: Tutor application rejected
+ *       400:
+ *         description: Tutor application already rejected
  *       404:
  *         description: Tutor not found
  *       500:
@@ -260,11 +328,764 @@ router.delete(
   roleMiddleware(["ADMIN"]),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      await deleteTutor(req, res);
+      await rejectTutor(req, res);
     } catch (error) {
       next(error);
     }
   }
 );
 
-export default router;
\ No newline at end of file
+/**
+ * @swagger
+ * /api/admin/specialty-changes:
+ *   get:
+ *     summary: List tutors' program specialty changes waiting for review
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Pending changes, oldest first, with each tutor's current specialties
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/specialty-changes", authMiddleware, roleMiddleware(["ADMIN"]), async (req, res, next) => {
+  try {
+    await getSpecialtyChanges(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/specialty-changes/{requestId}/review:
+ *   post:
+ *     summary: Approve or reject a tutor's program specialty change
+ *     description: An approval replaces the tutor's specialties. A rejection leaves the tutor's account, approval and current specialties unchanged. The tutor is emailed either way.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: requestId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [approve]
+ *             properties:
+ *               approve:
+ *                 type: boolean
+ *               reason:
+ *                 type: string
+ *                 description: Shown to the tutor
+ *     responses:
+ *       200:
+ *         description: Change approved or rejected
+ *       400:
+ *         description: approve is missing
+ *       404:
+ *         description: Change not found or already reviewed
+ *       500:
+ *         description: Internal server error
+ */
+router.post("/specialty-changes/:requestId/review", authMiddleware, roleMiddleware(["ADMIN"]), async (req, res, next) => {
+  try {
+    await reviewTutorSpecialtyChange(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/users/{userId}/revoke-sessions:
+ *   post:
+ *     summary: Revoke every session of a user
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Sessions revoked
+ *       404:
+ *         description: User not found
+ *       500:
+ *         description: Internal server error
+ */
+router.post("/users/:userId/revoke-sessions", authMiddleware, roleMiddleware(["ADMIN"]), async (req, res, next) => {
+  try {
+    await revokeUserSessions(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/payouts:
+ *   get:
+ *     summary: List tutor payouts
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, PROCESSING, SUCCESS, FAILED, REVERSED, HELD, CANCELLED]
+ *     responses:
+ *       200:
+ *         description: List of payouts, amounts in pesewas
+ *       400:
+ *         description: Invalid payout status
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/payouts", authMiddleware, roleMiddleware(["ADMIN"]), async (req, res, next) => {
+  try {
+    await getPayouts(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/payouts/approve:
+ *   post:
+ *     summary: Approve a batch of pending or failed payouts and transfer them to the tutors' MoMo wallets
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               payoutIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Batch processed; each payout carries its own status. A payout whose transfer may or may not have reached Paystack stays PROCESSING until the webhook or a verify settles it.
+ *       400:
+ *         description: payoutIds missing
+ *       409:
+ *         description: None of the payouts is pending or failed
+ *       500:
+ *         description: Internal server error
+ */
+router.post("/payouts/approve", authMiddleware, roleMiddleware(["ADMIN"]), async (req, res, next) => {
+  try {
+    await approvePayouts(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/payouts/{payoutId}/verify:
+ *   post:
+ *     summary: Check a PROCESSING payout's transfer with Paystack and apply its outcome
+ *     description: For transfers whose initiation timed out or hit a Paystack server error. A transfer Paystack never received is marked FAILED so it can be approved again with the same reference.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: payoutId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The payout with its settled status
+ *       404:
+ *         description: Payout not found
+ *       409:
+ *         description: Payout is not PROCESSING
+ *       500:
+ *         description: Internal server error
+ */
+router.post("/payouts/:payoutId/verify", authMiddleware, roleMiddleware(["ADMIN"]), async (req, res, next) => {
+  try {
+    await verifyPayout(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/pricing-rules:
+ *   get:
+ *     summary: List pricing rules
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: List of pricing rules
+ *       500:
+ *         description: Internal server error
+ *   post:
+ *     summary: Create the pricing rule for a program specialty
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               programSpecialty:
+ *                 type: string
+ *                 description: Specialty the rule applies to, or "*" for the default rule
+ *               minPrice:
+ *                 type: number
+ *               maxPrice:
+ *                 type: number
+ *               commissionPercent:
+ *                 type: number
+ *               urgentWithinHours:
+ *                 type: integer
+ *                 description: Deadlines closer than this many hours are urgent
+ *               urgencySurchargePercent:
+ *                 type: number
+ *     responses:
+ *       201:
+ *         description: Pricing rule created
+ *       400:
+ *         description: Invalid rule
+ *       409:
+ *         description: A rule already exists for this specialty
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/pricing-rules", authMiddleware, roleMiddleware(["ADMIN"]), async (req, res, next) => {
+  try {
+    await getPricingRules(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post("/pricing-rules", authMiddleware, roleMiddleware(["ADMIN"]), async (req, res, next) => {
+  try {
+    await createPricingRule(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/pricing-rules/{ruleId}:
+ *   put:
+ *     summary: Update a pricing rule
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: ruleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               programSpecialty:
+ *                 type: string
+ *                 description: Specialty the rule applies to, or "*" for the default rule
+ *               minPrice:
+ *                 type: number
+ *               maxPrice:
+ *                 type: number
+ *               commissionPercent:
+ *                 type: number
+ *               urgentWithinHours:
+ *                 type: integer
+ *                 description: Deadlines closer than this many hours are urgent
+ *               urgencySurchargePercent:
+ *                 type: number
+ *     responses:
+ *       200:
+ *         description: Pricing rule updated
+ *       400:
+ *         description: Invalid rule
+ *       404:
+ *         description: Pricing rule not found
+ *       500:
+ *         description: Internal server error
+ *   delete:
+ *     summary: Delete a pricing rule
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: ruleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Pricing rule deleted
+ *       404:
+ *         description: Pricing rule not found
+ *       500:
+ *         description: Internal server error
+ */
+router.put("/pricing-rules/:ruleId", authMiddleware, roleMiddleware(["ADMIN"]), async (req, res, next) => {
+  try {
+    await updatePricingRule(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.delete("/pricing-rules/:ruleId", authMiddleware, roleMiddleware(["ADMIN"]), async (req, res, next) => {
+  try {
+    await deletePricingRule(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/invitations:
+ *   post:
+ *     summary: Invite a new admin by email
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               email:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Invitation sent
+ *       400:
+ *         description: Email missing
+ *       409:
+ *         description: A user with this email already exists
+ *       500:
+ *         description: Internal server error
+ */
+router.post("/invitations", authMiddleware, roleMiddleware(["ADMIN"]), async (req, res, next) => {
+  try {
+    await inviteAdminUser(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/invitations/accept:
+ *   post:
+ *     summary: Create an admin account from an invitation
+ *     tags: [Admin]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               token:
+ *                 type: string
+ *               firstName:
+ *                 type: string
+ *               lastName:
+ *                 type: string
+ *               password:
+ *                 type: string
+ *                 minLength: 8
+ *     responses:
+ *       201:
+ *         description: Admin account created
+ *       400:
+ *         description: Missing fields, a password shorter than 8 characters, or the invitation is invalid or expired
+ *       409:
+ *         description: A user with this email already exists
+ *       500:
+ *         description: Internal server error
+ */
+router.post("/invitations/accept", async (req, res, next) => {
+  try {
+    await acceptInvitation(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/audit-log:
+ *   get:
+ *     summary: List actions taken by admins
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: adminId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: action
+ *         schema:
+ *           type: string
+ *           example: payout.approve
+ *       - in: query
+ *         name: targetType
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: targetId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: Audit log entries, newest first
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/audit-log", authMiddleware, roleMiddleware(["ADMIN"]), async (req, res, next) => {
+  try {
+    await getAdminAuditLog(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/assignments/{assignmentId}/suggested-tutors:
+ *   get:
+ *     summary: Rank approved tutors for an assignment
+ *     description: Scores tutors on specialty match, current in-progress load, average completion time, rejection rate and student rating.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: assignmentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *           maximum: 50
+ *       - in: query
+ *         name: specialtyOnly
+ *         schema:
+ *           type: boolean
+ *         description: Only tutors holding the assignment's specialty
+ *     responses:
+ *       200:
+ *         description: Tutors best first, with the signals behind each score and any auto-assign offers so far
+ *       404:
+ *         description: Assignment not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/assignments/:assignmentId/suggested-tutors", authMiddleware, roleMiddleware(["ADMIN"]), async (req, res, next) => {
+  try {
+    await getSuggestedTutors(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/assignments/{assignmentId}/auto-assign:
+ *   post:
+ *     summary: Offer an assignment to the top-ranked tutors one at a time
+ *     description: The first tutor with a matching specialty gets the job; on rejection or after OFFER_TTL_HOURS (default 12) it moves to the next. When nobody is left the job is opened to all matching tutors. Assigning or opening the job by hand stops auto-assign.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: assignmentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: First offer made, or the job was opened because no tutor matched
+ *       404:
+ *         description: Assignment not found
+ *       409:
+ *         description: Already auto-assigning, or the assignment is not pending, rejected or unclaimed
+ *       500:
+ *         description: Internal server error
+ */
+router.post("/assignments/:assignmentId/auto-assign", authMiddleware, roleMiddleware(["ADMIN"]), async (req, res, next) => {
+  try {
+    await autoAssignAssignment(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/settings:
+ *   get:
+ *     summary: List platform settings with their current values
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Settings with their description, limits, value and last change
+ *       500:
+ *         description: Internal server error
+ *   put:
+ *     summary: Update platform settings
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               maxFreeRevisions:
+ *                 type: integer
+ *                 description: Revisions a student can request per assignment (default 2)
+ *     responses:
+ *       200:
+ *         description: Settings updated
+ *       400:
+ *         description: Unknown setting or invalid value
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/settings", authMiddleware, roleMiddleware(["ADMIN"]), async (req, res, next) => {
+  try {
+    await getSettings(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.put("/settings", authMiddleware, roleMiddleware(["ADMIN"]), async (req, res, next) => {
+  try {
+    await updateSettings(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/disputes:
+ *   get:
+ *     summary: List disputes for review
+ *     tags: [Disputes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [OPEN, REFUNDING, REFUND_FAILED, RESOLVED, ALL]
+ *           default: OPEN
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: Disputes (open ones oldest first) and the total count
+ *       400:
+ *         description: Invalid status
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/disputes", authMiddleware, roleMiddleware(["ADMIN"]), async (req, res, next) => {
+  try {
+    await getDisputes(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/disputes/{disputeId}:
+ *   get:
+ *     summary: Get a dispute with its evidence, payments and payout
+ *     tags: [Disputes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: disputeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Dispute details
+ *       404:
+ *         description: Dispute not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/disputes/:disputeId", authMiddleware, roleMiddleware(["ADMIN"]), async (req, res, next) => {
+  try {
+    await getDisputeById(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/disputes/{disputeId}/resolve:
+ *   post:
+ *     summary: Resolve a dispute
+ *     description: FULL_REFUND refunds everything still refundable and cancels the held payout. PARTIAL_REFUND refunds refundAmount and takes it out of the tutor's payout. TUTOR_UPHELD releases the payout unchanged. Refunds are made through Paystack, and the dispute is only resolved, and the payout only released, once they have all gone out. If Paystack rejects one the decision is kept, the dispute moves to REFUND_FAILED and the refunds can be retried.
+ *     tags: [Disputes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: disputeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               outcome:
+ *                 type: string
+ *                 enum: [FULL_REFUND, PARTIAL_REFUND, TUTOR_UPHELD]
+ *               refundAmount:
+ *                 type: number
+ *                 description: Amount in GHS, for PARTIAL_REFUND
+ *               note:
+ *                 type: string
+ *                 description: Explanation sent to the student and tutor
+ *     responses:
+ *       200:
+ *         description: Dispute resolved, with the refunds requested and the payout's new state
+ *       400:
+ *         description: Invalid outcome or refund amount
+ *       404:
+ *         description: Dispute not found
+ *       409:
+ *         description: Dispute already resolved
+ *       502:
+ *         description: Decision recorded but some refunds failed; the dispute is REFUND_FAILED
+ *       500:
+ *         description: Internal server error
+ */
+router.post("/disputes/:disputeId/resolve", authMiddleware, roleMiddleware(["ADMIN"]), async (req, res, next) => {
+  try {
+    await resolveAssignmentDispute(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/disputes/{disputeId}/retry-refunds:
+ *   post:
+ *     summary: Retry the refunds of a REFUND_FAILED or stuck REFUNDING dispute
+ *     description: Requests the refunds Paystack rejected again, or the rest of the refund of a dispute left REFUNDING for over 15 minutes by a request that died. Once they all go out the dispute is resolved and the held payout released as decided.
+ *     tags: [Disputes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: disputeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Dispute resolved, with the refunds requested and the payout's new state
+ *       404:
+ *         description: Dispute not found
+ *       409:
+ *         description: Dispute has no failed refunds, or its refunds are still being made
+ *       502:
+ *         description: Some refunds failed again
+ *       500:
+ *         description: Internal server error
+ */
+router.post("/disputes/:disputeId/retry-refunds", authMiddleware, roleMiddleware(["ADMIN"]), async (req, res, next) => {
+  try {
+    await retryFailedDisputeRefunds(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -11,13 +11,33 @@ import {
   downloadAssignment, 
   downloadSolutionFile,
   assignAssignmentToTutor,
+  assignAssignment,
+  claimAssignment,
+  rateAssignment,
   reviewAndSetPrice,
+  acceptAssignmentQuote,
+  declineAssignmentQuote,
+  getAssignmentQuotes,
+  acceptAssignmentSolution,
+  cancelAssignment,
+  requestAssignmentRevision,
+  getRevisionRequests,
   markAssignmentAsPaid,
-  rejectAssignment
+  rejectAssignment,
+  getAssignmentHistory,
+  getSolutionFiles
 } from "../controllers/assignmentController";
+import { createFileDownloadLink } from "../controllers/fileController";
+import {
+  openAssignmentDispute,
+  submitDisputeEvidence,
+  getAssignmentDisputes,
+} from "../controllers/disputeController";
+import { getAssignmentMessages, postAssignmentMessage } from "../controllers/messageController";
 import upload from "../middleware/upload";
 import authMiddleware, { roleMiddleware } from "../middleware/authMiddleware";
 import prisma from "../config/prisma";
+import { parseAssignmentStatus } from "../services/assignmentStatusService";
 
 
 const router = express.Router();
@@ -43,20 +63,694 @@ const router = express.Router();
  *                 type: string
  *               programSpecialty:
  *                 type: string
+ *               dueAt:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Optional deadline; close deadlines add an urgency surcharge
+ *               paymentMode:
+ *                 type: string
+ *                 enum: [PAY_ON_DELIVERY, ESCROW]
+ *                 description: With ESCROW the student pays the accepted quote up front and the payment is held until they accept the solution
  *               file:
  *                 type: string
- *                 format: binary
+ *                 format: binary
+ *     responses:
+ *       201:
+ *         description: Assignment submitted successfully!
+ *       400:
+ *         description: Missing fields or file
+ *       500:
+ *         description: Server error
+ */
+router.post("/submit", authMiddleware, upload.single("file"), async (req, res, next) => {
+  try {
+    await submitAssignment(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/assignments/pending:
+ *   get:
+ *     summary: Get all pending assignments (Admin)
+ *     tags: [Assignments]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: List of pending assignments
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/pending", authMiddleware, roleMiddleware(["ADMIN"]), async (req, res, next) => {
+    try {
+      await getPendingAssignments(req, res);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+ * @swagger
+ * /api/assignments/mark-paid/{assignmentId}:
+ *   put:
+ *     summary: Record a payment received outside Paystack (Admin only)
+ *     tags: [Assignments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: assignmentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the assignment
+ *     responses:
+ *       200:
+ *         description: Assignment marked as paid successfully
+ *       400:
+ *         description: Already paid, not priced yet or cancelled
+ *       404:
+ *         description: Assignment not found
+ *       500:
+ *         description: Internal server error
+ */
+router.put("/mark-paid/:assignmentId", authMiddleware, roleMiddleware(["ADMIN"]), async (req, res, next) => {
+    try {
+      await markAssignmentAsPaid(req, res);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+ * @swagger
+ * /api/assignments/tutor-pending:
+ *   get:
+ *     summary: Get open jobs in the logged-in tutor's specialties
+ *     description: Assignments in ASSIGNED status that are unclaimed or assigned to this tutor, soonest deadline first.
+ *     tags: [Assignments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: pageSize
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: A page of open jobs with the total count
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/tutor-pending", authMiddleware, roleMiddleware(["TUTOR"]), async (req, res, next) => {
+    try {
+      await getTutorPendingAssignments(req, res);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+/**
+ * @swagger
+ * /api/assignments:
+ *   get:
+ *     summary: Get all assignments with optional status filter
+ *     tags: [Assignments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *         description: Filter assignments by status (PENDING, ASSIGNED, QUOTED, AWAITING_PAYMENT, IN_PROGRESS, COMPLETED, REVISION_REQUESTED, ACCEPTED, REJECTED, CANCELLED)
+ *       - in: query
+ *         name: dueBefore
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only assignments due on or before this date
+ *       - in: query
+ *         name: dueAfter
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only assignments due on or after this date
+ *       - in: query
+ *         name: overdue
+ *         schema:
+ *           type: boolean
+ *         description: Only unfinished assignments past their due date or the tutor's delivery date
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [dueAt, deliveryBy]
+ *         description: Sort by deadline (assignments without one come last); newest first by default
+ *       - in: query
+ *         name: order
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *     responses:
+ *       200:
+ *         description: List of assignments
+ *       400:
+ *         description: Invalid filter
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/", authMiddleware, roleMiddleware(["ADMIN"]), async (req, res, next) => {
+  try {
+    await getAllAssignments(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/assignments/assign/{assignmentId}:
+ *   put:
+ *     summary: Assign an assignment to a tutor
+ *     tags: [Assignments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: assignmentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the assignment
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               tutorId:
+ *                 type: string
+ *                 description: The ID of the tutor to assign
+ *     responses:
+ *       200:
+ *         description: Assignment assigned to the tutor
+ *       404:
+ *         description: Assignment or tutor not found
+ *       409:
+ *         description: Assignment cannot be assigned in its current state
+ *       500:
+ *         description: Internal server error
+ */
+router.put("/assign/:assignmentId", authMiddleware, roleMiddleware(["ADMIN"]), async (req, res, next) => {
+    try {
+      await assignAssignmentToTutor(req, res);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+/**
+ * @swagger
+ * /api/assignments/open/{assignmentId}:
+ *   put:
+ *     summary: Open a pending assignment to tutors with a matching specialty
+ *     tags: [Assignments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: assignmentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Assignment is listed in the open-jobs marketplace
+ *       404:
+ *         description: Assignment not found
+ *       409:
+ *         description: Assignment cannot be opened in its current state
+ *       500:
+ *         description: Internal server error
+ */
+router.put("/open/:assignmentId", authMiddleware, roleMiddleware(["ADMIN"]), async (req, res, next) => {
+    try {
+      await assignAssignment(req, res);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+/**
+ * @swagger
+ * /api/assignments/{assignmentId}/rating:
+ *   post:
+ *     summary: Rate the tutor of a completed assignment
+ *     tags: [Assignments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: assignmentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               rating:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 5
+ *     responses:
+ *       200:
+ *         description: Rating saved
+ *       400:
+ *         description: Invalid rating or assignment not completed
+ *       404:
+ *         description: Assignment not found
+ *       500:
+ *         description: Internal server error
+ */
+router.post("/:assignmentId/rating", authMiddleware, roleMiddleware(["STUDENT"]), async (req, res, next) => {
+  try {
+    await rateAssignment(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/assignments/{assignmentId}/claim:
+ *   post:
+ *     summary: Claim an open job in one of the tutor's specialties
+ *     description: Succeeds for exactly one tutor; later claims get 409.
+ *     tags: [Assignments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: assignmentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Assignment claimed
+ *       404:
+ *         description: Assignment not found or not in the tutor's specialties
+ *       409:
+ *         description: Assignment already claimed or not open
+ *       500:
+ *         description: Internal server error
+ */
+router.post("/:assignmentId/claim", authMiddleware, roleMiddleware(["TUTOR"]), async (req, res, next) => {
+  try {
+    await claimAssignment(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+  /**
+ * @swagger
+ * /api/assignments/review-and-price/{assignmentId}:
+ *   put:
+ *     summary: Tutor sends the student a quote for the assignment
+ *     description: Moves the assignment to QUOTED. Work starts when the student accepts; sending a new quote replaces an open one. Quotes expire after QUOTE_TTL_HOURS (default 48).
+ *     tags: [Assignments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: assignmentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the assignment
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               price:
+ *                 type: number
+ *                 description: Tutor's quote; the student price adds the platform fee and any urgency surcharge
+ *               deliveryBy:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Optional date the tutor commits to deliver by; cannot be after the student's deadline
+ *               note:
+ *                 type: string
+ *                 description: Optional message to the student
+ *     responses:
+ *       200:
+ *         description: Quote sent to the student
+ *       400:
+ *         description: Invalid input or price outside the specialty's range
+ *       404:
+ *         description: Assignment not found
+ *       409:
+ *         description: Assignment is not in a state that can be quoted
+ *       500:
+ *         description: Internal server error
+ */
+router.put("/review-and-price/:assignmentId", authMiddleware, roleMiddleware(["TUTOR"]), async (req, res, next) => {
+    try {
+      await reviewAndSetPrice(req, res);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+/**
+ * @swagger
+ * /api/assignments/{assignmentId}/quote/accept:
+ *   post:
+ *     summary: Student accepts the tutor's open quote
+ *     description: Copies the quoted price and delivery date onto the assignment and moves it to IN_PROGRESS, or to AWAITING_PAYMENT for escrow assignments.
+ *     tags: [Assignments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: assignmentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Quote accepted; the student can now pay
+ *       404:
+ *         description: Assignment not found or no open quote
+ *       409:
+ *         description: Quote expired or already answered
+ *       500:
+ *         description: Internal server error
+ */
+router.post("/:assignmentId/quote/accept", authMiddleware, roleMiddleware(["STUDENT"]), async (req, res, next) => {
+  try {
+    await acceptAssignmentQuote(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/assignments/{assignmentId}/quote/decline:
+ *   post:
+ *     summary: Student declines the tutor's open quote
+ *     description: Without a counter-offer the assignment goes back to the marketplace. With one it stays with the tutor, who can send a new quote.
+ *     tags: [Assignments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: assignmentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *               counterOffer:
+ *                 type: number
+ *                 description: Price in GHS the student would accept
+ *     responses:
+ *       200:
+ *         description: Quote declined
+ *       400:
+ *         description: Invalid counter-offer
+ *       404:
+ *         description: Assignment not found or no open quote
+ *       409:
+ *         description: Quote expired or already answered
+ *       500:
+ *         description: Internal server error
+ */
+router.post("/:assignmentId/quote/decline", authMiddleware, roleMiddleware(["STUDENT"]), async (req, res, next) => {
+  try {
+    await declineAssignmentQuote(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/assignments/{assignmentId}/quotes:
+ *   get:
+ *     summary: Get every quote made for an assignment, oldest first
+ *     tags: [Assignments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: assignmentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Quotes with their status and any counter-offer
+ *       404:
+ *         description: Assignment not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/:assignmentId/quotes", authMiddleware, async (req, res, next) => {
+  try {
+    await getAssignmentQuotes(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
+  
+
+/**
+ * @swagger
+ * /api/assignments/{assignmentId}/accept:
+ *   post:
+ *     summary: Student accepts the delivered solution and closes the assignment
+ *     description: Moves the assignment to ACCEPTED and releases whatever the student has paid to the tutor's payout balance. Solutions not accepted or sent back within ESCROW_AUTO_ACCEPT_HOURS (default 72) are accepted automatically, whatever the payment mode.
+ *     tags: [Assignments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: assignmentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Solution accepted
+ *       404:
+ *         description: Assignment not found
+ *       409:
+ *         description: No delivered solution to accept
+ *       500:
+ *         description: Internal server error
+ */
+router.post("/:assignmentId/accept", authMiddleware, roleMiddleware(["STUDENT"]), async (req, res, next) => {
+  try {
+    await acceptAssignmentSolution(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/assignments/{assignmentId}/revision-request:
+ *   post:
+ *     summary: Student sends the delivered solution back to the tutor for revision
+ *     description: Moves the assignment to REVISION_REQUESTED until the tutor uploads a revised solution. Each assignment gets the number of free revisions set by the maxFreeRevisions platform setting.
+ *     tags: [Assignments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: assignmentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *               files:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: binary
+ *     responses:
+ *       200:
+ *         description: Revision requested, with the number of free revisions left
+ *       400:
+ *         description: Missing reason
+ *       404:
+ *         description: Assignment not found
+ *       409:
+ *         description: No delivered solution, or no free revisions left
+ *       500:
+ *         description: Internal server error
+ */
+router.post(
+  "/:assignmentId/revision-request",
+  authMiddleware,
+  roleMiddleware(["STUDENT"]),
+  upload.array("files", 5),
+  async (req, res, next) => {
+    try {
+      await requestAssignmentRevision(req, res);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/assignments/{assignmentId}/revision-requests:
+ *   get:
+ *     summary: Get the revision requests of an assignment, oldest first
+ *     tags: [Assignments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: assignmentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Revision requests with their attachments; download attachments through the file link endpoint
+ *       404:
+ *         description: Assignment not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/:assignmentId/revision-requests", authMiddleware, async (req, res, next) => {
+  try {
+    await getRevisionRequests(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/assignments/{assignmentId}/messages:
+ *   get:
+ *     summary: Get a page of the assignment's message thread, oldest first
+ *     description: Open to the student, the assigned tutor and admins. Every message returned is marked as read by the caller.
+ *     tags: [Assignments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: assignmentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: before
+ *         schema:
+ *           type: string
+ *         description: A message ID; returns the messages sent before it
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *           maximum: 200
+ *     responses:
+ *       200:
+ *         description: Messages with their read receipts and attachments, whether older messages exist, and the caller's remaining unread count
+ *       404:
+ *         description: Assignment or `before` message not found
+ *       500:
+ *         description: Internal server error
+ *   post:
+ *     summary: Post a message to the assignment's thread
+ *     description: The other participants are emailed right away, in their next digest, or not at all, depending on their messageEmails preference.
+ *     tags: [Assignments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: assignmentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               body:
+ *                 type: string
+ *               files:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: binary
+ *                 description: Up to 5 attachments
  *     responses:
  *       201:
- *         description: Assignment submitted successfully!
+ *         description: Message sent
  *       400:
- *         description: Missing fields or file
+ *         description: Empty or too long message
+ *       404:
+ *         description: Assignment not found
  *       500:
- *         description: Server error
+ *         description: Internal server error
  */
-router.post("/submit", authMiddleware, upload.single("file"), async (req, res, next) => {
+router.get("/:assignmentId/messages", authMiddleware, async (req, res, next) => {
   try {
-    await submitAssignment(req, res);
+    await getAssignmentMessages(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post("/:assignmentId/messages", authMiddleware, upload.array("files", 5), async (req, res, next) => {
+  try {
+    await postAssignmentMessage(req, res);
   } catch (error) {
     next(error);
   }
@@ -64,32 +758,91 @@ router.post("/submit", authMiddleware, upload.single("file"), async (req, res, n
 
 /**
  * @swagger
- * /api/assignments/pending:
- *   get:
- *     summary: Get all pending assignments (Admin)
+ * /api/assignments/{assignmentId}/cancel:
+ *   post:
+ *     summary: Cancel an assignment and refund any payment
+ *     description: Students can cancel until work starts (up to AWAITING_PAYMENT); admins can also cancel work in progress or a delivered solution the student has not accepted yet. Settled Paystack payments are refunded; manual payments are flagged to the admin.
  *     tags: [Assignments]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: assignmentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
  *     responses:
  *       200:
- *         description: List of pending assignments
+ *         description: Assignment cancelled, with the refunds that were requested
+ *       404:
+ *         description: Assignment not found
+ *       409:
+ *         description: Work has started or the assignment is already finished
  *       500:
  *         description: Internal server error
  */
-router.get("/pending", authMiddleware, roleMiddleware(["ADMIN"]), async (req, res, next) => {
-    try {
-      await getPendingAssignments(req, res);
-    } catch (error) {
-      next(error);
-    }
-  });
+router.post("/:assignmentId/cancel", authMiddleware, roleMiddleware(["STUDENT", "ADMIN"]), async (req, res, next) => {
+  try {
+    await cancelAssignment(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
 
-  /**
+/**
  * @swagger
- * /api/assignments/mark-paid/{assignmentId}:
- *   put:
- *     summary: Mark an assignment as paid (Admin or Student)
- *     tags: [Assignments]
+ * /api/assignments/{assignmentId}/disputes:
+ *   post:
+ *     summary: Student opens a dispute on a paid assignment
+ *     description: Holds the tutor's payout until an admin resolves the dispute. An assignment can have one open dispute at a time.
+ *     tags: [Disputes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: assignmentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 enum: [NOT_DELIVERED, PLAGIARISM, POOR_QUALITY, OTHER]
+ *               description:
+ *                 type: string
+ *               files:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: binary
+ *     responses:
+ *       201:
+ *         description: Dispute opened
+ *       400:
+ *         description: Invalid reason, missing description, or the assignment is not paid
+ *       404:
+ *         description: Assignment not found
+ *       409:
+ *         description: The assignment already has an open dispute
+ *       500:
+ *         description: Internal server error
+ *   get:
+ *     summary: Get the disputes of an assignment with their evidence, newest first
+ *     tags: [Disputes]
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -98,68 +851,110 @@ router.get("/pending", authMiddleware, roleMiddleware(["ADMIN"]), async (req, re
  *         required: true
  *         schema:
  *           type: string
- *         description: The ID of the assignment
  *     responses:
  *       200:
- *         description: Assignment marked as paid successfully
+ *         description: Disputes with evidence; download files through the file link endpoint
  *       404:
  *         description: Assignment not found
  *       500:
  *         description: Internal server error
  */
-router.put("/mark-paid/:assignmentId", authMiddleware, roleMiddleware(["ADMIN", "STUDENT"]), async (req, res, next) => {
+router.post(
+  "/:assignmentId/disputes",
+  authMiddleware,
+  roleMiddleware(["STUDENT"]),
+  upload.array("files", 5),
+  async (req, res, next) => {
     try {
-      await markAssignmentAsPaid(req, res);
+      await openAssignmentDispute(req, res);
     } catch (error) {
       next(error);
     }
-  });
+  }
+);
 
-  /**
+router.get("/:assignmentId/disputes", authMiddleware, async (req, res, next) => {
+  try {
+    await getAssignmentDisputes(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
  * @swagger
- * /api/assignments/tutor-pending:
- *   get:
- *     summary: Get all pending assignments for logged-in tutor
- *     tags: [Assignments]
+ * /api/assignments/disputes/{disputeId}/evidence:
+ *   post:
+ *     summary: Add a statement and/or files to an open dispute
+ *     description: Open to the student, the assigned tutor and admins.
+ *     tags: [Disputes]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: disputeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               note:
+ *                 type: string
+ *               files:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: binary
  *     responses:
- *       200:
- *         description: List of tutor's pending assignments
+ *       201:
+ *         description: Evidence submitted
+ *       400:
+ *         description: Neither a note nor files
+ *       404:
+ *         description: Dispute not found
+ *       409:
+ *         description: Dispute already resolved
  *       500:
  *         description: Internal server error
  */
-router.get("/tutor-pending", authMiddleware, roleMiddleware(["TUTOR"]), async (req, res, next) => {
-    try {
-      await getTutorPendingAssignments(req, res);
-    } catch (error) {
-      next(error);
-    }
-  });
+router.post("/disputes/:disputeId/evidence", authMiddleware, upload.array("files", 5), async (req, res, next) => {
+  try {
+    await submitDisputeEvidence(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
 
 /**
  * @swagger
- * /api/assignments:
+ * /api/assignments/{assignmentId}/history:
  *   get:
- *     summary: Get all assignments with optional status filter
+ *     summary: Get the status transition history of an assignment
  *     tags: [Assignments]
  *     security:
  *       - bearerAuth: []
  *     parameters:
- *       - in: query
- *         name: status
+ *       - in: path
+ *         name: assignmentId
+ *         required: true
  *         schema:
  *           type: string
- *         description: Filter assignments by status (Pending, In Progress, Completed)
  *     responses:
  *       200:
- *         description: List of assignments
+ *         description: Status changes in chronological order, with the acting user
+ *       404:
+ *         description: Assignment not found
  *       500:
  *         description: Internal server error
  */
-router.get("/", authMiddleware, roleMiddleware(["ADMIN"]), async (req, res, next) => {
+router.get("/:assignmentId/history", authMiddleware, async (req, res, next) => {
   try {
-    await getAllAssignments(req, res);
+    await getAssignmentHistory(req, res);
   } catch (error) {
     next(error);
   }
@@ -167,9 +962,9 @@ router.get("/", authMiddleware, roleMiddleware(["ADMIN"]), async (req, res, next
 
 /**
  * @swagger
- * /api/assignments/assign/{assignmentId}:
- *   put:
- *     summary: Assign an assignment to a tutor
+ * /api/assignments/{assignmentId}/solutions:
+ *   get:
+ *     summary: List the solution versions uploaded for an assignment
  *     tags: [Assignments]
  *     security:
  *       - bearerAuth: []
@@ -179,38 +974,28 @@ router.get("/", authMiddleware, roleMiddleware(["ADMIN"]), async (req, res, next
  *         required: true
  *         schema:
  *           type: string
- *         description: The ID of the assignment
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             properties:
- *               tutorId:
- *                 type: string
- *                 description: The ID of the tutor to assign
  *     responses:
  *       200:
- *         description: Assignment assigned to the tutor
+ *         description: Solution versions, newest first, with their files
  *       404:
- *         description: Assignment or tutor not found
+ *         description: Assignment not found
  *       500:
  *         description: Internal server error
  */
-router.put("/assign/:assignmentId", authMiddleware, roleMiddleware(["ADMIN"]), async (req, res, next) => {
-    try {
-      await assignAssignmentToTutor(req, res);
-    } catch (error) {
-      next(error);
-    }
-  });
+router.get("/:assignmentId/solutions", authMiddleware, async (req, res, next) => {
+  try {
+    await getSolutionFiles(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
 
-  /**
+/**
  * @swagger
- * /api/assignments/review-and-price/{assignmentId}:
- *   put:
- *     summary: Tutor accepts the assignment and sets the price in one step
+ * /api/assignments/{assignmentId}/files/{fileId}/link:
+ *   post:
+ *     summary: Get a short-lived download link for a solution, revision attachment, dispute evidence or message attachment file
+ *     description: The link only works for the requesting user and expires after DOWNLOAD_LINK_TTL_SECONDS (5 minutes by default).
  *     tags: [Assignments]
  *     security:
  *       - bearerAuth: []
@@ -220,41 +1005,35 @@ router.put("/assign/:assignmentId", authMiddleware, roleMiddleware(["ADMIN"]), a
  *         required: true
  *         schema:
  *           type: string
- *         description: The ID of the assignment
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             properties:
- *               price:
- *                 type: number
- *                 description: Price set by the tutor
+ *       - in: path
+ *         name: fileId
+ *         required: true
+ *         schema:
+ *           type: string
  *     responses:
  *       200:
- *         description: Assignment accepted and price set successfully
- *       400:
- *         description: Invalid input or assignment state
+ *         description: Signed link and its expiry time
+ *       403:
+ *         description: Access denied if payment has not been made
  *       404:
- *         description: Assignment not found
+ *         description: File not found
  *       500:
  *         description: Internal server error
  */
-router.put("/review-and-price/:assignmentId", authMiddleware, roleMiddleware(["TUTOR"]), async (req, res, next) => {
-    try {
-      await reviewAndSetPrice(req, res);
-    } catch (error) {
-      next(error);
-    }
-  });
-  
+router.post("/:assignmentId/files/:fileId/link", authMiddleware, async (req, res, next) => {
+  try {
+    await createFileDownloadLink(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
 
 /**
  * @swagger
  * /api/assignments/{assignmentId}:
  *   get:
  *     summary: Get assignment by ID
+ *     description: Admins can fetch any assignment; students and tutors only their own.
  *     tags: [Assignments]
  *     security:
  *       - bearerAuth: []
@@ -268,7 +1047,7 @@ router.put("/review-and-price/:assignmentId", authMiddleware, roleMiddleware(["T
  *       200:
  *         description: Assignment details
  *       404:
- *         description: Assignment not found
+ *         description: Assignment not found, or not one the user is part of
  *       500:
  *         description: Internal server error
  */
@@ -306,7 +1085,8 @@ router.get("/tutor", authMiddleware, roleMiddleware(["TUTOR"]), async (req, res,
  * @swagger
  * /api/assignments/complete/{assignmentId}:
  *   put:
- *     summary: Mark an assignment as completed
+ *     summary: Upload the solution and mark the assignment as completed
+ *     description: Uploading again after completion, or after the student requested a revision, stores a revised solution as a new version; earlier versions are kept.
  *     tags: [Assignments]
  *     security:
  *       - bearerAuth: []
@@ -319,20 +1099,28 @@ router.get("/tutor", authMiddleware, roleMiddleware(["TUTOR"]), async (req, res,
  *     requestBody:
  *       required: true
  *       content:
- *         application/json:
+ *         multipart/form-data:
  *           schema:
  *             type: object
  *             properties:
- *               fileUrl:
- *                 type: string
- *                 example: https://cloudinary.com/assignment.pdf
+ *               files:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: binary
  *     responses:
  *       200:
- *         description: Assignment marked as completed
+ *         description: Assignment marked as completed, or revised solution uploaded
+ *       400:
+ *         description: No solution file uploaded
+ *       404:
+ *         description: Assignment not found or not assigned to you
+ *       409:
+ *         description: Assignment is not in progress or awaiting a revision
  *       500:
  *         description: Internal server error
  */
-router.put("/complete/:assignmentId", authMiddleware, roleMiddleware(["TUTOR"]), async (req, res, next) => {
+router.put("/complete/:assignmentId", authMiddleware, roleMiddleware(["TUTOR"]), upload.array("files", 10), async (req, res, next) => {
   try {
     await completeAssignment(req, res);
   } catch (error) {
@@ -367,6 +1155,7 @@ router.get("/student", authMiddleware, roleMiddleware(["STUDENT"]), async (req,
  * /api/assignments/download/{assignmentId}:
  *   get:
  *     summary: Download the completed file of an assignment
+ *     description: Allowed for admins, the assigned tutor, and the student once paid. The download is recorded.
  *     tags: [Assignments]
  *     security:
  *       - bearerAuth: []
@@ -376,9 +1165,16 @@ router.get("/student", authMiddleware, roleMiddleware(["STUDENT"]), async (req,
  *         required: true
  *         schema:
  *           type: string
+ *       - in: query
+ *         name: fileId
+ *         schema:
+ *           type: string
+ *         description: Solution file to download; defaults to the first file of the latest version
  *     responses:
  *       302:
- *         description: Redirect to the completed file URL
+ *         description: Redirect to a short-lived Cloudinary URL
+ *       403:
+ *         description: Access denied if payment has not been made
  *       404:
  *         description: Completed file not found
  *       500:
@@ -438,7 +1234,7 @@ router.get("/download/completed/:assignmentId", authMiddleware, async (req, res,
  *         name: status
  *         schema:
  *           type: string
- *         description: Filter assignments by status (Pending, Assigned, In Progress, Completed)
+ *         description: Filter assignments by status (PENDING, ASSIGNED, QUOTED, AWAITING_PAYMENT, IN_PROGRESS, COMPLETED, REVISION_REQUESTED, ACCEPTED, REJECTED, CANCELLED)
  *       - in: query
  *         name: page
  *         schema:
@@ -459,8 +1255,9 @@ router.get("/download/completed/:assignmentId", authMiddleware, async (req, res,
  */
 router.get("/", authMiddleware, roleMiddleware(["ADMIN"]), async (req, res, next) => {
     try {
-      const { status, page = 1, limit = 10 } = req.query;
-      const filter = status ? { status: status.toString() } : {};
+      const { page = 1, limit = 10 } = req.query;
+      const status = parseAssignmentStatus(req.query.status);
+      const filter = status ? { status } : {};
   
       const assignments = await prisma.assignment.findMany({
         where: filter,
@@ -521,6 +1318,7 @@ router.get("/download/completed/:assignmentId", authMiddleware, async (req, res,
  * /api/assignments/reject/{assignmentId}:
  *   put:
  *     summary: Tutor rejects the assignment
+ *     description: Also withdraws the tutor's quote if the student has not answered it yet.
  *     tags: [Assignments]
  *     security:
  *       - bearerAuth: []
@@ -531,11 +1329,22 @@ router.get("/download/completed/:assignmentId", authMiddleware, async (req, res,
  *         schema:
  *           type: string
  *         description: ID of the assignment to reject
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
  *     responses:
  *       200:
  *         description: Assignment rejected successfully
  *       404:
- *         description: Assignment not found
+ *         description: Assignment not found or not assigned to you
+ *       409:
+ *         description: Assignment is not in a state that can be rejected
  *       500:
  *         description: Internal server error
  */
@@ -547,36 +1356,6 @@ router.put("/reject/:assignmentId", authMiddleware, roleMiddleware(["TUTOR"]), a
     }
   });
 
-  /**
- * @swagger
- * /api/assignments/mark-paid/{assignmentId}:
- *   put:
- *     summary: Mark an assignment as paid (Admin or Student)
- *     tags: [Assignments]
- *     security:
- *       - bearerAuth: []
- *     parameters:
- *       - in: path
- *         name: assignmentId
- *         required: true
- *         schema:
- *           type: string
- *         description: The ID of the assignment
- *     responses:
- *       200:
- *         description: Assignment marked as paid successfully
- *       404:
- *         description: Assignment not found
- *       500:
- *         description: Internal server error
- */
-router.put("/mark-paid/:assignmentId", authMiddleware, roleMiddleware(["ADMIN", "STUDENT"]), async (req, res, next) => {
-    try {
-      await markAssignmentAsPaid(req, res);
-    } catch (error) {
-      next(error);
-    }
-  });
   
   
 
@@ -1,6 +1,19 @@
 import express from "express";
-import { registerStudent, registerTutor, login } from "../controllers/authController";
+import {
+  registerStudent,
+  registerTutor,
+  login,
+  refreshSession,
+  logout,
+  logoutAll,
+  verifyEmailAddress,
+  resendVerificationEmail,
+  forgotPassword,
+  resetForgottenPassword,
+  changePassword,
+} from "../controllers/authController";
 import upload from "../middleware/upload";
+import authMiddleware from "../middleware/authMiddleware";
 
 const router = express.Router();
 
@@ -66,6 +79,12 @@ router.post("/register/student", async (req, res) => {
  *                 type: string
  *               programSpecialty:
  *                 type: string
+ *                 description: Primary specialty
+ *               specialties:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Further specialties the tutor takes jobs in
  *               certificate:
  *                 type: string
  *                 format: binary
@@ -103,6 +122,8 @@ router.post("/register/tutor", upload.single("certificate"), async (req, res) =>
  *         description: Login successful
  *       400:
  *         description: Invalid credentials
+ *       403:
+ *         description: Email not verified (code EMAIL_NOT_VERIFIED) or tutor awaiting approval
  *       500:
  *         description: Internal server error
  */
@@ -110,4 +131,207 @@ router.post("/login", async (req, res) => {
   await login(req, res);
 });
 
+/**
+ * @swagger
+ * /api/auth/verify-email:
+ *   get:
+ *     summary: Verify an email address with the token from the verification email
+ *     tags: [Auth]
+ *     security: []
+ *     parameters:
+ *       - in: query
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Email verified
+ *       400:
+ *         description: Token missing, invalid, expired or already used
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/verify-email", async (req, res) => {
+  await verifyEmailAddress(req, res);
+});
+
+/**
+ * @swagger
+ * /api/auth/resend-verification:
+ *   post:
+ *     summary: Send a new verification email
+ *     description: Limited to 3 emails per hour, at least 60 seconds apart.
+ *     tags: [Auth]
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               email:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Verification email sent if the account exists and is unverified
+ *       400:
+ *         description: Email missing
+ *       429:
+ *         description: Too many requests; see the Retry-After header
+ *       500:
+ *         description: Internal server error
+ */
+router.post("/resend-verification", async (req, res) => {
+  await resendVerificationEmail(req, res);
+});
+
+/**
+ * @swagger
+ * /api/auth/forgot-password:
+ *   post:
+ *     summary: Email a password reset link
+ *     description: Always answers 200 so it cannot be used to find out which emails have accounts.
+ *     tags: [Auth]
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               email:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Reset link sent if the account exists
+ *       400:
+ *         description: Email missing
+ *       500:
+ *         description: Internal server error
+ */
+router.post("/forgot-password", async (req, res) => {
+  await forgotPassword(req, res);
+});
+
+/**
+ * @swagger
+ * /api/auth/reset-password:
+ *   post:
+ *     summary: Set a new password with a reset token
+ *     description: The token works once. All sessions of the account are revoked.
+ *     tags: [Auth]
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               token:
+ *                 type: string
+ *               newPassword:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Password reset
+ *       400:
+ *         description: Missing fields, password too short, or token invalid or expired
+ *       500:
+ *         description: Internal server error
+ */
+router.post("/reset-password", async (req, res) => {
+  await resetForgottenPassword(req, res);
+});
+
+/**
+ * @swagger
+ * /api/auth/password:
+ *   put:
+ *     summary: Change the password of the logged-in user
+ *     description: Revokes all other sessions; the current device gets a new session.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               currentPassword:
+ *                 type: string
+ *               newPassword:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Password changed
+ *       400:
+ *         description: Missing fields, password too short, or current password incorrect
+ *       401:
+ *         description: Not logged in
+ *       500:
+ *         description: Internal server error
+ */
+router.put("/password", authMiddleware, async (req, res) => {
+  await changePassword(req, res);
+});
+
+/**
+ * @swagger
+ * /api/auth/refresh:
+ *   post:
+ *     summary: Exchange the refresh token cookie for a new access token
+ *     description: Rotates the refresh token. Reusing an old refresh token revokes the whole session.
+ *     tags: [Auth]
+ *     security: []
+ *     responses:
+ *       200:
+ *         description: Session refreshed, new cookies set
+ *       401:
+ *         description: Refresh token missing, invalid, reused, or session revoked
+ *       500:
+ *         description: Internal server error
+ */
+router.post("/refresh", async (req, res) => {
+  await refreshSession(req, res);
+});
+
+/**
+ * @swagger
+ * /api/auth/logout:
+ *   post:
+ *     summary: Log out of the current session
+ *     tags: [Auth]
+ *     security: []
+ *     responses:
+ *       200:
+ *         description: Session revoked and cookies cleared
+ *       500:
+ *         description: Internal server error
+ */
+router.post("/logout", async (req, res) => {
+  await logout(req, res);
+});
+
+/**
+ * @swagger
+ * /api/auth/logout-all:
+ *   post:
+ *     summary: Log out of every session of the current user
+ *     tags: [Auth]
+ *     responses:
+ *       200:
+ *         description: All sessions revoked and cookies cleared
+ *       401:
+ *         description: Not logged in
+ *       500:
+ *         description: Internal server error
+ */
+router.post("/logout-all", authMiddleware, async (req, res) => {
+  await logoutAll(req, res);
+});
+
 export default router;
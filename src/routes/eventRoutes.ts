@@ -0,0 +1,30 @@
+import express from "express";
+import { streamEvents } from "../controllers/eventController";
+import authMiddleware from "../middleware/authMiddleware";
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * /api/events:
+ *   get:
+ *     summary: Open a Server-Sent Events stream of real-time updates
+ *     description: Authenticated with the same token cookie as the rest of the API (use EventSource with withCredentials). Event types are assignment.status for status changes on the user's assignments, marketplace.job for new open jobs in a tutor's specialties, message.created for new assignment messages, payment.confirmed for settled payments and notification.created for new notification center entries. Admins receive every event. Payloads carry IDs and summaries; fetch the full records through the API.
+ *     tags: [Events]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: A text/event-stream that stays open until the client disconnects or the session is revoked
+ *       401:
+ *         description: Unauthorized
+ */
+router.get("/", authMiddleware, async (req, res, next) => {
+  try {
+    await streamEvents(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,42 @@
+import express from "express";
+import { downloadWithToken } from "../controllers/fileController";
+import authMiddleware from "../middleware/authMiddleware";
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * /api/files/download:
+ *   get:
+ *     summary: Download a file through a signed link
+ *     description: The link is short-lived and only works for the user it was issued to. Every download is recorded.
+ *     tags: [Files]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       302:
+ *         description: Redirect to a Cloudinary URL that expires within a minute
+ *       400:
+ *         description: Download token is required
+ *       403:
+ *         description: Link expired, issued to another user, or payment required
+ *       404:
+ *         description: File not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/download", authMiddleware, async (req, res, next) => {
+  try {
+    await downloadWithToken(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
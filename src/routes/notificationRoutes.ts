@@ -0,0 +1,180 @@
+import express from "express";
+import {
+  getNotifications,
+  markNotificationRead,
+  markAllNotificationsRead,
+  getPreferences,
+  updatePreferences,
+} from "../controllers/notificationController";
+import authMiddleware from "../middleware/authMiddleware";
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * /api/notifications:
+ *   get:
+ *     summary: Get the logged-in user's notifications, newest first
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: unread
+ *         schema:
+ *           type: boolean
+ *         description: Only unread notifications
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: Notifications, the total matching the filter and the unread count
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/", authMiddleware, async (req, res, next) => {
+  try {
+    await getNotifications(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/notifications/read:
+ *   post:
+ *     summary: Mark notifications as read
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               ids:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Notifications to mark; all unread ones when omitted
+ *     responses:
+ *       200:
+ *         description: Number of notifications marked as read
+ *       400:
+ *         description: Invalid ids
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Internal server error
+ */
+router.post("/read", authMiddleware, async (req, res, next) => {
+  try {
+    await markAllNotificationsRead(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/notifications/preferences:
+ *   get:
+ *     summary: Get which notification events are emailed to the logged-in user
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Every event with its description and whether it is emailed
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Internal server error
+ *   put:
+ *     summary: Choose which notification events are emailed
+ *     description: Events set to false are only shown in the notification center. Events left out keep their setting.
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               email:
+ *                 type: object
+ *                 additionalProperties:
+ *                   type: boolean
+ *                 example: { "ASSIGNMENT_PRICED": false }
+ *     responses:
+ *       200:
+ *         description: Preferences updated
+ *       400:
+ *         description: Unknown event or non-boolean value
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/preferences", authMiddleware, async (req, res, next) => {
+  try {
+    await getPreferences(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.put("/preferences", authMiddleware, async (req, res, next) => {
+  try {
+    await updatePreferences(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/notifications/{notificationId}/read:
+ *   post:
+ *     summary: Mark one notification as read
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: notificationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Number of notifications marked as read (0 if it was already read or is not yours)
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Internal server error
+ */
+router.post("/:notificationId/read", authMiddleware, async (req, res, next) => {
+  try {
+    await markNotificationRead(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -1,5 +1,9 @@
 import express from "express";
-import { initializePaymentForAssignment, verifyPaymentForAssignment } from "../controllers/paymentController";
+import {
+  initializePaymentForAssignment,
+  verifyPaymentForAssignment,
+  handlePaystackWebhook,
+} from "../controllers/paymentController";
 import authMiddleware from "../middleware/authMiddleware";
 
 const router = express.Router();
@@ -66,4 +70,34 @@ router.get("/verify", authMiddleware, async (req, res, next) => {
   }
 });
 
+/**
+ * @swagger
+ * /api/payments/webhook:
+ *   post:
+ *     summary: Paystack webhook (charge.success, refund.processed and transfer events)
+ *     description: Called by Paystack, not by clients. The raw body is authenticated with the x-paystack-signature HMAC, and repeated deliveries of the same event are ignored.
+ *     tags: [Payments]
+ *     security: []
+ *     parameters:
+ *       - in: header
+ *         name: x-paystack-signature
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Event received (or already processed)
+ *       401:
+ *         description: Invalid signature
+ *       500:
+ *         description: Internal server error, Paystack will retry
+ */
+router.post("/webhook", async (req, res, next) => {
+  try {
+    await handlePaystackWebhook(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
@@ -0,0 +1,31 @@
+import express from "express";
+import { getMyEarnings } from "../controllers/payoutController";
+import authMiddleware, { roleMiddleware } from "../middleware/authMiddleware";
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * /api/tutors/me/earnings:
+ *   get:
+ *     summary: Get the logged-in tutor's payouts and earnings totals
+ *     tags: [Tutors]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Payouts with totals per status, amounts in pesewas
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/me/earnings", authMiddleware, roleMiddleware(["TUTOR"]), async (req, res, next) => {
+  try {
+    await getMyEarnings(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
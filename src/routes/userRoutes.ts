@@ -0,0 +1,92 @@
+import express from "express";
+import { getMyProfile, updateMyProfile } from "../controllers/userController";
+import authMiddleware from "../middleware/authMiddleware";
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * /api/users/me:
+ *   get:
+ *     summary: Get the logged-in user's profile
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: The user's profile, without credentials; tutors also get their specialties and any pending specialty change
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Internal server error
+ *   patch:
+ *     summary: Update the logged-in user's profile
+ *     description: Phone and MoMo numbers must be Ghanaian and are stored as 0XXXXXXXXX. An approved tutor's change of program specialties waits for admin review; their current specialties apply until then.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               firstName:
+ *                 type: string
+ *               lastName:
+ *                 type: string
+ *               university:
+ *                 type: string
+ *               department:
+ *                 type: string
+ *               phoneNumber:
+ *                 type: string
+ *               momoNumber:
+ *                 type: string
+ *               programSpecialty:
+ *                 type: string
+ *                 description: Tutors only; the primary specialty
+ *               specialties:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Tutors only; replaces the further specialties
+ *               messageEmails:
+ *                 type: string
+ *                 enum: [IMMEDIATE, DIGEST, OFF]
+ *                 description: Email for every assignment message, a periodic digest of unread ones, or none
+ *               locale:
+ *                 type: string
+ *                 example: en
+ *                 description: Language of emails and SMS; untranslated messages are sent in English
+ *               smsNotifications:
+ *                 type: boolean
+ *                 description: Text phoneNumber when a quote arrives, a solution is ready or a payment is received
+ *     responses:
+ *       200:
+ *         description: Profile updated
+ *       400:
+ *         description: Invalid field
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/me", authMiddleware, async (req, res, next) => {
+  try {
+    await getMyProfile(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.patch("/me", authMiddleware, async (req, res, next) => {
+  try {
+    await updateMyProfile(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
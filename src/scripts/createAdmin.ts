@@ -0,0 +1,64 @@
+import dotenv from "dotenv";
+import bcrypt from "bcryptjs";
+import prisma from "../config/prisma";
+import { MIN_PASSWORD_LENGTH } from "../utils/password";
+
+dotenv.config();
+
+/**
+ * Creates the first admin account.
+ *
+ *   npm run admin:create -- <email> <password> [firstName] [lastName] [--promote]
+ *
+ * ADMIN_EMAIL and ADMIN_PASSWORD are used when the arguments are left out.
+ * An existing account is left alone unless --promote is passed, which makes it
+ * an admin and replaces its password. Further admins should be invited from
+ * the admin API instead.
+ */
+const main = async () => {
+  const args = process.argv.slice(2);
+  const promote = args.includes("--promote");
+  const [email = process.env.ADMIN_EMAIL, password = process.env.ADMIN_PASSWORD, firstName = "Admin", lastName = "User"] =
+    args.filter((arg) => !arg.startsWith("--"));
+
+  if (!email || !password) {
+    throw new Error("Usage: npm run admin:create -- <email> <password> [firstName] [lastName] [--promote]");
+  }
+
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`Admin password must be at least ${MIN_PASSWORD_LENGTH} characters long.`);
+  }
+
+  const existing = await prisma.user.findUnique({ where: { email } });
+
+  if (existing && !promote) {
+    throw new Error(
+      `A ${existing.role.toLowerCase()} account already exists for ${email}. Pass --promote to make it an admin and replace its password.`
+    );
+  }
+
+  const hashedPassword = await bcrypt.hash(password, 10);
+
+  const admin = await prisma.user.upsert({
+    where: { email },
+    update: { role: "ADMIN", password: hashedPassword, isVerified: true, isApproved: true },
+    create: {
+      firstName,
+      lastName,
+      email,
+      password: hashedPassword,
+      role: "ADMIN",
+      isVerified: true,
+      isApproved: true,
+    },
+  });
+
+  console.log(`Admin account ready: ${admin.email} (${admin.id})`);
+};
+
+main()
+  .catch((error) => {
+    console.error("Error creating admin:", error.message ?? error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,23 @@
+import { Prisma } from "@prisma/client";
+import prisma from "../config/prisma";
+
+interface AdminAction {
+  action: string;
+  targetType: string;
+  targetId?: string;
+  details?: Prisma.InputJsonValue;
+}
+
+/**
+ * Records an action taken by an admin. Failures are logged, not thrown, so the
+ * action itself is not undone by a broken audit write.
+ */
+export const recordAdminAction = async (adminId: string, { action, targetType, targetId, details }: AdminAction) => {
+  try {
+    await prisma.adminAuditLog.create({
+      data: { adminId, action, targetType, targetId, details },
+    });
+  } catch (error) {
+    console.error(`Error recording admin action ${action}:`, error);
+  }
+};
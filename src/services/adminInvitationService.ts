@@ -0,0 +1,99 @@
+import bcrypt from "bcryptjs";
+import prisma from "../config/prisma";
+import { sendTemplatedEmail } from "../utils/emailService";
+import { generateToken, hashToken } from "../utils/tokens";
+import { MIN_PASSWORD_LENGTH } from "../utils/password";
+import { positiveNumberFromEnv } from "../utils/env";
+
+const invitationTtlHours = () => positiveNumberFromEnv("ADMIN_INVITATION_TTL_HOURS", 72);
+
+export class InvitationError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "InvitationError";
+  }
+}
+
+/**
+ * Emails a one-time link that lets the recipient create an admin account.
+ * Earlier open invitations for the same email stop working.
+ */
+export const inviteAdmin = async (email: string, invitedBy: { id: string; firstName: string; lastName: string }) => {
+  const existingUser = await prisma.user.findUnique({ where: { email } });
+  if (existingUser) {
+    throw new InvitationError("A user with this email already exists.", 409);
+  }
+
+  const { token, tokenHash } = generateToken();
+  const expiresAt = new Date(Date.now() + invitationTtlHours() * 3_600_000);
+
+  const invitation = await prisma.$transaction(async (tx) => {
+    await tx.adminInvitation.updateMany({
+      where: { email, acceptedAt: null, expiresAt: { gt: new Date() } },
+      data: { expiresAt: new Date() },
+    });
+    return tx.adminInvitation.create({
+      data: { email, tokenHash, invitedById: invitedBy.id, expiresAt },
+    });
+  });
+
+  // The invitee has no account yet, so no locale either
+  await sendTemplatedEmail({
+    to: email,
+    template: "adminInvitation",
+    variables: {
+      inviterName: `${invitedBy.firstName} ${invitedBy.lastName}`,
+      acceptUrl: `${process.env.FRONTEND_URL}/admin/accept-invitation?token=${encodeURIComponent(token)}`,
+      expiresAt,
+    },
+  });
+
+  return invitation;
+};
+
+/**
+ * Creates the ADMIN user for a valid invitation token. The token can be used once.
+ */
+export const acceptAdminInvitation = async (
+  token: string,
+  profile: { firstName: string; lastName: string; password: string }
+) => {
+  const invitation = await prisma.adminInvitation.findUnique({ where: { tokenHash: hashToken(token) } });
+
+  if (!invitation || invitation.acceptedAt || invitation.expiresAt <= new Date()) {
+    throw new InvitationError("Invitation is invalid or has expired.", 400);
+  }
+
+  if (profile.password.length < MIN_PASSWORD_LENGTH) {
+    throw new InvitationError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters long.`, 400);
+  }
+
+  const password = await bcrypt.hash(profile.password, 10);
+
+  return prisma.$transaction(async (tx) => {
+    // Claim the invitation so it cannot be redeemed twice
+    const { count } = await tx.adminInvitation.updateMany({
+      where: { id: invitation.id, acceptedAt: null },
+      data: { acceptedAt: new Date() },
+    });
+    if (count === 0) {
+      throw new InvitationError("Invitation has already been used.", 400);
+    }
+
+    if (await tx.user.findUnique({ where: { email: invitation.email } })) {
+      throw new InvitationError("A user with this email already exists.", 409);
+    }
+
+    return tx.user.create({
+      data: {
+        firstName: profile.firstName,
+        lastName: profile.lastName,
+        email: invitation.email,
+        password,
+        role: "ADMIN",
+        isVerified: true,
+        isApproved: true,
+      },
+    });
+  });
+};
@@ -0,0 +1,238 @@
+import { Assignment, AssignmentFile, AssignmentFileKind, Prisma } from "@prisma/client";
+import { DeliveryType, ResourceType } from "cloudinary";
+import jwt from "jsonwebtoken";
+import prisma from "../config/prisma";
+import cloudinary from "../config/cloudinary";
+import { uploadBuffer } from "../utils/cloudinaryUpload";
+import { isAssignmentPaid } from "./paymentService";
+import { canViewAssignment } from "../utils/assignmentAccess";
+import { positiveNumberFromEnv } from "../utils/env";
+
+// Cloudinary folder per file kind; files are uploaded as private assets
+const FOLDERS: Record<AssignmentFileKind, string> = {
+  SOLUTION: "solutions",
+  REVISION_ATTACHMENT: "revisions",
+  DISPUTE_EVIDENCE: "disputes",
+  MESSAGE_ATTACHMENT: "messages",
+};
+
+const MAX_VERSION_ATTEMPTS = 3;
+
+/**
+ * Uploads files to a private Cloudinary folder and records them as the next
+ * version of the given kind for the assignment. Earlier versions are kept.
+ */
+export const storeAssignmentFiles = async (
+  assignmentId: string,
+  uploadedById: string,
+  kind: AssignmentFileKind,
+  files: Express.Multer.File[]
+) => {
+  const uploads = await Promise.all(
+    files.map(async (file) => ({
+      file,
+      result: await uploadBuffer(file.buffer, {
+        folder: `${FOLDERS[kind]}/${assignmentId}`,
+        type: "private",
+        use_filename: true,
+      }),
+    }))
+  );
+
+  // Another upload of the same kind can take the version first; the unique constraint
+  // turns that into P2002 and this upload moves on to the next version
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const latest = await tx.assignmentFile.aggregate({
+          where: { assignmentId, kind },
+          _max: { version: true },
+        });
+        const version = (latest._max.version ?? 0) + 1;
+
+        await tx.assignmentFile.createMany({
+          data: uploads.map(({ file, result }, position) => ({
+            assignmentId,
+            uploadedById,
+            kind,
+            version,
+            position,
+            fileName: file.originalname,
+            mimeType: file.mimetype,
+            bytes: result.bytes,
+            publicId: result.public_id,
+            resourceType: result.resource_type,
+            deliveryType: result.type,
+            format: result.format,
+          })),
+        });
+
+        return tx.assignmentFile.findMany({
+          where: { assignmentId, kind, version },
+          orderBy: { position: "asc" },
+        });
+      });
+    } catch (error) {
+      const versionTaken = error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+      if (!versionTaken || attempt === MAX_VERSION_ATTEMPTS) throw error;
+    }
+  }
+};
+
+/**
+ * Removes files stored by `storeAssignmentFiles` that ended up unused, e.g.
+ * because the status change they came with failed. Cloudinary errors are only
+ * logged; the database rows are always deleted.
+ */
+export const discardAssignmentFiles = async (files: AssignmentFile[]) => {
+  await prisma.assignmentFile.deleteMany({ where: { id: { in: files.map((file) => file.id) } } });
+
+  await Promise.all(
+    files.map((file) =>
+      cloudinary.uploader
+        .destroy(file.publicId, { resource_type: file.resourceType, type: file.deliveryType, invalidate: true })
+        .catch((error) => console.error(`Error deleting Cloudinary asset ${file.publicId}:`, error))
+    )
+  );
+};
+
+/**
+ * Files of the newest version of a kind, or an empty list.
+ */
+export const latestAssignmentFiles = async (assignmentId: string, kind: AssignmentFileKind) => {
+  const latest = await prisma.assignmentFile.findFirst({
+    where: { assignmentId, kind },
+    orderBy: { version: "desc" },
+    select: { version: true },
+  });
+
+  if (!latest) return [];
+
+  return prisma.assignmentFile.findMany({
+    where: { assignmentId, kind, version: latest.version },
+    orderBy: { position: "asc" },
+  });
+};
+
+/**
+ * A Cloudinary download URL for a private file, valid for `ttlSeconds`.
+ */
+export const privateDownloadUrl = (file: AssignmentFile, ttlSeconds = 3600) =>
+  cloudinary.utils.private_download_url(file.publicId, file.format ?? "", {
+    resource_type: file.resourceType as ResourceType,
+    type: file.deliveryType as DeliveryType,
+    attachment: true,
+    expires_at: Math.floor(Date.now() / 1000) + ttlSeconds,
+  });
+
+export class DownloadDeniedError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "DownloadDeniedError";
+  }
+}
+
+interface Downloader {
+  id: string;
+  role: string;
+  email: string;
+}
+
+/**
+ * Admins and the assigned tutor can always download solution files; the
+ * student who owns the assignment only once it is paid.
+ */
+export const assertCanDownloadSolution = async (
+  user: Downloader,
+  assignment: Pick<Assignment, "id" | "studentId" | "assignedTutorId">
+) => {
+  if (user.role === "ADMIN") return;
+  if (assignment.assignedTutorId === user.id) return;
+
+  if (assignment.studentId !== user.id) {
+    throw new DownloadDeniedError("Assignment not found.", 404);
+  }
+
+  if (!(await isAssignmentPaid(assignment.id))) {
+    throw new DownloadDeniedError("Access denied. Payment required to download the solution.", 403);
+  }
+};
+
+/**
+ * Solution files follow the payment rules above; other files, such as revision
+ * attachments, are open to everyone on the assignment.
+ */
+export const assertCanDownloadFile = async (
+  user: Downloader,
+  file: Pick<AssignmentFile, "kind">,
+  assignment: Pick<Assignment, "id" | "studentId" | "assignedTutorId">
+) => {
+  if (file.kind === "SOLUTION") {
+    return assertCanDownloadSolution(user, assignment);
+  }
+
+  if (!canViewAssignment(user, assignment)) {
+    throw new DownloadDeniedError("Assignment not found.", 404);
+  }
+};
+
+/**
+ * A short-lived token for downloading one file, only redeemable by the same user.
+ */
+export const createDownloadToken = (fileId: string, user: Downloader) => {
+  const ttlSeconds = Math.ceil(positiveNumberFromEnv("DOWNLOAD_LINK_TTL_SECONDS", 300));
+  const token = jwt.sign({ fileId, purpose: "file-download" }, process.env.JWT_SECRET!, {
+    subject: user.id,
+    expiresIn: ttlSeconds,
+  });
+
+  return { token, expiresAt: new Date(Date.now() + ttlSeconds * 1000) };
+};
+
+/**
+ * Returns the file ID of a download token issued to `user`.
+ */
+export const verifyDownloadToken = (token: string, user: Downloader) => {
+  try {
+    const decoded = jwt.verify(token, process.env.JWT_SECRET!) as jwt.JwtPayload;
+
+    if (decoded.purpose !== "file-download" || decoded.sub !== user.id) {
+      throw new DownloadDeniedError("This download link belongs to another user.", 403);
+    }
+
+    return decoded.fileId as string;
+  } catch (error) {
+    if (error instanceof DownloadDeniedError) throw error;
+    throw new DownloadDeniedError("Download link is invalid or has expired.", 403);
+  }
+};
+
+/**
+ * Records the download in the audit log and returns a Cloudinary URL that
+ * expires after CLOUDINARY_URL_TTL_SECONDS (default 60). Legacy solutions
+ * without an AssignmentFile row only have their public URL.
+ */
+export const serveSolutionDownload = async (
+  user: Downloader,
+  assignment: Pick<Assignment, "id" | "completedFileUrl">,
+  file: AssignmentFile | null,
+  request: { ipAddress?: string; userAgent?: string }
+) => {
+  const url = file
+    ? privateDownloadUrl(file, Math.ceil(positiveNumberFromEnv("CLOUDINARY_URL_TTL_SECONDS", 60)))
+    : assignment.completedFileUrl;
+
+  if (!url) return null;
+
+  await prisma.fileDownload.create({
+    data: {
+      assignmentId: assignment.id,
+      fileId: file?.id,
+      userId: user.id,
+      userEmail: user.email,
+      ...request,
+    },
+  });
+
+  return url;
+};
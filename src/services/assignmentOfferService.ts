@@ -0,0 +1,187 @@
+import { AssignmentOffer, AssignmentOfferStatus } from "@prisma/client";
+import prisma from "../config/prisma";
+import { sendTemplatedEmail } from "../utils/emailService";
+import { positiveNumberFromEnv } from "../utils/env";
+import { TransitionActor, transitionAssignment } from "./assignmentStatusService";
+import { notifyUser } from "./notificationService";
+import { rankTutorsForAssignment } from "./tutorMatchingService";
+
+// How long a tutor has to answer an offer before it goes to the next one
+const offerTtlHours = () => positiveNumberFromEnv("OFFER_TTL_HOURS", 12);
+
+export class AutoAssignError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "AutoAssignError";
+  }
+}
+
+/**
+ * Settles the tutor's open offer for a job, if any. Returns true if there was one.
+ */
+export const closeOffer = async (assignmentId: string, tutorId: string, status: AssignmentOfferStatus) => {
+  const { count } = await prisma.assignmentOffer.updateMany({
+    where: { assignmentId, tutorId, status: "PENDING" },
+    data: { status, respondedAt: new Date() },
+  });
+  return count > 0;
+};
+
+/**
+ * Offers the job to the best-ranked tutor who has not been offered it yet. When
+ * nobody is left, auto-assign stops and the job is opened to the marketplace.
+ * `currentTutorId` is the tutor the job is expected to be with right now, if any.
+ */
+export const offerToNextTutor = async (assignmentId: string, currentTutorId: string | null, actor?: TransitionActor) => {
+  const assignment = await prisma.assignment.findUniqueOrThrow({
+    where: { id: assignmentId },
+    include: { offers: { select: { tutorId: true } } },
+  });
+
+  const [candidate] = await rankTutorsForAssignment(assignment, {
+    excludeTutorIds: assignment.offers.map((offer) => offer.tutorId),
+    specialtyOnly: true,
+  });
+
+  // Only move the job if nobody else has taken it over in the meantime
+  const guard = { autoAssign: true, assignedTutorId: currentTutorId };
+
+  if (!candidate) {
+    await transitionAssignment({
+      assignmentId,
+      to: "ASSIGNED",
+      actor,
+      data: { assignedTutorId: null, autoAssign: false },
+      guard,
+      note: "Auto-assign found no more tutors; opened to tutors",
+    });
+
+    await sendTemplatedEmail({
+      to: process.env.ADMIN_EMAIL!,
+      template: "autoAssignNoTutor",
+      variables: { title: assignment.title, assignmentId: assignment.id },
+    });
+
+    return null;
+  }
+
+  const expiresAt = new Date(Date.now() + offerTtlHours() * 3_600_000);
+  let offer: AssignmentOffer | undefined;
+
+  // The offer is created with the move so the expiry job always finds it
+  await transitionAssignment({
+    assignmentId,
+    to: "ASSIGNED",
+    actor,
+    data: { assignedTutorId: candidate.tutor.id },
+    guard,
+    note: `Auto-assign offered to tutor ${candidate.tutor.id}`,
+    alongside: async (tx) => {
+      offer = await tx.assignmentOffer.create({
+        data: {
+          assignmentId,
+          tutorId: candidate.tutor.id,
+          rank: assignment.offers.length + 1,
+          score: candidate.score,
+          expiresAt,
+        },
+      });
+    },
+  });
+
+  await notifyUser(candidate.tutor, "ASSIGNMENT_ASSIGNED", {
+    title: "New Assignment Offered to You",
+    body: `"${assignment.title}" has been offered to you. Price or reject it before ${expiresAt.toUTCString()}.`,
+    assignmentId,
+    email: {
+      template: "assignmentOffered",
+      variables: { firstName: candidate.tutor.firstName, title: assignment.title, expiresAt },
+    },
+  });
+
+  return offer!;
+};
+
+/**
+ * Turns on auto-assign for a job that is pending, rejected or open and unclaimed,
+ * and offers it to the first tutor.
+ */
+export const startAutoAssign = async (assignmentId: string, actor: TransitionActor) => {
+  const assignment = await prisma.assignment.findUnique({ where: { id: assignmentId } });
+
+  if (!assignment) {
+    throw new AutoAssignError("Assignment not found.", 404);
+  }
+
+  const startable =
+    assignment.status === "PENDING" ||
+    assignment.status === "REJECTED" ||
+    (assignment.status === "ASSIGNED" && !assignment.assignedTutorId);
+
+  if (assignment.autoAssign || !startable) {
+    throw new AutoAssignError("Auto-assign can only start on a pending, rejected or unclaimed assignment.", 409);
+  }
+
+  await prisma.assignment.update({ where: { id: assignmentId }, data: { autoAssign: true } });
+
+  try {
+    return await offerToNextTutor(assignmentId, null, actor);
+  } catch (error) {
+    await prisma.assignment.update({ where: { id: assignmentId }, data: { autoAssign: false } });
+    throw error;
+  }
+};
+
+/**
+ * Stops auto-assign, e.g. when an admin assigns the job by hand.
+ */
+export const cancelAutoAssign = async (assignmentId: string) => {
+  await prisma.$transaction([
+    prisma.assignment.update({ where: { id: assignmentId }, data: { autoAssign: false } }),
+    prisma.assignmentOffer.updateMany({
+      where: { assignmentId, status: "PENDING" },
+      data: { status: "CANCELLED", respondedAt: new Date() },
+    }),
+  ]);
+};
+
+/**
+ * Records a tutor turning down an offered job and, in auto-assign mode, offers
+ * it to the next tutor. Called after the job has moved to REJECTED.
+ */
+export const handleOfferDeclined = async (assignmentId: string, tutorId: string) => {
+  const declined = await closeOffer(assignmentId, tutorId, "DECLINED");
+  if (!declined) return null;
+
+  return offerToNextTutor(assignmentId, null);
+};
+
+/**
+ * Expires offers nobody answered in time and moves each job on to the next tutor.
+ */
+export const expireAssignmentOffers = async (now: Date = new Date()) => {
+  const offers = await prisma.assignmentOffer.findMany({
+    where: { status: "PENDING", expiresAt: { lte: now } },
+    include: { Assignment: true },
+  });
+
+  let expired = 0;
+
+  for (const offer of offers) {
+    if (!(await closeOffer(offer.assignmentId, offer.tutorId, "EXPIRED"))) continue;
+    expired++;
+
+    const { Assignment: assignment } = offer;
+    if (!assignment.autoAssign || assignment.status !== "ASSIGNED" || assignment.assignedTutorId !== offer.tutorId) {
+      continue;
+    }
+
+    try {
+      await offerToNextTutor(assignment.id, offer.tutorId);
+    } catch (error) {
+      console.error(`Error re-offering assignment ${assignment.id}:`, error);
+    }
+  }
+
+  return expired;
+};
@@ -0,0 +1,200 @@
+import { Assignment, AssignmentStatus, Prisma, Role } from "@prisma/client";
+import prisma from "../config/prisma";
+import { publish, roleRoom, specialtyRoom, userRoom } from "./realtimeService";
+import { publicUserSelect } from "../utils/publicUser";
+
+/**
+ * Allowed assignment status moves. Every status change goes through
+ * `transitionAssignment`, which rejects anything not listed here.
+ */
+export const ASSIGNMENT_TRANSITIONS: Record<AssignmentStatus, AssignmentStatus[]> = {
+  PENDING: ["ASSIGNED", "CANCELLED"],
+  // ASSIGNED -> ASSIGNED covers a tutor claiming an open job and an admin handing it to a different tutor
+  ASSIGNED: ["ASSIGNED", "QUOTED", "REJECTED", "CANCELLED"],
+  // QUOTED -> QUOTED is a revised quote; QUOTED -> ASSIGNED a declined or expired one, and
+  // QUOTED -> REJECTED the tutor withdrawing. An accepted quote starts work, or waits for
+  // payment on escrow jobs
+  QUOTED: ["QUOTED", "IN_PROGRESS", "AWAITING_PAYMENT", "ASSIGNED", "REJECTED", "CANCELLED"],
+  AWAITING_PAYMENT: ["IN_PROGRESS", "CANCELLED"],
+  IN_PROGRESS: ["COMPLETED", "CANCELLED"],
+  // The student accepts the solution or sends it back; escrow payments are released on acceptance.
+  // Until then an admin can still cancel and refund it
+  COMPLETED: ["ACCEPTED", "REVISION_REQUESTED", "CANCELLED"],
+  REVISION_REQUESTED: ["COMPLETED", "CANCELLED"],
+  ACCEPTED: [],
+  // A tutor-rejected job goes back to the admin, who can reopen or reassign it
+  REJECTED: ["ASSIGNED", "CANCELLED"],
+  CANCELLED: [],
+};
+
+// Statuses in which work is still owed to the student
+export const OPEN_ASSIGNMENT_STATUSES: AssignmentStatus[] = [
+  "PENDING",
+  "ASSIGNED",
+  "QUOTED",
+  "AWAITING_PAYMENT",
+  "IN_PROGRESS",
+  "REVISION_REQUESTED",
+];
+
+// Statuses in which the tutor has delivered the solution
+export const DELIVERED_ASSIGNMENT_STATUSES: AssignmentStatus[] = ["COMPLETED", "ACCEPTED"];
+
+export class InvalidTransitionError extends Error {
+  constructor(public from: AssignmentStatus, public to: AssignmentStatus) {
+    super(`Assignment cannot move from ${from} to ${to}.`);
+    this.name = "InvalidTransitionError";
+  }
+}
+
+/**
+ * The assignment no longer matched the transition's `guard` when it was written,
+ * e.g. another tutor claimed it first.
+ */
+export class AssignmentConflictError extends Error {
+  constructor(message = "Assignment was changed by someone else. Please reload and try again.") {
+    super(message);
+    this.name = "AssignmentConflictError";
+  }
+}
+
+export class AssignmentNotFoundError extends Error {
+  constructor() {
+    super("Assignment not found.");
+    this.name = "AssignmentNotFoundError";
+  }
+}
+
+export interface TransitionActor {
+  id?: string;
+  role: string;
+}
+
+interface TransitionOptions {
+  assignmentId: string;
+  to: AssignmentStatus;
+  actor?: TransitionActor;
+  data?: Omit<Prisma.AssignmentUncheckedUpdateManyInput, "status">;
+  // Extra conditions the row must still meet when it is written
+  guard?: Prisma.AssignmentWhereInput;
+  note?: string;
+  // Other writes that must commit or roll back together with the status change
+  alongside?: (tx: Prisma.TransactionClient) => Promise<void>;
+}
+
+const actorRole = (actor?: TransitionActor): Role | undefined =>
+  actor && (Object.values(Role) as string[]).includes(actor.role) ? (actor.role as Role) : undefined;
+
+export const canTransition = (from: AssignmentStatus, to: AssignmentStatus) =>
+  ASSIGNMENT_TRANSITIONS[from].includes(to);
+
+/**
+ * Parses a status query value, accepting both enum names ("IN_PROGRESS")
+ * and the legacy display strings ("In Progress").
+ */
+export const parseAssignmentStatus = (value: unknown): AssignmentStatus | undefined => {
+  if (typeof value !== "string") return undefined;
+
+  const normalized = value.trim().toUpperCase().replace(/\s+/g, "_");
+  return (Object.values(AssignmentStatus) as string[]).includes(normalized)
+    ? (normalized as AssignmentStatus)
+    : undefined;
+};
+
+/**
+ * Tells the people on the assignment about a committed status change, including
+ * a tutor it was just taken from. A job opened to tutors is also announced to
+ * everyone in its specialty.
+ */
+const publishTransition = (
+  from: Pick<Assignment, "status" | "assignedTutorId">,
+  assignment: Pick<Assignment, "id" | "title" | "status" | "studentId" | "assignedTutorId" | "programSpecialty" | "dueAt">
+) => {
+  const tutorIds = [from.assignedTutorId, assignment.assignedTutorId].filter((id): id is string => Boolean(id));
+
+  publish([userRoom(assignment.studentId), ...tutorIds.map(userRoom), roleRoom("ADMIN")], {
+    type: "assignment.status",
+    data: {
+      assignmentId: assignment.id,
+      title: assignment.title,
+      from: from.status,
+      to: assignment.status,
+      changedAt: new Date().toISOString(),
+    },
+  });
+
+  if (assignment.status === "ASSIGNED" && !assignment.assignedTutorId) {
+    publish([specialtyRoom(assignment.programSpecialty), roleRoom("ADMIN")], {
+      type: "marketplace.job",
+      data: {
+        assignmentId: assignment.id,
+        title: assignment.title,
+        programSpecialty: assignment.programSpecialty,
+        dueAt: assignment.dueAt?.toISOString() ?? null,
+      },
+    });
+  }
+};
+
+/**
+ * Moves an assignment to a new status, applying any extra column updates and
+ * writing a history row in the same transaction. The update is conditional on
+ * the status read at the start (and on `guard`), so two concurrent moves cannot
+ * both succeed. `alongside` runs inside the same transaction.
+ */
+export const transitionAssignment = async ({
+  assignmentId,
+  to,
+  actor,
+  data = {},
+  guard,
+  note,
+  alongside,
+}: TransitionOptions) => {
+  const { from, assignment } = await prisma.$transaction(async (tx) => {
+    const current = await tx.assignment.findUnique({ where: { id: assignmentId } });
+
+    if (!current) {
+      throw new AssignmentNotFoundError();
+    }
+
+    if (!canTransition(current.status, to)) {
+      throw new InvalidTransitionError(current.status, to);
+    }
+
+    const { count } = await tx.assignment.updateMany({
+      where: { id: assignmentId, status: current.status, AND: guard ? [guard] : [] },
+      data: { ...data, status: to },
+    });
+
+    if (count === 0) {
+      // Someone else changed the assignment between our read and write
+      throw guard ? new AssignmentConflictError() : new InvalidTransitionError(current.status, to);
+    }
+
+    await tx.assignmentStatusHistory.create({
+      data: {
+        assignmentId,
+        fromStatus: current.status,
+        toStatus: to,
+        changedById: actor?.id,
+        changedByRole: actorRole(actor),
+        note,
+      },
+    });
+
+    await alongside?.(tx);
+
+    const assignment = await tx.assignment.findUniqueOrThrow({
+      where: { id: assignmentId },
+      include: { Student: { select: publicUserSelect }, Tutor: { select: publicUserSelect } },
+    });
+
+    return { from: current, assignment };
+  });
+
+  publishTransition(from, assignment);
+
+  return assignment;
+};
+
@@ -0,0 +1,306 @@
+import { DisputeOutcome, DisputeReason, DisputeStatus, Prisma } from "@prisma/client";
+import prisma from "../config/prisma";
+import { storeAssignmentFiles } from "./assignmentFileService";
+import { isAssignmentPaid } from "./paymentService";
+import { holdPayout, releaseHeldPayout } from "./payoutService";
+import { RefundAttempt, issueRefunds, refundableAmount } from "./refundService";
+import { publicUserSelect } from "../utils/publicUser";
+
+export class DisputeError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "DisputeError";
+  }
+}
+
+// A dispute stays unresolved, keeping the payout held, until all its refunds have gone out
+const UNRESOLVED_DISPUTE_STATUSES: DisputeStatus[] = ["OPEN", "REFUNDING", "REFUND_FAILED"];
+
+// A dispute REFUNDING for this long was left behind by a request that died, and can be retried
+const STALE_REFUNDING_MS = 15 * 60_000;
+
+// Evidence rows come with the files uploaded alongside them
+export const disputeEvidenceInclude = {
+  evidence: {
+    orderBy: { createdAt: "asc" },
+    include: { SubmittedBy: { select: { id: true, firstName: true, lastName: true, role: true } } },
+  },
+} satisfies Prisma.DisputeInclude;
+
+/**
+ * Adds the DISPUTE_EVIDENCE files to each evidence row of a dispute loaded
+ * with `disputeEvidenceInclude`.
+ */
+export const withEvidenceFiles = async <
+  T extends { assignmentId: string; evidence: { fileVersion: number | null }[] }
+>(
+  dispute: T
+) => {
+  const files = await prisma.assignmentFile.findMany({
+    where: { assignmentId: dispute.assignmentId, kind: "DISPUTE_EVIDENCE" },
+    orderBy: { createdAt: "asc" },
+    select: { id: true, version: true, fileName: true, mimeType: true, bytes: true, createdAt: true },
+  });
+
+  return {
+    ...dispute,
+    evidence: dispute.evidence.map((entry) => ({
+      ...entry,
+      files: files.filter((file) => file.version === entry.fileVersion),
+    })),
+  };
+};
+
+const storeEvidence = async (
+  disputeId: string,
+  assignmentId: string,
+  submittedById: string,
+  { note, files }: { note?: string; files: Express.Multer.File[] }
+) => {
+  const stored = files.length ? await storeAssignmentFiles(assignmentId, submittedById, "DISPUTE_EVIDENCE", files) : [];
+
+  return prisma.disputeEvidence.create({
+    data: { disputeId, submittedById, note, fileVersion: stored[0]?.version },
+  });
+};
+
+/**
+ * Opens a dispute on a paid assignment and holds the tutor's payout until an
+ * admin resolves it. An assignment has at most one unresolved dispute.
+ */
+export const openDispute = async (
+  assignmentId: string,
+  studentId: string,
+  { reason, description, files }: { reason: DisputeReason; description: string; files: Express.Multer.File[] }
+) => {
+  const assignment = await prisma.assignment.findUnique({ where: { id: assignmentId } });
+
+  if (!assignment || assignment.studentId !== studentId) {
+    throw new DisputeError("Assignment not found.", 404);
+  }
+
+  if (!(await isAssignmentPaid(assignmentId))) {
+    throw new DisputeError("Only paid assignments can be disputed.", 400);
+  }
+
+  if (await prisma.dispute.count({ where: { assignmentId, status: { in: UNRESOLVED_DISPUTE_STATUSES } } })) {
+    throw new DisputeError("This assignment already has an open dispute.", 409);
+  }
+
+  const stored = files.length ? await storeAssignmentFiles(assignmentId, studentId, "DISPUTE_EVIDENCE", files) : [];
+
+  const dispute = await prisma.$transaction(async (tx) => {
+    // Checked again here in case another request opened one during the upload
+    if (await tx.dispute.count({ where: { assignmentId, status: { in: UNRESOLVED_DISPUTE_STATUSES } } })) {
+      throw new DisputeError("This assignment already has an open dispute.", 409);
+    }
+
+    return tx.dispute.create({
+      data: {
+        assignmentId,
+        openedById: studentId,
+        reason,
+        description,
+        ...(stored.length && {
+          evidence: { create: { submittedById: studentId, fileVersion: stored[0].version } },
+        }),
+      },
+    });
+  });
+
+  const payout = await holdPayout(assignmentId);
+
+  return { dispute, payout };
+};
+
+/**
+ * Adds a statement and/or files to an open dispute. The student, the assigned
+ * tutor and admins can submit evidence.
+ */
+export const addDisputeEvidence = async (
+  disputeId: string,
+  user: { id: string; role: string },
+  evidence: { note?: string; files: Express.Multer.File[] }
+) => {
+  const dispute = await prisma.dispute.findUnique({ where: { id: disputeId }, include: { Assignment: true } });
+
+  const involved =
+    dispute &&
+    (user.role === "ADMIN" ||
+      dispute.Assignment.studentId === user.id ||
+      dispute.Assignment.assignedTutorId === user.id);
+
+  if (!dispute || !involved) {
+    throw new DisputeError("Dispute not found.", 404);
+  }
+
+  if (dispute.status !== "OPEN") {
+    throw new DisputeError("This dispute has already been resolved.", 409);
+  }
+
+  if (!evidence.note && evidence.files.length === 0) {
+    throw new DisputeError("Add a note or at least one file.", 400);
+  }
+
+  return storeEvidence(dispute.id, dispute.assignmentId, user.id, evidence);
+};
+
+const resolvedDisputeInclude = {
+  Assignment: { include: { Student: { select: publicUserSelect }, Tutor: { select: publicUserSelect } } },
+} satisfies Prisma.DisputeInclude;
+
+/**
+ * Issues the refunds of a dispute claimed as REFUNDING, counting each one that
+ * goes out in `issuedRefundAmount`. Only once every refund has gone out is the
+ * dispute RESOLVED and the held payout released; refunds Paystack rejected
+ * leave it REFUND_FAILED, payout still held, for `retryDisputeRefunds`. If the
+ * refunds cannot be attempted at all the claim goes back to `claimedFrom`.
+ */
+const issueDisputeRefunds = async (
+  dispute: { id: string; assignmentId: string; refundAmount: number | null },
+  claimedFrom: DisputeStatus,
+  issue: (onIssued: (refund: RefundAttempt) => Promise<void>) => Promise<RefundAttempt[]>
+) => {
+  const countIssued = async (refund: RefundAttempt) => {
+    await prisma.dispute.update({
+      where: { id: dispute.id },
+      data: { issuedRefundAmount: { increment: refund.amount } },
+    });
+  };
+
+  let refunds: RefundAttempt[];
+  try {
+    refunds = await issue(countIssued);
+  } catch (error) {
+    await prisma.dispute.update({ where: { id: dispute.id }, data: { status: claimedFrom, refundsStartedAt: null } });
+    throw error;
+  }
+
+  const failed = refunds.filter((refund) => refund.status === "FAILED");
+
+  if (failed.length) {
+    const unresolved = await prisma.dispute.update({
+      where: { id: dispute.id },
+      data: { status: "REFUND_FAILED", failedRefunds: failed },
+      include: resolvedDisputeInclude,
+    });
+    const payout = await prisma.payout.findUnique({ where: { assignmentId: dispute.assignmentId } });
+    return { dispute: unresolved, refunds, payout };
+  }
+
+  const resolved = await prisma.dispute.update({
+    where: { id: dispute.id },
+    data: { status: "RESOLVED", failedRefunds: Prisma.DbNull, resolvedAt: new Date() },
+    include: resolvedDisputeInclude,
+  });
+  const payout = await releaseHeldPayout(dispute.assignmentId, dispute.refundAmount ?? 0);
+
+  return { dispute: resolved, refunds, payout };
+};
+
+/**
+ * Records an admin's decision on a dispute and makes its refunds through
+ * Paystack. Once they have all gone out the dispute is RESOLVED and the held
+ * payout is cancelled, reduced by the refund, or released unchanged.
+ * `refundAmount` (pesewas) is only used for PARTIAL_REFUND.
+ */
+export const resolveDispute = async (
+  disputeId: string,
+  adminId: string,
+  { outcome, refundAmount, note }: { outcome: DisputeOutcome; refundAmount?: number; note?: string }
+) => {
+  const dispute = await prisma.dispute.findUnique({ where: { id: disputeId } });
+
+  if (!dispute) {
+    throw new DisputeError("Dispute not found.", 404);
+  }
+
+  if (dispute.status !== "OPEN") {
+    throw new DisputeError("This dispute has already been resolved.", 409);
+  }
+
+  const refundable = await refundableAmount(dispute.assignmentId);
+
+  let refund = 0;
+  if (outcome === "FULL_REFUND") {
+    refund = refundable;
+  } else if (outcome === "PARTIAL_REFUND") {
+    if (!refundAmount || refundAmount <= 0 || refundAmount >= refundable) {
+      throw new DisputeError(
+        `A partial refund must be more than 0 and less than GHS ${(refundable / 100).toFixed(2)}.`,
+        400
+      );
+    }
+    refund = refundAmount;
+  }
+
+  // Claim the dispute so two admins cannot refund it twice
+  const { count } = await prisma.dispute.updateMany({
+    where: { id: disputeId, status: "OPEN" },
+    data: {
+      status: "REFUNDING",
+      outcome,
+      refundAmount: refund,
+      resolutionNote: note,
+      resolvedById: adminId,
+      refundsStartedAt: new Date(),
+    },
+  });
+
+  if (count === 0) {
+    throw new DisputeError("This dispute has already been resolved.", 409);
+  }
+
+  return issueDisputeRefunds({ ...dispute, refundAmount: refund }, "OPEN", async (onIssued) =>
+    refund > 0 ? issueRefunds(dispute.assignmentId, { amount: refund, onIssued }) : []
+  );
+};
+
+/**
+ * Tries again the refunds Paystack rejected when a dispute was resolved,
+ * finishing the resolution if they go through now. A dispute left REFUNDING by
+ * a request that died part way has the rest of its refund issued.
+ */
+export const retryDisputeRefunds = async (disputeId: string) => {
+  const dispute = await prisma.dispute.findUnique({ where: { id: disputeId } });
+
+  if (!dispute) {
+    throw new DisputeError("Dispute not found.", 404);
+  }
+
+  const { count } = await prisma.dispute.updateMany({
+    where: {
+      id: disputeId,
+      OR: [
+        { status: "REFUND_FAILED" },
+        {
+          status: "REFUNDING",
+          OR: [{ refundsStartedAt: null }, { refundsStartedAt: { lt: new Date(Date.now() - STALE_REFUNDING_MS) } }],
+        },
+      ],
+    },
+    data: { status: "REFUNDING", refundsStartedAt: new Date() },
+  });
+
+  if (count === 0) {
+    throw new DisputeError("This dispute has no failed refunds to retry, or its refunds are still being made.", 409);
+  }
+
+  if (dispute.status === "REFUNDING") {
+    const outstanding = (dispute.refundAmount ?? 0) - dispute.issuedRefundAmount;
+
+    return issueDisputeRefunds(dispute, "REFUNDING", async (onIssued) =>
+      outstanding > 0 ? issueRefunds(dispute.assignmentId, { amount: outstanding, onIssued }) : []
+    );
+  }
+
+  const failed = (dispute.failedRefunds ?? []) as RefundAttempt[];
+
+  return issueDisputeRefunds(dispute, "REFUND_FAILED", async (onIssued) => {
+    const refunds: RefundAttempt[] = [];
+    for (const { reference, amount } of failed) {
+      refunds.push(...(await issueRefunds(dispute.assignmentId, { reference, amount, onIssued })));
+    }
+    return refunds;
+  });
+};
@@ -0,0 +1,111 @@
+import { EmailOutbox } from "@prisma/client";
+import prisma from "../config/prisma";
+import { positiveNumberFromEnv } from "../utils/env";
+import { OutgoingEmail, getMailTransport } from "../utils/mailTransport";
+
+// While an email is being sent its next attempt is pushed this far out, so the outbox job leaves it alone
+const SEND_LEASE_MS = 5 * 60_000;
+const MAX_BACKOFF_MS = 6 * 3_600_000;
+
+const maxAttempts = () => positiveNumberFromEnv("EMAIL_MAX_ATTEMPTS", 8);
+
+// 1, 2, 4, 8 ... minutes after each failure, capped at six hours
+const backoffMs = (attempts: number) => Math.min(60_000 * 2 ** (attempts - 1), MAX_BACKOFF_MS);
+
+// Bodies are only kept until the email is sent or given up on
+const CLEARED_BODY = { text: null, html: null };
+
+/**
+ * Hands an outbox email to the mail transport and records the outcome. A
+ * failure schedules a retry, or marks the email FAILED after EMAIL_MAX_ATTEMPTS
+ * (default 8) or when its body is not stored for retries. Returns whether it
+ * was delivered.
+ */
+const attemptDelivery = async (
+  email: Pick<EmailOutbox, "id" | "attempts"> & OutgoingEmail,
+  { retry = true }: { retry?: boolean } = {}
+) => {
+  const attempts = email.attempts + 1;
+
+  try {
+    await getMailTransport().send(email);
+
+    await prisma.emailOutbox.update({
+      where: { id: email.id },
+      data: { status: "SENT", attempts, sentAt: new Date(), lastError: null, ...CLEARED_BODY },
+    });
+    console.log(`📩 Email sent to ${email.to}`);
+    return true;
+  } catch (error) {
+    const gaveUp = !retry || attempts >= maxAttempts();
+    console.error(`❌ Error sending email ${email.id} (attempt ${attempts}):`, error);
+
+    await prisma.emailOutbox.update({
+      where: { id: email.id },
+      data: {
+        status: gaveUp ? "FAILED" : "PENDING",
+        attempts,
+        lastError: error instanceof Error ? error.message : String(error),
+        nextAttemptAt: new Date(Date.now() + backoffMs(attempts)),
+        ...(gaveUp && CLEARED_BODY),
+      },
+    });
+    return false;
+  }
+};
+
+/**
+ * Stores an email in the outbox and tries to send it straight away. Returns
+ * whether that first attempt succeeded; if not, the outbox job retries it.
+ * A `sensitive` email, such as one with a password reset link, is recorded
+ * without its body and only tried once.
+ */
+export const queueEmail = async (
+  email: OutgoingEmail,
+  meta: { template?: string; locale?: string; sensitive?: boolean } = {}
+) => {
+  const { sensitive = false, ...labels } = meta;
+  const queued = await prisma.emailOutbox.create({
+    data: {
+      ...email,
+      ...labels,
+      ...(sensitive && CLEARED_BODY),
+      nextAttemptAt: new Date(Date.now() + SEND_LEASE_MS),
+    },
+  });
+
+  return attemptDelivery({ ...queued, ...email }, { retry: !sensitive });
+};
+
+/**
+ * Retries outbox emails whose next attempt is due, oldest first. Each email is
+ * claimed before sending so overlapping runs cannot send it twice. Returns the
+ * number delivered.
+ */
+export const processEmailOutbox = async (now: Date = new Date(), batchSize = 50) => {
+  const due = await prisma.emailOutbox.findMany({
+    where: { status: "PENDING", nextAttemptAt: { lte: now } },
+    orderBy: { nextAttemptAt: "asc" },
+    take: batchSize,
+  });
+
+  let delivered = 0;
+
+  for (const email of due) {
+    const { count } = await prisma.emailOutbox.updateMany({
+      where: { id: email.id, status: "PENDING", nextAttemptAt: email.nextAttemptAt },
+      data: { nextAttemptAt: new Date(now.getTime() + SEND_LEASE_MS) },
+    });
+    if (count === 0) continue;
+
+    if (email.text === null) {
+      // Nothing to send; only sensitive emails are stored without a body, and those are never retried
+      await prisma.emailOutbox.update({ where: { id: email.id }, data: { status: "FAILED", lastError: "No body stored" } });
+      continue;
+    }
+
+    if (await attemptDelivery({ ...email, text: email.text })) delivered++;
+  }
+
+  return delivered;
+};
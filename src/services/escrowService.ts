@@ -0,0 +1,164 @@
+import { AssignmentStatus } from "@prisma/client";
+import prisma from "../config/prisma";
+import { sendTemplatedEmail } from "../utils/emailService";
+import { positiveNumberFromEnv } from "../utils/env";
+import {
+  AssignmentConflictError,
+  InvalidTransitionError,
+  TransitionActor,
+  transitionAssignment,
+} from "./assignmentStatusService";
+import { cancelAutoAssign } from "./assignmentOfferService";
+import { queuePayoutIfEligible } from "./payoutService";
+import { issueRefunds } from "./refundService";
+import { supersedePendingQuotes } from "./quoteService";
+
+// How long a student has to review a delivered solution before it is accepted for them
+const autoAcceptHours = () => positiveNumberFromEnv("ESCROW_AUTO_ACCEPT_HOURS", 72);
+
+// Students can only walk away before the tutor starts working; admins can also cancel work in progress
+const STUDENT_CANCELLABLE_STATUSES: AssignmentStatus[] = [
+  "PENDING",
+  "ASSIGNED",
+  "QUOTED",
+  "AWAITING_PAYMENT",
+  "REJECTED",
+];
+
+export class EscrowError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "EscrowError";
+  }
+}
+
+export const autoAcceptDeadline = (from: Date = new Date()) => new Date(from.getTime() + autoAcceptHours() * 3_600_000);
+
+/**
+ * Called once a payment has settled. Starts work on an escrow job that was
+ * waiting for it, and refunds a payment that arrived after the job was cancelled.
+ */
+export const holdEscrowPayment = async (assignmentId: string, reference: string) => {
+  const assignment = await prisma.assignment.findUniqueOrThrow({ where: { id: assignmentId } });
+
+  if (assignment.status === "CANCELLED") {
+    return { started: false, refunds: await issueRefunds(assignmentId, { reference }) };
+  }
+
+  if (assignment.paymentMode !== "ESCROW" || assignment.status !== "AWAITING_PAYMENT") {
+    return { started: false, refunds: [] };
+  }
+
+  try {
+    const updated = await transitionAssignment({
+      assignmentId,
+      to: "IN_PROGRESS",
+      guard: { paymentMode: "ESCROW" },
+      note: "Payment received and held in escrow",
+    });
+
+    if (updated.Tutor) {
+      await sendTemplatedEmail({
+        to: updated.Tutor.email,
+        locale: updated.Tutor.locale,
+        template: "escrowPaymentReceived",
+        variables: { firstName: updated.Tutor.firstName, title: updated.title },
+      });
+    }
+
+    return { started: true, refunds: [] };
+  } catch (error) {
+    // A concurrent settlement of the same payment already started the work
+    if (error instanceof AssignmentConflictError || error instanceof InvalidTransitionError) {
+      return { started: false, refunds: [] };
+    }
+    throw error;
+  }
+};
+
+/**
+ * Accepts a delivered solution, closing the assignment and releasing whatever
+ * the student has paid to the tutor's payout balance. Without an actor the
+ * acceptance is automatic.
+ */
+export const acceptSolution = async (assignmentId: string, actor?: TransitionActor) => {
+  const assignment = await prisma.assignment.findUnique({ where: { id: assignmentId } });
+
+  if (!assignment) {
+    throw new EscrowError("Assignment not found.", 404);
+  }
+
+  const escrow = assignment.paymentMode === "ESCROW";
+
+  const updated = await transitionAssignment({
+    assignmentId,
+    to: "ACCEPTED",
+    actor,
+    data: { acceptedAt: new Date(), autoAcceptAt: null },
+    // An automatic acceptance must not overtake a revision that pushed the deadline back
+    guard: actor ? undefined : { autoAcceptAt: { lte: new Date() } },
+    note: `Solution accepted${actor ? "" : " automatically"}${escrow ? "; payment released" : ""}`,
+  });
+
+  const payout = await queuePayoutIfEligible(assignmentId);
+
+  return { assignment: updated, payout, escrow };
+};
+
+/**
+ * Accepts every delivered solution whose review window has passed, whatever
+ * the payment mode. Returns the accepted assignments.
+ */
+export const autoAcceptDeliveredSolutions = async (now: Date = new Date()) => {
+  const due = await prisma.assignment.findMany({
+    where: { status: "COMPLETED", autoAcceptAt: { lte: now } },
+    select: { id: true },
+  });
+
+  const accepted = [];
+
+  for (const { id } of due) {
+    try {
+      accepted.push(await acceptSolution(id));
+    } catch (error) {
+      // The student accepted it, or a revision reset the window, in the meantime
+      if (error instanceof AssignmentConflictError || error instanceof InvalidTransitionError) continue;
+      console.error(`Error auto-accepting assignment ${id}:`, error);
+    }
+  }
+
+  return accepted;
+};
+
+/**
+ * Cancels an assignment, withdraws any open offers and quotes, and refunds
+ * whatever the student has paid. Students can only cancel before work starts.
+ */
+export const cancelAndRefundAssignment = async (assignmentId: string, actor: TransitionActor, reason?: string) => {
+  const assignment = await prisma.assignment.findUnique({ where: { id: assignmentId } });
+
+  if (!assignment) {
+    throw new EscrowError("Assignment not found.", 404);
+  }
+
+  if (actor.role !== "ADMIN" && !STUDENT_CANCELLABLE_STATUSES.includes(assignment.status)) {
+    throw new EscrowError("Work on this assignment has started. Please contact support to cancel it.", 409);
+  }
+
+  const cancelled = await transitionAssignment({
+    assignmentId,
+    to: "CANCELLED",
+    actor,
+    data: { cancelledAt: new Date(), cancellationReason: reason, autoAssign: false, autoAcceptAt: null },
+    // Work may have started since the check above
+    guard: actor.role !== "ADMIN" ? { status: { in: STUDENT_CANCELLABLE_STATUSES } } : undefined,
+    note: reason ? `Cancelled: ${reason}` : "Cancelled",
+  });
+
+  await cancelAutoAssign(assignmentId);
+  await supersedePendingQuotes(assignmentId);
+
+  const refunds = await issueRefunds(assignmentId);
+
+  return { assignment: cancelled, refunds };
+};
@@ -0,0 +1,230 @@
+import { Assignment } from "@prisma/client";
+import prisma from "../config/prisma";
+import { sendTemplatedEmail } from "../utils/emailService";
+import { storeAssignmentFiles } from "./assignmentFileService";
+import { publish, roleRoom, userRoom } from "./realtimeService";
+
+export const MAX_MESSAGE_LENGTH = 5000;
+
+export class MessageError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "MessageError";
+  }
+}
+
+const senderSelect = { id: true, firstName: true, lastName: true, role: true } as const;
+
+// Long messages are cut short in emails; the full text is in the app
+const excerpt = (body: string, length = 300) => (body.length > length ? `${body.slice(0, length)}…` : body);
+
+/**
+ * Emails the student and assigned tutor about a new message, except whoever
+ * sent it. Recipients in digest mode get it in their next digest instead.
+ */
+const notifyParticipants = async (
+  assignment: Pick<Assignment, "id" | "title" | "studentId" | "assignedTutorId">,
+  message: { id: string; body: string },
+  sender: { id: string; firstName: string; lastName: string }
+) => {
+  const recipientIds = [assignment.studentId, assignment.assignedTutorId].filter(
+    (id): id is string => Boolean(id) && id !== sender.id
+  );
+
+  const recipients = await prisma.user.findMany({
+    where: { id: { in: recipientIds } },
+    select: { id: true, email: true, firstName: true, locale: true, messageEmails: true },
+  });
+
+  for (const recipient of recipients) {
+    if (recipient.messageEmails === "DIGEST") {
+      await prisma.messageDigestEntry.create({ data: { userId: recipient.id, messageId: message.id } });
+    } else if (recipient.messageEmails === "IMMEDIATE") {
+      await sendTemplatedEmail({
+        to: recipient.email,
+        locale: recipient.locale,
+        template: "newMessage",
+        variables: {
+          firstName: recipient.firstName,
+          title: assignment.title,
+          senderName: `${sender.firstName} ${sender.lastName}`,
+          excerpt: excerpt(message.body),
+        },
+      });
+    }
+  }
+};
+
+/**
+ * Posts a message, with optional attachments, to an assignment's thread and
+ * notifies the other participants.
+ */
+export const postMessage = async (
+  assignment: Pick<Assignment, "id" | "title" | "studentId" | "assignedTutorId">,
+  senderId: string,
+  { body, files }: { body: string; files: Express.Multer.File[] }
+) => {
+  if (!body && files.length === 0) {
+    throw new MessageError("A message needs text or at least one attachment.", 400);
+  }
+
+  if (body.length > MAX_MESSAGE_LENGTH) {
+    throw new MessageError(`Messages are limited to ${MAX_MESSAGE_LENGTH} characters.`, 400);
+  }
+
+  const attachments = files.length
+    ? await storeAssignmentFiles(assignment.id, senderId, "MESSAGE_ATTACHMENT", files)
+    : [];
+
+  const message = await prisma.assignmentMessage.create({
+    data: {
+      assignmentId: assignment.id,
+      senderId,
+      body,
+      attachmentVersion: attachments[0]?.version,
+      // The sender has obviously read their own message
+      receipts: { create: { userId: senderId } },
+    },
+    include: { Sender: { select: senderSelect }, receipts: true },
+  });
+
+  const participantIds = [assignment.studentId, assignment.assignedTutorId].filter((id): id is string => Boolean(id));
+  publish([...participantIds.map(userRoom), roleRoom("ADMIN")], {
+    type: "message.created",
+    data: {
+      assignmentId: assignment.id,
+      messageId: message.id,
+      senderId,
+      excerpt: excerpt(body, 140),
+      createdAt: message.createdAt.toISOString(),
+    },
+  });
+
+  await notifyParticipants(assignment, message, message.Sender);
+
+  return { ...message, attachments };
+};
+
+/**
+ * A page of an assignment's messages, oldest first, with attachments and read
+ * receipts. Messages older than `before` (a message ID) are returned when given.
+ * Everything returned is marked as read by `readerId`.
+ */
+export const listMessages = async (
+  assignmentId: string,
+  readerId: string,
+  { before, limit }: { before?: string; limit: number }
+) => {
+  const cursor = before
+    ? await prisma.assignmentMessage.findFirst({ where: { id: before, assignmentId }, select: { createdAt: true } })
+    : null;
+
+  if (before && !cursor) {
+    throw new MessageError("Message not found.", 404);
+  }
+
+  const page = await prisma.assignmentMessage.findMany({
+    where: { assignmentId, ...(cursor && { createdAt: { lt: cursor.createdAt } }) },
+    orderBy: { createdAt: "desc" },
+    take: limit + 1,
+    include: {
+      Sender: { select: senderSelect },
+      receipts: { select: { userId: true, readAt: true } },
+    },
+  });
+
+  const hasMore = page.length > limit;
+  const messages = page.slice(0, limit).reverse();
+
+  const unread = messages.filter((message) => !message.receipts.some((receipt) => receipt.userId === readerId));
+  if (unread.length) {
+    await prisma.messageReceipt.createMany({
+      data: unread.map((message) => ({ messageId: message.id, userId: readerId })),
+      skipDuplicates: true,
+    });
+  }
+
+  const attachments = await prisma.assignmentFile.findMany({
+    where: {
+      assignmentId,
+      kind: "MESSAGE_ATTACHMENT",
+      version: { in: messages.map((message) => message.attachmentVersion).filter((v): v is number => v !== null) },
+    },
+    orderBy: { createdAt: "asc" },
+    select: { id: true, version: true, fileName: true, mimeType: true, bytes: true, createdAt: true },
+  });
+
+  return {
+    messages: messages.map((message) => ({
+      ...message,
+      attachments: attachments.filter((file) => file.version === message.attachmentVersion),
+    })),
+    hasMore,
+  };
+};
+
+/**
+ * Messages in the assignment's thread, sent by someone else, that the user has not read.
+ */
+export const countUnreadMessages = async (assignmentId: string, userId: string) =>
+  prisma.assignmentMessage.count({
+    where: { assignmentId, senderId: { not: userId }, receipts: { none: { userId } } },
+  });
+
+/**
+ * Sends each digest-mode user one email listing the messages queued for them.
+ * Messages they have read in the meantime are dropped. Returns the number of
+ * digests sent.
+ */
+export const sendMessageDigests = async (now: Date = new Date()) => {
+  const entries = await prisma.messageDigestEntry.findMany({
+    where: { sentAt: null },
+    orderBy: { createdAt: "asc" },
+    include: {
+      User: { select: { id: true, email: true, firstName: true, locale: true } },
+      Message: {
+        include: {
+          Sender: { select: senderSelect },
+          Assignment: { select: { title: true } },
+          receipts: { select: { userId: true } },
+        },
+      },
+    },
+  });
+
+  const byUser = new Map<string, typeof entries>();
+  for (const entry of entries) {
+    byUser.set(entry.userId, [...(byUser.get(entry.userId) ?? []), entry]);
+  }
+
+  let sent = 0;
+
+  for (const userEntries of byUser.values()) {
+    const { User: user } = userEntries[0];
+    const unread = userEntries.filter((entry) => !entry.Message.receipts.some((receipt) => receipt.userId === user.id));
+
+    if (unread.length) {
+      await sendTemplatedEmail({
+        to: user.email,
+        locale: user.locale,
+        template: "messageDigest",
+        variables: {
+          firstName: user.firstName,
+          messages: unread.map(({ Message: message }) => ({
+            title: message.Assignment.title,
+            senderName: `${message.Sender.firstName} ${message.Sender.lastName}`,
+            excerpt: excerpt(message.body, 200),
+          })),
+        },
+      });
+      sent++;
+    }
+
+    await prisma.messageDigestEntry.updateMany({
+      where: { id: { in: userEntries.map((entry) => entry.id) }, sentAt: null },
+      data: { sentAt: now },
+    });
+  }
+
+  return sent;
+};
@@ -0,0 +1,155 @@
+import { NotificationEmailStatus, NotificationEvent } from "@prisma/client";
+import prisma from "../config/prisma";
+import { sendTemplatedEmail } from "../utils/emailService";
+import { TemplatedEmail } from "../emails";
+import { publish, roleRoom, userRoom } from "./realtimeService";
+
+export class NotificationError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "NotificationError";
+  }
+}
+
+// What each event is called on the preferences screen
+export const NOTIFICATION_EVENTS: Record<NotificationEvent, string> = {
+  ASSIGNMENT_SUBMITTED: "A new assignment is submitted",
+  ASSIGNMENT_ASSIGNED: "An assignment is assigned, offered or claimed",
+  ASSIGNMENT_PRICED: "An assignment is priced",
+  ASSIGNMENT_COMPLETED: "A solution is delivered",
+  TUTOR_APPROVED: "Your tutor account is approved",
+  TUTOR_REJECTED: "Your tutor application is rejected",
+};
+
+interface NotificationContent {
+  title: string;
+  body: string; // Short in-app text
+  email: TemplatedEmail;
+  assignmentId?: string;
+}
+
+const emailStatus = (sent: boolean): NotificationEmailStatus => (sent ? "SENT" : "QUEUED");
+
+const wantsEmail = async (userId: string, event: NotificationEvent) => {
+  const preference = await prisma.notificationPreference.findUnique({
+    where: { userId_event: { userId, event } },
+  });
+  return preference?.email ?? true;
+};
+
+/**
+ * Records an in-app notification for a user and emails it, in their locale,
+ * unless they turned email off for the event.
+ */
+export const notifyUser = async (
+  user: { id: string; email: string; locale: string },
+  event: NotificationEvent,
+  { title, body, email, assignmentId }: NotificationContent
+) => {
+  const status = (await wantsEmail(user.id, event))
+    ? emailStatus(await sendTemplatedEmail({ to: user.email, locale: user.locale, ...email }))
+    : "DISABLED";
+
+  const notification = await prisma.notification.create({
+    data: { userId: user.id, event, title, body, assignmentId, emailStatus: status },
+  });
+
+  publish([userRoom(user.id)], {
+    type: "notification.created",
+    data: { notificationId: notification.id, event, title },
+  });
+
+  return notification;
+};
+
+/**
+ * Records an in-app notification for every admin and emails ADMIN_EMAIL once.
+ * The shared admin mailbox is not covered by individual preferences.
+ */
+export const notifyAdmins = async (event: NotificationEvent, { title, body, email, assignmentId }: NotificationContent) => {
+  const status = emailStatus(await sendTemplatedEmail({ to: process.env.ADMIN_EMAIL!, ...email }));
+
+  const admins = await prisma.user.findMany({ where: { role: "ADMIN" }, select: { id: true } });
+
+  await prisma.notification.createMany({
+    data: admins.map((admin) => ({ userId: admin.id, event, title, body, assignmentId, emailStatus: status })),
+  });
+
+  // createMany returns no rows, so admins are told to refresh their list
+  publish([roleRoom("ADMIN")], {
+    type: "notification.created",
+    data: { notificationId: null, event, title },
+  });
+};
+
+/**
+ * A page of the user's notifications, newest first, with their unread count.
+ */
+export const listNotifications = async (
+  userId: string,
+  { unreadOnly, limit, offset }: { unreadOnly: boolean; limit: number; offset: number }
+) => {
+  const where = { userId, ...(unreadOnly && { readAt: null }) };
+
+  const [notifications, total, unreadCount] = await Promise.all([
+    prisma.notification.findMany({ where, orderBy: { createdAt: "desc" }, take: limit, skip: offset }),
+    prisma.notification.count({ where }),
+    prisma.notification.count({ where: { userId, readAt: null } }),
+  ]);
+
+  return { notifications, total, unreadCount };
+};
+
+/**
+ * Marks the given notifications, or all of them when `ids` is omitted, as read.
+ * Returns how many changed.
+ */
+export const markNotificationsRead = async (userId: string, ids?: string[]) => {
+  const { count } = await prisma.notification.updateMany({
+    where: { userId, readAt: null, ...(ids && { id: { in: ids } }) },
+    data: { readAt: new Date() },
+  });
+  return count;
+};
+
+/**
+ * Whether each event is emailed to the user, with its description.
+ */
+export const getNotificationPreferences = async (userId: string) => {
+  const saved = await prisma.notificationPreference.findMany({ where: { userId } });
+
+  return (Object.keys(NOTIFICATION_EVENTS) as NotificationEvent[]).map((event) => ({
+    event,
+    description: NOTIFICATION_EVENTS[event],
+    email: saved.find((preference) => preference.event === event)?.email ?? true,
+  }));
+};
+
+/**
+ * Saves which events the user wants emailed, e.g. `{ ASSIGNMENT_PRICED: false }`.
+ * Events left out keep their current setting.
+ */
+export const updateNotificationPreferences = async (userId: string, updates: Record<string, unknown>) => {
+  const events = Object.keys(updates);
+
+  for (const event of events) {
+    if (!Object.prototype.hasOwnProperty.call(NOTIFICATION_EVENTS, event)) {
+      throw new NotificationError(`Unknown notification event: ${event}.`, 400);
+    }
+    if (typeof updates[event] !== "boolean") {
+      throw new NotificationError(`${event} must be true or false.`, 400);
+    }
+  }
+
+  await prisma.$transaction(
+    events.map((event) =>
+      prisma.notificationPreference.upsert({
+        where: { userId_event: { userId, event: event as NotificationEvent } },
+        create: { userId, event: event as NotificationEvent, email: updates[event] as boolean },
+        update: { email: updates[event] as boolean },
+      })
+    )
+  );
+
+  return getNotificationPreferences(userId);
+};
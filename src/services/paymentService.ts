@@ -0,0 +1,222 @@
+import { Payment, Prisma } from "@prisma/client";
+import prisma from "../config/prisma";
+import { verifyPayment } from "./paystackService";
+import { queuePayoutIfEligible } from "./payoutService";
+import { holdEscrowPayment } from "./escrowService";
+import { publish, roleRoom, userRoom } from "./realtimeService";
+import { notifyUser } from "./notificationService";
+import { sendTemplatedSms } from "../utils/smsService";
+import { publicUserSelect } from "../utils/publicUser";
+
+export class PaymentVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PaymentVerificationError";
+  }
+}
+
+// Include this on assignment queries that are passed to `withPaymentState`
+export const successfulPaymentsInclude = {
+  payments: { where: { status: "SUCCESS" }, orderBy: { paidAt: "desc" } },
+} satisfies Prisma.AssignmentInclude;
+
+export const toPesewas = (amount: number) => Math.round(amount * 100);
+
+/**
+ * Adds the ledger-derived `isPaid` and `paidAt` fields to an assignment
+ * loaded with `successfulPaymentsInclude`.
+ */
+export const withPaymentState = <T extends { payments: Payment[] }>(assignment: T) => {
+  const paid = assignment.payments.find((payment) => payment.status === "SUCCESS");
+  return { ...assignment, isPaid: Boolean(paid), paidAt: paid?.paidAt ?? null };
+};
+
+export const isAssignmentPaid = async (assignmentId: string) => {
+  const count = await prisma.payment.count({ where: { assignmentId, status: "SUCCESS" } });
+  return count > 0;
+};
+
+/**
+ * Writes the pending ledger row for a freshly initialized Paystack transaction.
+ */
+export const recordInitializedPayment = async (data: {
+  assignmentId: string;
+  payerId?: string;
+  reference: string;
+  amount: number;
+  providerPayload?: Prisma.InputJsonValue;
+}) => {
+  return prisma.payment.create({ data: { ...data, status: "INITIALIZED" } });
+};
+
+/**
+ * Pushes a settled payment to the student, the assigned tutor and admins.
+ */
+export const publishPaymentConfirmed = (
+  assignment: { id: string; studentId: string; assignedTutorId: string | null },
+  payment: Pick<Payment, "reference" | "amount"> & { paidAt: Date }
+) => {
+  const tutorIds = assignment.assignedTutorId ? [assignment.assignedTutorId] : [];
+
+  publish([userRoom(assignment.studentId), ...tutorIds.map(userRoom), roleRoom("ADMIN")], {
+    type: "payment.confirmed",
+    data: {
+      assignmentId: assignment.id,
+      reference: payment.reference,
+      amount: payment.amount,
+      paidAt: payment.paidAt.toISOString(),
+    },
+  });
+};
+
+/**
+ * What every settled payment sets off, whether it came through Paystack or was
+ * recorded by an admin: an escrow job waiting for it starts work (a cancelled
+ * one is refunded), and a payout it was holding up is queued.
+ */
+export const applySettledPayment = async (assignmentId: string, reference: string) => {
+  await holdEscrowPayment(assignmentId, reference);
+  await queuePayoutIfEligible(assignmentId);
+};
+
+/**
+ * Confirms a transaction with Paystack and finalizes its ledger row.
+ * Safe to call any number of times for the same reference, from the browser
+ * redirect or the webhook: only the first call settles and sends the email.
+ */
+export const settleAssignmentPayment = async (reference: string) => {
+  const verificationData = await verifyPayment(reference);
+  const transaction = verificationData.data;
+  const assignmentId = transaction?.metadata?.assignmentId;
+
+  if (!assignmentId) {
+    throw new PaymentVerificationError("Assignment ID missing from payment verification data.");
+  }
+
+  const assignment = await prisma.assignment.findUnique({ where: { id: assignmentId } });
+
+  if (!assignment) {
+    throw new PaymentVerificationError("Assignment not found for this payment.");
+  }
+
+  // Payments initialized before the ledger existed have no row yet
+  const payment =
+    (await prisma.payment.findUnique({ where: { reference } })) ??
+    (await recordInitializedPayment({
+      assignmentId,
+      payerId: assignment.studentId,
+      reference,
+      amount: transaction.amount,
+    }));
+
+  if (transaction.status !== "success") {
+    await prisma.payment.updateMany({
+      where: { id: payment.id, status: "INITIALIZED" },
+      data: { status: "FAILED", providerPayload: transaction },
+    });
+    throw new PaymentVerificationError("Payment verification failed.");
+  }
+
+  if (transaction.amount < payment.amount) {
+    throw new PaymentVerificationError("Amount paid does not cover the assignment price.");
+  }
+
+  const wasPaid = await isAssignmentPaid(assignmentId);
+  const paidAt = transaction.paid_at ? new Date(transaction.paid_at) : new Date();
+
+  // REFUNDED rows are left alone: a refund notification can overtake the charge notification
+  const { count } = await prisma.payment.updateMany({
+    where: { id: payment.id, status: { in: ["INITIALIZED", "FAILED"] } },
+    data: {
+      status: "SUCCESS",
+      amount: transaction.amount,
+      currency: transaction.currency ?? payment.currency,
+      channel: transaction.channel,
+      providerPayload: transaction,
+      paidAt,
+    },
+  });
+  const settled = count > 0;
+
+  if (settled) {
+    await applySettledPayment(assignmentId, reference);
+  }
+
+  const updated = await prisma.assignment.findUniqueOrThrow({
+    where: { id: assignmentId },
+    include: { Student: { select: publicUserSelect }, ...successfulPaymentsInclude },
+  });
+
+  if (settled) {
+    publishPaymentConfirmed(updated, { reference, amount: transaction.amount, paidAt });
+
+    await sendTemplatedSms(updated.Student, "paymentReceived", {
+      title: updated.title,
+      amount: transaction.amount / 100,
+    });
+  }
+
+  // ✅ Send email with the download link, once
+  if (settled && !wasPaid && updated.Student?.email && updated.status === "COMPLETED") {
+    await notifyUser(updated.Student, "ASSIGNMENT_COMPLETED", {
+      title: "Assignment Solution Available",
+      body: `Payment received. The solution for "${updated.title}" is ready to download.`,
+      assignmentId,
+      email: {
+        template: "solutionAvailable",
+        variables: {
+          title: updated.title,
+          downloadUrl: `${process.env.BASE_URL}/api/assignments/download/${updated.id}`,
+        },
+      },
+    });
+  }
+
+  return { assignment: withPaymentState(updated), settled };
+};
+
+/**
+ * Records a processed refund on the ledger row of the transaction, moving it
+ * out of `pendingRefundAmount` if we requested it. A refund of the whole amount
+ * marks it REFUNDED; a partial one (`amount` in pesewas) is added to
+ * `refundedAmount` and leaves the payment settled.
+ * Returns null when the transaction does not belong to an assignment.
+ */
+export const refundAssignmentPayment = async (transactionReference: string, amount?: number) => {
+  let payment = await prisma.payment.findUnique({ where: { reference: transactionReference } });
+
+  if (!payment) {
+    const verificationData = await verifyPayment(transactionReference);
+    const transaction = verificationData.data;
+    const assignmentId = transaction?.metadata?.assignmentId;
+
+    if (!assignmentId) {
+      return null;
+    }
+
+    payment = await recordInitializedPayment({
+      assignmentId,
+      reference: transactionReference,
+      amount: transaction.amount,
+    });
+  }
+
+  const refundedAmount = payment.refundedAmount + (amount ?? payment.amount);
+  const pendingRefundAmount = Math.max(payment.pendingRefundAmount - (amount ?? payment.amount), 0);
+
+  if (refundedAmount < payment.amount) {
+    const { count } = await prisma.payment.updateMany({
+      where: { id: payment.id, status: { not: "REFUNDED" }, refundedAmount: payment.refundedAmount },
+      data: { refundedAmount, pendingRefundAmount, refundedAt: new Date() },
+    });
+
+    return { assignmentId: payment.assignmentId, refunded: count > 0 };
+  }
+
+  const { count } = await prisma.payment.updateMany({
+    where: { id: payment.id, status: { not: "REFUNDED" } },
+    data: { status: "REFUNDED", refundedAmount: payment.amount, pendingRefundAmount: 0, refundedAt: new Date() },
+  });
+
+  return { assignmentId: payment.assignmentId, refunded: count > 0 };
+};
@@ -0,0 +1,293 @@
+import axios from "axios";
+import crypto from "crypto";
+import { Prisma } from "@prisma/client";
+import prisma from "../config/prisma";
+import { createTransferRecipient, initiateTransfer, verifyTransfer } from "./paystackService";
+import { unrefundedAmount } from "./refundService";
+import { momoProvider, normalizeGhanaPhone } from "../utils/phone";
+import { percentFromEnv } from "../utils/env";
+
+// Statuses an admin can (re)approve for transfer
+export const APPROVABLE_PAYOUT_STATUSES = ["PENDING", "FAILED"] as const;
+
+// The parts of a transfer.* webhook event (or a transfer verification) used here
+export interface TransferEventData {
+  transfer_code?: string;
+  reason?: string;
+}
+
+export const platformCommissionPercent = () => percentFromEnv("PLATFORM_COMMISSION_PERCENT", 15);
+
+/**
+ * Splits what the student paid into the platform commission and the tutor's
+ * share. Assignments priced by the pricing rules carry their own platform fee;
+ * older ones fall back to PLATFORM_COMMISSION_PERCENT of the gross.
+ */
+export const splitPayout = (grossAmount: number, platformFee: number | null) => {
+  const commissionAmount =
+    platformFee !== null
+      ? Math.min(Math.round(platformFee * 100), grossAmount)
+      : Math.round((grossAmount * platformCommissionPercent()) / 100);
+  return { grossAmount, commissionAmount, amount: grossAmount - commissionAmount };
+};
+
+/**
+ * Queues a payout once an assignment is both accepted and paid. Called from
+ * the acceptance and payment paths; whichever happens last creates the row.
+ * Until the student accepts the solution, or its review window closes, they
+ * can still ask for a revision or dispute it, so nothing is paid out.
+ */
+export const queuePayoutIfEligible = async (assignmentId: string) => {
+  const assignment = await prisma.assignment.findUnique({
+    where: { id: assignmentId },
+    include: {
+      payments: { where: { status: "SUCCESS" } },
+      payout: true,
+      disputes: { where: { status: { not: "RESOLVED" } } },
+    },
+  });
+
+  if (!assignment || assignment.payout || !assignment.assignedTutorId) return null;
+  if (assignment.status !== "ACCEPTED" || assignment.payments.length === 0) return null;
+
+  // Refunds Paystack has yet to confirm are already owed to the student
+  const grossAmount = assignment.payments.reduce((total, payment) => total + unrefundedAmount(payment), 0);
+  if (grossAmount <= 0) return null;
+
+  try {
+    return await prisma.payout.create({
+      data: {
+        tutorId: assignment.assignedTutorId,
+        assignmentId,
+        ...splitPayout(grossAmount, assignment.platformFee),
+        // Queued but frozen until the dispute is resolved
+        status: assignment.disputes.length ? "HELD" : "PENDING",
+      },
+    });
+  } catch (error) {
+    // The other path queued it first
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") return null;
+    throw error;
+  }
+};
+
+/**
+ * Freezes the assignment's payout while a dispute is open, unless it has
+ * already been sent. Returns the payout, if any.
+ */
+export const holdPayout = async (assignmentId: string) => {
+  await prisma.payout.updateMany({
+    where: { assignmentId, status: { in: [...APPROVABLE_PAYOUT_STATUSES] } },
+    data: { status: "HELD" },
+  });
+
+  return prisma.payout.findUnique({ where: { assignmentId } });
+};
+
+/**
+ * Unfreezes a held payout once its dispute is resolved. `refunded` pesewas went
+ * back to the student: a full refund cancels the payout, a partial one comes
+ * out of the tutor's share. Returns the payout, if any.
+ */
+export const releaseHeldPayout = async (assignmentId: string, refunded: number) => {
+  const payout = await prisma.payout.findUnique({
+    where: { assignmentId },
+    include: { Assignment: { select: { platformFee: true } } },
+  });
+
+  if (!payout || payout.status !== "HELD") return payout;
+
+  const grossAmount = Math.max(payout.grossAmount - refunded, 0);
+
+  await prisma.payout.updateMany({
+    where: { id: payout.id, status: "HELD" },
+    data:
+      grossAmount === 0
+        ? { status: "CANCELLED", amount: 0, commissionAmount: 0, grossAmount }
+        : { status: "PENDING", ...splitPayout(grossAmount, payout.Assignment.platformFee) },
+  });
+
+  return prisma.payout.findUnique({ where: { assignmentId } });
+};
+
+/**
+ * Returns the tutor's Paystack transfer recipient, creating it from their MoMo number on first use.
+ */
+const ensureTransferRecipient = async (tutor: {
+  id: string;
+  firstName: string;
+  lastName: string;
+  momoNumber: string | null;
+  paystackRecipientCode: string | null;
+}) => {
+  if (tutor.paystackRecipientCode) return tutor.paystackRecipientCode;
+
+  const accountNumber = tutor.momoNumber ? normalizeGhanaPhone(tutor.momoNumber) : null;
+  const bankCode = accountNumber ? momoProvider(accountNumber) : null;
+
+  if (!accountNumber || !bankCode) {
+    throw new Error("Tutor has no valid mobile money number.");
+  }
+
+  const recipient = await createTransferRecipient({
+    name: `${tutor.firstName} ${tutor.lastName}`,
+    accountNumber,
+    bankCode,
+  });
+  const recipientCode: string = recipient.data.recipient_code;
+
+  await prisma.user.update({
+    where: { id: tutor.id },
+    data: { paystackRecipientCode: recipientCode },
+  });
+
+  return recipientCode;
+};
+
+export class PayoutError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "PayoutError";
+  }
+}
+
+// A 4xx from Paystack is a definite rejection; anything else (a timeout, a
+// 5xx) may have gone through and is left for the webhook or a verify to settle
+const isRejectedByPaystack = (error: unknown) =>
+  axios.isAxiosError(error) && !!error.response && error.response.status >= 400 && error.response.status < 500;
+
+const failureReasonOf = (error: unknown) =>
+  (axios.isAxiosError(error) && error.response?.data?.message) ||
+  (error instanceof Error && error.message) ||
+  "Transfer failed";
+
+/**
+ * Approves a batch of queued payouts and initiates a Paystack transfer for
+ * each. A rejected transfer marks only that payout FAILED; the rest go ahead.
+ * A payout keeps its transfer reference across retries, so Paystack, which
+ * treats the reference as an idempotency key, never sends it twice.
+ */
+export const approvePayoutBatch = async (payoutIds: string[], admin: { id: string; email: string }) => {
+  const payouts = await prisma.payout.findMany({
+    where: { id: { in: payoutIds }, status: { in: [...APPROVABLE_PAYOUT_STATUSES] } },
+    include: { Tutor: true, Assignment: { select: { title: true } } },
+  });
+
+  if (payouts.length === 0) {
+    throw new PayoutError("None of these payouts is pending or failed.", 409);
+  }
+
+  const batch = await prisma.payoutBatch.create({
+    data: { approvedById: admin.id, approvedBy: admin.email },
+  });
+
+  const results = [];
+
+  for (const payout of payouts) {
+    const reference = payout.reference ?? `payout-${crypto.randomUUID()}`;
+
+    // Claim the payout so a concurrent batch cannot transfer it twice
+    const { count } = await prisma.payout.updateMany({
+      where: { id: payout.id, status: payout.status },
+      data: { status: "PROCESSING", batchId: batch.id, reference, failureReason: null },
+    });
+    if (count === 0) continue;
+
+    const markFailed = (error: unknown) =>
+      prisma.payout.update({
+        where: { id: payout.id },
+        data: { status: "FAILED", failureReason: failureReasonOf(error) },
+      });
+
+    let recipient: string;
+    try {
+      recipient = await ensureTransferRecipient(payout.Tutor);
+    } catch (error) {
+      // No transfer was attempted, so approving it again is safe
+      results.push(await markFailed(error));
+      continue;
+    }
+
+    try {
+      const transfer = await initiateTransfer({
+        amount: payout.amount,
+        recipient,
+        reference,
+        reason: `A+ Planner payout: ${payout.Assignment.title}`,
+      });
+
+      results.push(
+        await prisma.payout.update({
+          where: { id: payout.id },
+          data: { transferCode: transfer.data?.transfer_code },
+        })
+      );
+    } catch (error) {
+      if (isRejectedByPaystack(error)) {
+        results.push(await markFailed(error));
+      } else {
+        console.error(`Transfer ${reference} may have gone through; leaving its payout PROCESSING:`, error);
+        results.push(await prisma.payout.findUniqueOrThrow({ where: { id: payout.id } }));
+      }
+    }
+  }
+
+  return { batch, payouts: results };
+};
+
+/**
+ * Settles a PROCESSING payout from Paystack's record of its transfer, for when
+ * initiating it failed ambiguously and no webhook arrived. A transfer Paystack
+ * never received is marked FAILED so it can be approved again.
+ */
+export const verifyPayoutTransfer = async (payoutId: string) => {
+  const payout = await prisma.payout.findUnique({ where: { id: payoutId } });
+
+  if (!payout) {
+    throw new PayoutError("Payout not found.", 404);
+  }
+  if (payout.status !== "PROCESSING" || !payout.reference) {
+    throw new PayoutError("Only a payout being transferred can be verified.", 409);
+  }
+
+  try {
+    const { data } = await verifyTransfer(payout.reference);
+
+    if (data?.status === "success" || data?.status === "failed" || data?.status === "reversed") {
+      await applyTransferEvent(`transfer.${data.status}`, payout.reference, data);
+    }
+  } catch (error) {
+    if (!(axios.isAxiosError(error) && error.response?.status === 404)) throw error;
+
+    await prisma.payout.updateMany({
+      where: { id: payout.id, status: "PROCESSING" },
+      data: { status: "FAILED", failureReason: "Paystack has no record of the transfer" },
+    });
+  }
+
+  return prisma.payout.findUniqueOrThrow({ where: { id: payout.id } });
+};
+
+/**
+ * Applies a transfer.success / transfer.failed / transfer.reversed webhook
+ * event. Success and failure also apply to FAILED payouts, since an attempt
+ * given up on may still have gone through.
+ */
+export const applyTransferEvent = async (event: string, reference: string, data: TransferEventData | undefined) => {
+  if (event === "transfer.success") {
+    await prisma.payout.updateMany({
+      where: { reference, status: { in: ["PROCESSING", "FAILED"] } },
+      data: { status: "SUCCESS", paidAt: new Date(), transferCode: data?.transfer_code, failureReason: null },
+    });
+  } else if (event === "transfer.failed") {
+    await prisma.payout.updateMany({
+      where: { reference, status: { in: ["PROCESSING", "FAILED"] } },
+      data: { status: "FAILED", failureReason: data?.reason ?? "Transfer failed" },
+    });
+  } else if (event === "transfer.reversed") {
+    await prisma.payout.updateMany({
+      where: { reference, status: { in: ["PROCESSING", "SUCCESS"] } },
+      data: { status: "REVERSED", paidAt: null },
+    });
+  }
+};
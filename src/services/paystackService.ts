@@ -1,13 +1,16 @@
 import axios from "axios";
+import crypto from "crypto";
 
 const PAYSTACK_SECRET_KEY = process.env.PAYSTACK_SECRET_KEY;
+// Overridable so tests can point it at a local fake Paystack
+const PAYSTACK_BASE_URL = process.env.PAYSTACK_BASE_URL || "https://api.paystack.co";
 
 export const initializePayment = async (email: string, amount: number, assignmentId: string) => {
     const response = await axios.post(
-      "https://api.paystack.co/transaction/initialize",
+      `${PAYSTACK_BASE_URL}/transaction/initialize`,
       {
         email,
-        amount: amount * 100, // Paystack amount is in kobo (multiply by 100)
+        amount: Math.round(amount * 100), // Paystack amount is in pesewas (multiply by 100)
         currency: "GHS",
         metadata: { assignmentId }, // Add metadata to include the assignmentId
       },
@@ -19,11 +22,109 @@ export const initializePayment = async (email: string, amount: number, assignmen
     );
     return response.data;
   };
-  
+
 
 export const verifyPayment = async (reference: string) => {
   const response = await axios.get(
-    `https://api.paystack.co/transaction/verify/${reference}`,
+    `${PAYSTACK_BASE_URL}/transaction/verify/${encodeURIComponent(reference)}`,
+    {
+      headers: {
+        Authorization: `Bearer ${PAYSTACK_SECRET_KEY}`,
+      },
+    }
+  );
+  return response.data;
+};
+
+/**
+ * Checks the `x-paystack-signature` header, an HMAC-SHA512 of the raw request
+ * body keyed with our secret key.
+ */
+export const verifyWebhookSignature = (rawBody: Buffer, signature?: string | string[]) => {
+  if (!PAYSTACK_SECRET_KEY || typeof signature !== "string") {
+    return false;
+  }
+
+  const expected = crypto.createHmac("sha512", PAYSTACK_SECRET_KEY).update(rawBody).digest("hex");
+
+  if (expected.length !== signature.length) {
+    return false;
+  }
+
+  return crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature));
+};
+
+export const createTransferRecipient = async ({
+  name,
+  accountNumber,
+  bankCode,
+}: {
+  name: string;
+  accountNumber: string;
+  bankCode: string;
+}) => {
+  const response = await axios.post(
+    `${PAYSTACK_BASE_URL}/transferrecipient`,
+    {
+      type: "mobile_money",
+      name,
+      account_number: accountNumber,
+      bank_code: bankCode,
+      currency: "GHS",
+    },
+    {
+      headers: {
+        Authorization: `Bearer ${PAYSTACK_SECRET_KEY}`,
+      },
+    }
+  );
+  return response.data;
+};
+
+export const initiateTransfer = async ({
+  amount,
+  recipient,
+  reference,
+  reason,
+}: {
+  amount: number; // In pesewas
+  recipient: string;
+  reference: string;
+  reason: string;
+}) => {
+  const response = await axios.post(
+    `${PAYSTACK_BASE_URL}/transfer`,
+    { source: "balance", amount, recipient, reference, reason, currency: "GHS" },
+    {
+      headers: {
+        Authorization: `Bearer ${PAYSTACK_SECRET_KEY}`,
+      },
+    }
+  );
+  return response.data;
+};
+
+/**
+ * Looks up a transfer by our reference, e.g. after initiating it timed out.
+ * Paystack answers 404 when it never received the transfer.
+ */
+export const verifyTransfer = async (reference: string) => {
+  const response = await axios.get(`${PAYSTACK_BASE_URL}/transfer/verify/${encodeURIComponent(reference)}`, {
+    headers: {
+      Authorization: `Bearer ${PAYSTACK_SECRET_KEY}`,
+    },
+  });
+  return response.data;
+};
+
+/**
+ * Refunds a transaction to the customer; without `amount` (in pesewas) the
+ * full amount is refunded. Paystack confirms with a refund.processed event.
+ */
+export const refundTransaction = async (reference: string, amount?: number) => {
+  const response = await axios.post(
+    `${PAYSTACK_BASE_URL}/refund`,
+    { transaction: reference, ...(amount !== undefined && { amount }) },
     {
       headers: {
         Authorization: `Bearer ${PAYSTACK_SECRET_KEY}`,
@@ -0,0 +1,91 @@
+import prisma from "../config/prisma";
+
+interface NumericSetting {
+  description: string;
+  defaultValue: number;
+  min: number;
+  max: number;
+}
+
+// Every setting admins can change, with the value used until they do
+export const PLATFORM_SETTINGS = {
+  maxFreeRevisions: {
+    description: "Revisions a student can request per assignment at no extra cost",
+    defaultValue: 2,
+    min: 0,
+    max: 10,
+  },
+} satisfies Record<string, NumericSetting>;
+
+export type PlatformSettingKey = keyof typeof PLATFORM_SETTINGS;
+
+export class PlatformSettingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PlatformSettingError";
+  }
+}
+
+const isSettingKey = (key: string): key is PlatformSettingKey =>
+  Object.prototype.hasOwnProperty.call(PLATFORM_SETTINGS, key);
+
+export const getPlatformSetting = async (key: PlatformSettingKey) => {
+  const row = await prisma.platformSetting.findUnique({ where: { key } });
+  return typeof row?.value === "number" ? row.value : PLATFORM_SETTINGS[key].defaultValue;
+};
+
+/**
+ * Every setting with its current value, and who last changed it.
+ */
+export const listPlatformSettings = async () => {
+  const rows = await prisma.platformSetting.findMany({
+    include: { UpdatedBy: { select: { id: true, email: true } } },
+  });
+  const byKey = new Map(rows.map((row) => [row.key, row]));
+
+  return (Object.keys(PLATFORM_SETTINGS) as PlatformSettingKey[]).map((key) => {
+    const row = byKey.get(key);
+    return {
+      key,
+      ...PLATFORM_SETTINGS[key],
+      value: typeof row?.value === "number" ? row.value : PLATFORM_SETTINGS[key].defaultValue,
+      updatedAt: row?.updatedAt ?? null,
+      updatedBy: row?.UpdatedBy ?? null,
+    };
+  });
+};
+
+/**
+ * Validates and saves a set of setting changes in one go; nothing is saved if
+ * any of them is invalid. Returns the saved values.
+ */
+export const updatePlatformSettings = async (updates: Record<string, unknown>, adminId: string) => {
+  const changes = Object.entries(updates).map(([key, value]) => {
+    if (!isSettingKey(key)) {
+      throw new PlatformSettingError(`Unknown setting "${key}".`);
+    }
+
+    const { min, max } = PLATFORM_SETTINGS[key];
+    if (typeof value !== "number" || !Number.isInteger(value) || value < min || value > max) {
+      throw new PlatformSettingError(`${key} must be a whole number from ${min} to ${max}.`);
+    }
+
+    return { key, value };
+  });
+
+  if (changes.length === 0) {
+    throw new PlatformSettingError("No settings to update.");
+  }
+
+  await prisma.$transaction(
+    changes.map(({ key, value }) =>
+      prisma.platformSetting.upsert({
+        where: { key },
+        create: { key, value, updatedById: adminId },
+        update: { value, updatedById: adminId },
+      })
+    )
+  );
+
+  return Object.fromEntries(changes.map(({ key, value }) => [key, value]));
+};
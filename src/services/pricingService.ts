@@ -0,0 +1,109 @@
+import { Assignment, PricingRule } from "@prisma/client";
+import prisma from "../config/prisma";
+import { platformCommissionPercent } from "./payoutService";
+
+// programSpecialty of the rule used when a specialty has none of its own
+export const DEFAULT_PRICING_SPECIALTY = "*";
+
+type PricingTerms = Pick<
+  PricingRule,
+  "minPrice" | "maxPrice" | "commissionPercent" | "urgentWithinHours" | "urgencySurchargePercent"
+> & { id: string | null };
+
+export class PriceOutOfRangeError extends Error {
+  constructor(public minPrice: number, public maxPrice: number) {
+    super(`Price must be between GHS ${minPrice.toFixed(2)} and GHS ${maxPrice.toFixed(2)}.`);
+    this.name = "PriceOutOfRangeError";
+  }
+}
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * The rule for a specialty, falling back to the "*" rule and then to an
+ * unbounded rule that only charges PLATFORM_COMMISSION_PERCENT.
+ */
+export const findPricingRule = async (programSpecialty: string): Promise<PricingTerms> => {
+  const rules = await prisma.pricingRule.findMany({
+    where: { programSpecialty: { in: [programSpecialty, DEFAULT_PRICING_SPECIALTY] } },
+  });
+
+  const rule =
+    rules.find((r) => r.programSpecialty === programSpecialty) ??
+    rules.find((r) => r.programSpecialty === DEFAULT_PRICING_SPECIALTY);
+
+  return (
+    rule ?? {
+      id: null,
+      minPrice: 0,
+      maxPrice: Number.MAX_SAFE_INTEGER,
+      commissionPercent: platformCommissionPercent(),
+      urgentWithinHours: 0,
+      urgencySurchargePercent: 0,
+    }
+  );
+};
+
+export const assertQuoteInRange = (rule: PricingTerms, tutorQuote: number) => {
+  if (tutorQuote < rule.minPrice || tutorQuote > rule.maxPrice) {
+    throw new PriceOutOfRangeError(rule.minPrice, rule.maxPrice);
+  }
+};
+
+/**
+ * Builds the student-facing price from the tutor's quote: the quote, plus the
+ * platform commission, plus the urgency surcharge when the deadline is within
+ * the rule's urgent window.
+ */
+export const computePrice = (
+  rule: PricingTerms,
+  tutorQuote: number,
+  dueAt: Date | null,
+  now: Date = new Date()
+) => {
+  const hoursLeft = dueAt ? (dueAt.getTime() - now.getTime()) / 3_600_000 : Infinity;
+  const isUrgent = hoursLeft <= rule.urgentWithinHours;
+
+  const platformFee = roundMoney((tutorQuote * rule.commissionPercent) / 100);
+  const urgencySurcharge = isUrgent ? roundMoney((tutorQuote * rule.urgencySurchargePercent) / 100) : 0;
+
+  return {
+    pricingRuleId: rule.id,
+    tutorQuote: roundMoney(tutorQuote),
+    platformFee,
+    urgencySurcharge,
+    tutorCharge: roundMoney(tutorQuote + platformFee + urgencySurcharge),
+    commissionPercent: rule.commissionPercent,
+    urgencySurchargePercent: isUrgent ? rule.urgencySurchargePercent : 0,
+  };
+};
+
+/**
+ * Prices an assignment from a tutor quote with the rule for its specialty.
+ * Called when the quote is made; the student is charged this price as accepted,
+ * so the urgency surcharge reflects the time left when it was quoted.
+ */
+export const priceAssignment = async (assignment: Pick<Assignment, "programSpecialty" | "dueAt">, tutorQuote: number) => {
+  const rule = await findPricingRule(assignment.programSpecialty);
+
+  assertQuoteInRange(rule, tutorQuote);
+
+  return computePrice(rule, tutorQuote, assignment.dueAt);
+};
+
+/**
+ * The stored price breakdown of an assignment, or null if it has not been priced.
+ */
+export const priceBreakdownOf = (
+  assignment: Pick<Assignment, "tutorQuote" | "platformFee" | "urgencySurcharge" | "tutorCharge">
+) => {
+  if (assignment.tutorCharge === null) return null;
+
+  return {
+    currency: "GHS",
+    tutorQuote: assignment.tutorQuote ?? assignment.tutorCharge,
+    platformFee: assignment.platformFee ?? 0,
+    urgencySurcharge: assignment.urgencySurcharge ?? 0,
+    total: assignment.tutorCharge,
+  };
+};
@@ -0,0 +1,233 @@
+import { Assignment, AssignmentQuote } from "@prisma/client";
+import prisma from "../config/prisma";
+import { positiveNumberFromEnv } from "../utils/env";
+import {
+  AssignmentConflictError,
+  InvalidTransitionError,
+  TransitionActor,
+  transitionAssignment,
+} from "./assignmentStatusService";
+import { priceAssignment } from "./pricingService";
+
+// How long a student has to answer a quote before the job goes back to the marketplace
+const quoteTtlHours = () => positiveNumberFromEnv("QUOTE_TTL_HOURS", 48);
+
+export class QuoteError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "QuoteError";
+  }
+}
+
+/**
+ * The student-facing price breakdown of a quote.
+ */
+export const quoteBreakdownOf = (quote: AssignmentQuote) => ({
+  currency: "GHS",
+  tutorQuote: quote.tutorQuote,
+  platformFee: quote.platformFee,
+  urgencySurcharge: quote.urgencySurcharge,
+  total: quote.tutorCharge,
+});
+
+/**
+ * Marks any open quote on the job as superseded, e.g. when it is reassigned.
+ */
+export const supersedePendingQuotes = async (assignmentId: string) => {
+  await prisma.assignmentQuote.updateMany({
+    where: { assignmentId, status: "PENDING" },
+    data: { status: "SUPERSEDED", respondedAt: new Date() },
+  });
+};
+
+/**
+ * Records the assigned tutor's quote and moves the job to QUOTED. A new quote
+ * while one is open replaces it.
+ */
+export const submitQuote = async (
+  assignment: Pick<Assignment, "id" | "programSpecialty" | "dueAt">,
+  tutor: TransitionActor & { id: string },
+  { price, deliveryBy, note }: { price: number; deliveryBy: Date | null; note?: string }
+) => {
+  // The student pays the tutor's quote plus platform fee and any urgency surcharge
+  const { pricingRuleId, commissionPercent, urgencySurchargePercent, ...priceData } = await priceAssignment(
+    assignment,
+    price
+  );
+
+  let quote: AssignmentQuote | undefined;
+
+  // The quote row and the QUOTED status are written together, so a failed
+  // transition never leaves a quote behind and vice versa
+  await transitionAssignment({
+    assignmentId: assignment.id,
+    to: "QUOTED",
+    actor: tutor,
+    guard: { assignedTutorId: tutor.id },
+    note: `Quoted GHS ${price.toFixed(2)}, student price GHS ${priceData.tutorCharge.toFixed(2)}`,
+    alongside: async (tx) => {
+      await tx.assignmentQuote.updateMany({
+        where: { assignmentId: assignment.id, status: "PENDING" },
+        data: { status: "SUPERSEDED", respondedAt: new Date() },
+      });
+      quote = await tx.assignmentQuote.create({
+        data: {
+          assignmentId: assignment.id,
+          tutorId: tutor.id,
+          ...priceData,
+          deliveryBy,
+          note,
+          expiresAt: new Date(Date.now() + quoteTtlHours() * 3_600_000),
+        },
+      });
+    },
+  });
+
+  return quote!;
+};
+
+/**
+ * The quote the student can currently answer.
+ */
+const findOpenQuote = async (assignmentId: string) => {
+  const quote = await prisma.assignmentQuote.findFirst({
+    where: { assignmentId, status: "PENDING" },
+    orderBy: { createdAt: "desc" },
+  });
+
+  if (!quote) {
+    throw new QuoteError("There is no open quote for this assignment.", 404);
+  }
+
+  if (quote.expiresAt <= new Date()) {
+    throw new QuoteError("This quote has expired.", 409);
+  }
+
+  return quote;
+};
+
+/**
+ * Accepts the open quote: the price and delivery date are copied onto the
+ * assignment and work starts, or on escrow jobs waits for the student to pay.
+ */
+export const acceptQuote = async (assignmentId: string, student: TransitionActor) => {
+  const quote = await findOpenQuote(assignmentId);
+  const { paymentMode } = await prisma.assignment.findUniqueOrThrow({
+    where: { id: assignmentId },
+    select: { paymentMode: true },
+  });
+
+  // Claim the quote so it cannot be answered twice
+  const { count } = await prisma.assignmentQuote.updateMany({
+    where: { id: quote.id, status: "PENDING" },
+    data: { status: "ACCEPTED", respondedAt: new Date() },
+  });
+  if (count === 0) {
+    throw new QuoteError("This quote has already been answered.", 409);
+  }
+
+  try {
+    const assignment = await transitionAssignment({
+      assignmentId,
+      to: paymentMode === "ESCROW" ? "AWAITING_PAYMENT" : "IN_PROGRESS",
+      actor: student,
+      data: {
+        tutorQuote: quote.tutorQuote,
+        platformFee: quote.platformFee,
+        urgencySurcharge: quote.urgencySurcharge,
+        tutorCharge: quote.tutorCharge,
+        deliveryBy: quote.deliveryBy,
+        // A new commitment gets fresh at-risk and overdue alerts
+        atRiskNotifiedAt: null,
+        overdueNotifiedAt: null,
+      },
+      guard: { assignedTutorId: quote.tutorId },
+      note: `Accepted quote of GHS ${quote.tutorCharge.toFixed(2)}`,
+    });
+
+    return { quote, assignment };
+  } catch (error) {
+    await prisma.assignmentQuote.update({ where: { id: quote.id }, data: { status: "PENDING", respondedAt: null } });
+    throw error;
+  }
+};
+
+/**
+ * Declines the open quote. With a counter-offer the job stays with the tutor so
+ * they can quote again; otherwise it goes back to the marketplace.
+ */
+export const declineQuote = async (
+  assignmentId: string,
+  student: TransitionActor,
+  { reason, counterOffer }: { reason?: string; counterOffer?: number }
+) => {
+  const quote = await findOpenQuote(assignmentId);
+
+  const { count } = await prisma.assignmentQuote.updateMany({
+    where: { id: quote.id, status: "PENDING" },
+    data: { status: "DECLINED", respondedAt: new Date(), responseNote: reason, counterOffer },
+  });
+  if (count === 0) {
+    throw new QuoteError("This quote has already been answered.", 409);
+  }
+
+  try {
+    const assignment = await transitionAssignment({
+      assignmentId,
+      to: "ASSIGNED",
+      actor: student,
+      data: counterOffer !== undefined ? {} : { assignedTutorId: null, autoAssign: false },
+      guard: { assignedTutorId: quote.tutorId },
+      note:
+        counterOffer !== undefined
+          ? `Declined quote with a counter-offer of GHS ${counterOffer.toFixed(2)}`
+          : "Declined quote; opened to tutors",
+    });
+
+    return { quote, assignment };
+  } catch (error) {
+    await prisma.assignmentQuote.update({
+      where: { id: quote.id },
+      data: { status: "PENDING", respondedAt: null, responseNote: null, counterOffer: null },
+    });
+    throw error;
+  }
+};
+
+/**
+ * Expires quotes the student did not answer in time and puts those jobs back
+ * in the marketplace. Returns the expired quotes with their assignments.
+ */
+export const expireQuotes = async (now: Date = new Date()) => {
+  const quotes = await prisma.assignmentQuote.findMany({
+    where: { status: "PENDING", expiresAt: { lte: now } },
+    include: { Tutor: { select: { firstName: true, email: true, locale: true } } },
+  });
+
+  const expired = [];
+
+  for (const quote of quotes) {
+    const { count } = await prisma.assignmentQuote.updateMany({
+      where: { id: quote.id, status: "PENDING" },
+      data: { status: "EXPIRED", respondedAt: now },
+    });
+    if (count === 0) continue;
+
+    try {
+      const assignment = await transitionAssignment({
+        assignmentId: quote.assignmentId,
+        to: "ASSIGNED",
+        data: { assignedTutorId: null, autoAssign: false },
+        guard: { status: "QUOTED", assignedTutorId: quote.tutorId },
+        note: "Quote expired; opened to tutors",
+      });
+      expired.push({ quote, assignment });
+    } catch (error) {
+      // The job moved on in the meantime; the quote is simply expired
+      if (error instanceof AssignmentConflictError || error instanceof InvalidTransitionError) continue;
+      console.error(`Error reopening assignment ${quote.assignmentId} after quote expiry:`, error);
+    }
+  }
+
+  return expired;
+};
@@ -0,0 +1,104 @@
+import { Response } from "express";
+
+/**
+ * Events pushed to connected clients over Server-Sent Events. Payloads carry
+ * IDs and short summaries only; clients fetch full records through the API.
+ */
+export type RealtimeEvent =
+  | {
+      type: "assignment.status";
+      data: { assignmentId: string; title: string; from: string; to: string; changedAt: string };
+    }
+  | {
+      type: "marketplace.job";
+      data: { assignmentId: string; title: string; programSpecialty: string; dueAt: string | null };
+    }
+  | {
+      type: "message.created";
+      data: { assignmentId: string; messageId: string; senderId: string; excerpt: string; createdAt: string };
+    }
+  | {
+      type: "payment.confirmed";
+      data: { assignmentId: string; reference: string; amount: number; paidAt: string };
+    }
+  | {
+      type: "notification.created";
+      data: { notificationId: string | null; event: string; title: string };
+    };
+
+// Rooms a connection can be in: one per user, one per role and one per tutor specialty
+export const userRoom = (userId: string) => `user:${userId}`;
+export const roleRoom = (role: string) => `role:${role}`;
+export const specialtyRoom = (specialty: string) => `specialty:${specialty}`;
+
+// Connections are held in memory, so events only reach clients of this server process
+const rooms = new Map<string, Set<Response>>();
+const roomsOf = new Map<Response, Set<string>>();
+
+let nextEventId = 1;
+
+const addToRoom = (res: Response, name: string) => {
+  const members = rooms.get(name) ?? new Set<Response>();
+  members.add(res);
+  rooms.set(name, members);
+  roomsOf.get(res)?.add(name);
+};
+
+const removeFromRoom = (res: Response, name: string) => {
+  const members = rooms.get(name);
+  members?.delete(res);
+  if (members?.size === 0) rooms.delete(name);
+  roomsOf.get(res)?.delete(name);
+};
+
+/**
+ * Adds an open event stream to the given rooms. Returns a function that
+ * removes it from every room it is in, to be called when the client disconnects.
+ */
+export const joinRooms = (res: Response, names: string[]) => {
+  roomsOf.set(res, roomsOf.get(res) ?? new Set<string>());
+  names.forEach((name) => addToRoom(res, name));
+
+  return () => {
+    roomsOf.get(res)?.forEach((name) => removeFromRoom(res, name));
+    roomsOf.delete(res);
+  };
+};
+
+/**
+ * Moves a tutor's open event streams from their old specialty rooms to the
+ * rooms of `specialties`, so an approved specialty change applies without
+ * reconnecting.
+ */
+export const moveToSpecialtyRooms = (userId: string, specialties: string[]) => {
+  const next = specialties.map(specialtyRoom);
+  rooms.get(userRoom(userId))?.forEach((res) => {
+    [...(roomsOf.get(res) ?? [])]
+      .filter((name) => name.startsWith(specialtyRoom("")) && !next.includes(name))
+      .forEach((name) => removeFromRoom(res, name));
+    next.forEach((name) => addToRoom(res, name));
+  });
+};
+
+/**
+ * Sends an event to every connection in any of the given rooms. A connection
+ * in several of them gets it once. Never throws, so publishing cannot fail the
+ * request or job that triggered it.
+ */
+export const publish = (names: string[], event: RealtimeEvent) => {
+  const recipients = new Set<Response>();
+  for (const name of names) {
+    rooms.get(name)?.forEach((res) => recipients.add(res));
+  }
+
+  if (recipients.size === 0) return;
+
+  const frame = `id: ${nextEventId++}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`;
+  recipients.forEach((res) => {
+    try {
+      res.write(frame);
+    } catch (error) {
+      console.error(`Error publishing ${event.type} event:`, error);
+    }
+  });
+};
@@ -0,0 +1,90 @@
+import prisma from "../config/prisma";
+import { refundTransaction } from "./paystackService";
+
+// A type rather than an interface so it can be stored in JSON columns such as the audit log
+export type RefundAttempt = {
+  reference: string;
+  amount: number; // In pesewas
+  status: "REQUESTED" | "MANUAL" | "FAILED";
+};
+
+/**
+ * Pesewas of a payment that are neither refunded nor waiting for Paystack to confirm a refund.
+ */
+export const unrefundedAmount = (payment: { amount: number; refundedAmount: number; pendingRefundAmount: number }) =>
+  payment.amount - payment.refundedAmount - payment.pendingRefundAmount;
+
+/**
+ * Pesewas of the assignment's settled payments that have not been refunded yet.
+ */
+export const refundableAmount = async (assignmentId: string) => {
+  const payments = await prisma.payment.findMany({ where: { assignmentId, status: "SUCCESS" } });
+  return payments.reduce((total, payment) => total + unrefundedAmount(payment), 0);
+};
+
+/**
+ * Refunds an assignment's settled payments through Paystack, newest first, up
+ * to `amount` pesewas (everything by default). `reference` limits it to one
+ * payment. A requested refund is kept as pending on the ledger until Paystack
+ * confirms it with refund.processed. Payments recorded by hand come back as
+ * MANUAL for an admin to refund outside Paystack; no webhook follows those, so
+ * they are written to the ledger here. `onIssued` is called after each refund
+ * that was requested or recorded.
+ */
+export const issueRefunds = async (
+  assignmentId: string,
+  {
+    reference,
+    amount,
+    onIssued,
+  }: { reference?: string; amount?: number; onIssued?: (refund: RefundAttempt) => Promise<void> } = {}
+) => {
+  const payments = await prisma.payment.findMany({
+    where: { assignmentId, reference, status: "SUCCESS" },
+    orderBy: { paidAt: "desc" },
+  });
+
+  let remaining = amount ?? Infinity;
+  const refunds: RefundAttempt[] = [];
+
+  for (const payment of payments) {
+    const refundable = unrefundedAmount(payment);
+    const share = Math.min(refundable, remaining);
+    if (share <= 0) continue;
+    remaining -= share;
+
+    if (payment.channel === "manual") {
+      const refundedAmount = payment.refundedAmount + share;
+      await prisma.payment.update({
+        where: { id: payment.id },
+        data: {
+          refundedAmount,
+          refundedAt: new Date(),
+          ...(refundedAmount >= payment.amount && { status: "REFUNDED" }),
+        },
+      });
+      const refund: RefundAttempt = { reference: payment.reference, amount: share, status: "MANUAL" };
+      refunds.push(refund);
+      await onIssued?.(refund);
+      continue;
+    }
+
+    try {
+      await refundTransaction(payment.reference, share);
+    } catch (error) {
+      console.error(`Error refunding payment ${payment.reference}:`, error);
+      refunds.push({ reference: payment.reference, amount: share, status: "FAILED" });
+      continue;
+    }
+
+    await prisma.payment.update({
+      where: { id: payment.id },
+      data: { pendingRefundAmount: { increment: share } },
+    });
+    const refund: RefundAttempt = { reference: payment.reference, amount: share, status: "REQUESTED" };
+    refunds.push(refund);
+    await onIssued?.(refund);
+  }
+
+  return refunds;
+};
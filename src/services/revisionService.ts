@@ -0,0 +1,109 @@
+import { RevisionRequest } from "@prisma/client";
+import prisma from "../config/prisma";
+import { TransitionActor, transitionAssignment } from "./assignmentStatusService";
+import { discardAssignmentFiles, storeAssignmentFiles } from "./assignmentFileService";
+import { getPlatformSetting } from "./platformSettingsService";
+
+export class RevisionError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "RevisionError";
+  }
+}
+
+/**
+ * Sends a delivered solution back to the assigned tutor. Students get
+ * `maxFreeRevisions` revisions per assignment; an escrow review window is
+ * paused until the revised solution arrives.
+ */
+export const requestRevision = async (
+  assignmentId: string,
+  student: TransitionActor & { id: string },
+  { reason, files }: { reason: string; files: Express.Multer.File[] }
+) => {
+  const assignment = await prisma.assignment.findUnique({ where: { id: assignmentId } });
+
+  if (!assignment || assignment.studentId !== student.id) {
+    throw new RevisionError("Assignment not found.", 404);
+  }
+
+  if (assignment.status !== "COMPLETED") {
+    throw new RevisionError("Revisions can only be requested for a delivered solution that has not been accepted.", 409);
+  }
+
+  const maxFreeRevisions = await getPlatformSetting("maxFreeRevisions");
+
+  if (assignment.revisionCount >= maxFreeRevisions) {
+    throw new RevisionError(
+      `You have used all ${maxFreeRevisions} free revisions for this assignment. Please contact support for further changes.`,
+      409
+    );
+  }
+
+  const attachments = files.length
+    ? await storeAssignmentFiles(assignmentId, student.id, "REVISION_ATTACHMENT", files)
+    : [];
+
+  const revisionNumber = assignment.revisionCount + 1;
+  let request: RevisionRequest | undefined;
+  let updated: Awaited<ReturnType<typeof transitionAssignment>>;
+
+  try {
+    updated = await transitionAssignment({
+      assignmentId,
+      to: "REVISION_REQUESTED",
+      actor: student,
+      data: { revisionCount: revisionNumber, autoAcceptAt: null },
+      // Two requests at once must not both use up the same revision
+      guard: { revisionCount: assignment.revisionCount },
+      note: `Revision ${revisionNumber} requested: ${reason}`,
+      // The request row and the counter commit together
+      alongside: async (tx) => {
+        request = await tx.revisionRequest.create({
+          data: {
+            assignmentId,
+            requestedById: student.id,
+            revisionNumber,
+            reason,
+            attachmentVersion: attachments[0]?.version,
+          },
+        });
+      },
+    });
+  } catch (error) {
+    // No revision was requested, so the attachments must not linger
+    if (attachments.length) await discardAssignmentFiles(attachments);
+    throw error;
+  }
+
+  return { assignment: updated, request: request!, attachments, freeRevisionsLeft: maxFreeRevisions - revisionNumber };
+};
+
+/**
+ * Marks the open revision request as answered by the given solution version.
+ */
+export const resolveRevisionRequest = async (assignmentId: string, solutionVersion: number) => {
+  await prisma.revisionRequest.updateMany({
+    where: { assignmentId, resolvedAt: null },
+    data: { resolvedAt: new Date(), resolvedVersion: solutionVersion },
+  });
+};
+
+/**
+ * Every revision request of an assignment, oldest first, with its attachments.
+ */
+export const listRevisionRequests = async (assignmentId: string) => {
+  const [requests, attachments] = await Promise.all([
+    prisma.revisionRequest.findMany({ where: { assignmentId }, orderBy: { revisionNumber: "asc" } }),
+    prisma.assignmentFile.findMany({
+      where: { assignmentId, kind: "REVISION_ATTACHMENT" },
+      orderBy: { createdAt: "asc" },
+      select: { id: true, version: true, fileName: true, mimeType: true, bytes: true, createdAt: true },
+    }),
+  ]);
+
+  return requests.map((request) => ({
+    ...request,
+    attachments: attachments.filter((file) => file.version === request.attachmentVersion),
+  }));
+};
@@ -0,0 +1,171 @@
+import { Response } from "express";
+import jwt from "jsonwebtoken";
+import { Role } from "@prisma/client";
+import prisma from "../config/prisma";
+import { generateToken, hashToken } from "../utils/tokens";
+import { positiveNumberFromEnv } from "../utils/env";
+
+const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+const refreshTokenTtlDays = () => positiveNumberFromEnv("REFRESH_TOKEN_TTL_DAYS", 30);
+
+// The refresh cookie is only sent to the auth routes that need it
+const REFRESH_COOKIE_PATH = "/api/auth";
+
+export class SessionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SessionError";
+  }
+}
+
+export interface SessionSubject {
+  userId: string;
+  email: string;
+  role: Role;
+}
+
+interface ClientInfo {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+const cookieOptions = (maxAge: number, path = "/") => ({
+  httpOnly: true,
+  secure: process.env.NODE_ENV === "production",
+  sameSite: "lax" as const,
+  maxAge,
+  path,
+});
+
+const signAccessToken = (sessionId: string, subject: SessionSubject) =>
+  jwt.sign(
+    { id: subject.userId, role: subject.role, email: subject.email, sid: sessionId },
+    process.env.JWT_SECRET!,
+    { expiresIn: ACCESS_TOKEN_TTL_SECONDS }
+  );
+
+/**
+ * Sets the short-lived access token cookie and the refresh token cookie.
+ */
+export const setAuthCookies = (res: Response, accessToken: string, refreshToken: string) => {
+  res.cookie("token", accessToken, cookieOptions(ACCESS_TOKEN_TTL_SECONDS * 1000));
+  res.cookie("refreshToken", refreshToken, cookieOptions(refreshTokenTtlDays() * 86_400_000, REFRESH_COOKIE_PATH));
+};
+
+export const clearAuthCookies = (res: Response) => {
+  res.clearCookie("token", { path: "/" });
+  res.clearCookie("refreshToken", { path: REFRESH_COOKIE_PATH });
+};
+
+/**
+ * Opens a session for a successful login and returns its first token pair.
+ */
+export const startSession = async (subject: SessionSubject, client: ClientInfo = {}) => {
+  const { token: refreshToken, tokenHash } = generateToken();
+
+  const session = await prisma.session.create({
+    data: {
+      ...subject,
+      ...client,
+      expiresAt: new Date(Date.now() + refreshTokenTtlDays() * 86_400_000),
+      refreshTokens: { create: { tokenHash } },
+    },
+  });
+
+  return { session, accessToken: signAccessToken(session.id, subject), refreshToken };
+};
+
+/**
+ * Exchanges a refresh token for a new token pair. A token can be used once:
+ * presenting an already rotated token means it leaked, so the whole session
+ * is revoked. `resolveSubject` reloads the account so role changes and
+ * deletions take effect on refresh.
+ */
+export const rotateRefreshToken = async (
+  refreshToken: string,
+  resolveSubject: (session: { userId: string; email: string; role: Role }) => Promise<SessionSubject | null>
+) => {
+  const existing = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashToken(refreshToken) },
+    include: { Session: true },
+  });
+
+  if (!existing) {
+    throw new SessionError("Invalid refresh token.");
+  }
+
+  const { Session: session } = existing;
+
+  if (session.revokedAt || session.expiresAt <= new Date()) {
+    throw new SessionError("Session has expired or been revoked.");
+  }
+
+  // Mark the token used; if someone else got there first this is a replay
+  const { count } = await prisma.refreshToken.updateMany({
+    where: { id: existing.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+
+  if (count === 0) {
+    await revokeSession(session.id, "Refresh token reuse detected");
+    throw new SessionError("Refresh token has already been used. Please log in again.");
+  }
+
+  const subject = await resolveSubject(session);
+
+  if (!subject) {
+    await revokeSession(session.id, "Account no longer allowed to sign in");
+    throw new SessionError("Account is no longer allowed to sign in.");
+  }
+
+  const { token: nextRefreshToken, tokenHash } = generateToken();
+
+  await prisma.session.update({
+    where: { id: session.id },
+    data: { lastUsedAt: new Date(), role: subject.role, email: subject.email, refreshTokens: { create: { tokenHash } } },
+  });
+
+  return { session, accessToken: signAccessToken(session.id, subject), refreshToken: nextRefreshToken };
+};
+
+/**
+ * Finds the session a refresh token belongs to, used or not.
+ */
+export const findSessionByRefreshToken = async (refreshToken: string) => {
+  const token = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashToken(refreshToken) },
+    include: { Session: true },
+  });
+  return token?.Session ?? null;
+};
+
+export const revokeSession = async (sessionId: string, reason: string) => {
+  await prisma.session.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+};
+
+/**
+ * Revokes every open session of a user. Returns how many sessions were revoked.
+ */
+export const revokeAllSessions = async (userId: string, reason: string) => {
+  const { count } = await prisma.session.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+
+  return count;
+};
+
+/**
+ * True if the session behind an access token is still open.
+ */
+export const isSessionActive = async (sessionId: string) => {
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    select: { revokedAt: true, expiresAt: true },
+  });
+
+  return Boolean(session && !session.revokedAt && session.expiresAt > new Date());
+};
@@ -0,0 +1,163 @@
+import { Assignment } from "@prisma/client";
+import prisma from "../config/prisma";
+import { DELIVERED_ASSIGNMENT_STATUSES } from "./assignmentStatusService";
+
+// How much each signal contributes to a tutor's score (they add up to 100)
+const WEIGHTS = {
+  specialty: 40,
+  workload: 20,
+  speed: 15,
+  reliability: 15,
+  rating: 10,
+};
+
+// Only recent work counts towards speed, reliability and rating
+const HISTORY_DAYS = 180;
+
+// Neutral values for tutors without enough history to judge
+const NEUTRAL_SCORE = 0.5;
+
+export interface TutorSuggestion {
+  tutor: { id: string; firstName: string; lastName: string; email: string; locale: string; programSpecialty: string | null };
+  score: number;
+  matchesSpecialty: boolean;
+  activeAssignments: number;
+  averageCompletionHours: number | null;
+  rejectionRate: number | null;
+  averageRating: number | null;
+}
+
+const round = (value: number, places = 2) => Math.round(value * 10 ** places) / 10 ** places;
+
+/**
+ * Ranks approved tutors for an assignment, best first. Tutors in `excludeTutorIds`
+ * (e.g. ones already offered the job) are left out. Set `specialtyOnly` to drop
+ * tutors who do not hold the assignment's specialty.
+ */
+export const rankTutorsForAssignment = async (
+  assignment: Pick<Assignment, "programSpecialty">,
+  { excludeTutorIds = [] as string[], specialtyOnly = false } = {}
+): Promise<TutorSuggestion[]> => {
+  const tutors = await prisma.user.findMany({
+    where: {
+      role: "TUTOR",
+      isApproved: true,
+      isVerified: true,
+      id: { notIn: excludeTutorIds },
+      ...(specialtyOnly && { specialties: { some: { specialty: assignment.programSpecialty } } }),
+    },
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      email: true,
+      locale: true,
+      programSpecialty: true,
+      specialties: { select: { specialty: true } },
+    },
+  });
+
+  if (tutors.length === 0) return [];
+
+  const tutorIds = tutors.map((tutor) => tutor.id);
+  const since = new Date(Date.now() - HISTORY_DAYS * 86_400_000);
+
+  const [activeCounts, completed, rejections, expiredOffers, ratings] = await Promise.all([
+    prisma.assignment.groupBy({
+      by: ["assignedTutorId"],
+      where: { assignedTutorId: { in: tutorIds }, status: "IN_PROGRESS" },
+      _count: { _all: true },
+    }),
+    // Completion time runs from when the tutor priced the job to when they delivered
+    prisma.assignment.findMany({
+      where: { assignedTutorId: { in: tutorIds }, status: { in: DELIVERED_ASSIGNMENT_STATUSES }, completedAt: { gte: since } },
+      select: {
+        assignedTutorId: true,
+        completedAt: true,
+        statusHistory: {
+          where: { toStatus: "IN_PROGRESS" },
+          orderBy: { createdAt: "desc" },
+          take: 1,
+          select: { createdAt: true },
+        },
+      },
+    }),
+    prisma.assignmentStatusHistory.groupBy({
+      by: ["changedById"],
+      where: { changedById: { in: tutorIds }, toStatus: "REJECTED", createdAt: { gte: since } },
+      _count: { _all: true },
+    }),
+    prisma.assignmentOffer.groupBy({
+      by: ["tutorId"],
+      where: { tutorId: { in: tutorIds }, status: "EXPIRED", createdAt: { gte: since } },
+      _count: { _all: true },
+    }),
+    prisma.assignment.groupBy({
+      by: ["assignedTutorId"],
+      where: { assignedTutorId: { in: tutorIds }, studentRating: { not: null }, ratedAt: { gte: since } },
+      _avg: { studentRating: true },
+    }),
+  ]);
+
+  const activeByTutor = new Map(activeCounts.map((row) => [row.assignedTutorId, row._count._all]));
+  const rejectionsByTutor = new Map(rejections.map((row) => [row.changedById, row._count._all]));
+  const expiriesByTutor = new Map(expiredOffers.map((row) => [row.tutorId, row._count._all]));
+  const ratingByTutor = new Map(ratings.map((row) => [row.assignedTutorId, row._avg.studentRating]));
+
+  const completionHours = new Map<string, number[]>();
+  for (const job of completed) {
+    const startedAt = job.statusHistory[0]?.createdAt;
+    if (!job.assignedTutorId || !job.completedAt || !startedAt) continue;
+
+    const hours = (job.completedAt.getTime() - startedAt.getTime()) / 3_600_000;
+    completionHours.set(job.assignedTutorId, [...(completionHours.get(job.assignedTutorId) ?? []), hours]);
+  }
+
+  const completedByTutor = (tutorId: string) => completionHours.get(tutorId)?.length ?? 0;
+  const averageHours = (tutorId: string) => {
+    const hours = completionHours.get(tutorId);
+    return hours?.length ? hours.reduce((total, value) => total + value, 0) / hours.length : null;
+  };
+
+  // Speed is relative to the fastest tutor in the pool
+  const knownHours = tutorIds.map(averageHours).filter((hours): hours is number => hours !== null);
+  const fastest = knownHours.length ? Math.min(...knownHours) : null;
+
+  const suggestions = tutors.map(({ specialties, ...tutor }) => {
+    const matchesSpecialty =
+      specialties.some((row) => row.specialty === assignment.programSpecialty) ||
+      tutor.programSpecialty === assignment.programSpecialty;
+
+    const activeAssignments = activeByTutor.get(tutor.id) ?? 0;
+    const averageCompletionHours = averageHours(tutor.id);
+
+    // Rejections and ignored offers count against finished jobs
+    const misses = (rejectionsByTutor.get(tutor.id) ?? 0) + (expiriesByTutor.get(tutor.id) ?? 0);
+    const attempts = misses + completedByTutor(tutor.id);
+    const rejectionRate = attempts > 0 ? misses / attempts : null;
+
+    const averageRating = ratingByTutor.get(tutor.id) ?? null;
+
+    const score =
+      WEIGHTS.specialty * (matchesSpecialty ? 1 : 0) +
+      WEIGHTS.workload / (1 + activeAssignments) +
+      WEIGHTS.speed *
+        (averageCompletionHours !== null && fastest !== null
+          ? fastest / Math.max(averageCompletionHours, fastest, 1)
+          : NEUTRAL_SCORE) +
+      WEIGHTS.reliability * (rejectionRate !== null ? 1 - rejectionRate : NEUTRAL_SCORE) +
+      WEIGHTS.rating * (averageRating !== null ? averageRating / 5 : NEUTRAL_SCORE);
+
+    return {
+      tutor,
+      score: round(score),
+      matchesSpecialty,
+      activeAssignments,
+      averageCompletionHours: averageCompletionHours !== null ? round(averageCompletionHours, 1) : null,
+      rejectionRate: rejectionRate !== null ? round(rejectionRate) : null,
+      averageRating: averageRating !== null ? round(averageRating) : null,
+    };
+  });
+
+  return suggestions.sort((a, b) => b.score - a.score || a.activeAssignments - b.activeAssignments);
+};
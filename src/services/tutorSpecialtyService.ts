@@ -0,0 +1,162 @@
+import { Prisma } from "@prisma/client";
+import prisma from "../config/prisma";
+import { sendTemplatedEmail } from "../utils/emailService";
+import { moveToSpecialtyRooms } from "./realtimeService";
+
+/**
+ * The specialties a tutor takes jobs in.
+ */
+export const getTutorSpecialties = async (tutorId: string) => {
+  const rows = await prisma.tutorSpecialty.findMany({
+    where: { tutorId },
+    orderBy: { createdAt: "asc" },
+    select: { specialty: true },
+  });
+  return rows.map((row) => row.specialty);
+};
+
+/**
+ * Trims, drops empty values and de-duplicates a list of specialties.
+ */
+export const normalizeSpecialties = (values: unknown[]) => [
+  ...new Set(values.map((value) => String(value ?? "").trim()).filter(Boolean)),
+];
+
+/**
+ * Replaces a tutor's specialties with the given list.
+ */
+export const setTutorSpecialties = async (
+  tutorId: string,
+  specialties: string[],
+  tx: Prisma.TransactionClient = prisma
+) => {
+  await tx.tutorSpecialty.deleteMany({ where: { tutorId, specialty: { notIn: specialties } } });
+  await tx.tutorSpecialty.createMany({
+    data: specialties.map((specialty) => ({ tutorId, specialty })),
+    skipDuplicates: true,
+  });
+};
+
+export class SpecialtyChangeError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "SpecialtyChangeError";
+  }
+}
+
+/**
+ * The tutor's specialty change waiting for review, if any.
+ */
+export const getPendingSpecialtyChange = (tutorId: string) =>
+  prisma.specialtyChangeRequest.findFirst({
+    where: { tutorId, status: "PENDING" },
+    select: { id: true, programSpecialty: true, specialties: true, createdAt: true },
+  });
+
+/**
+ * Records an approved tutor's request for new specialties, replacing any
+ * earlier request still waiting for review. The tutor keeps their approval
+ * and current specialties until an admin decides.
+ */
+export const requestSpecialtyChange = async (
+  tutor: { id: string; firstName: string; lastName: string; email: string },
+  programSpecialty: string,
+  specialties: string[]
+) => {
+  const current = await getTutorSpecialties(tutor.id);
+
+  const request = await prisma.$transaction(async (tx) => {
+    await tx.specialtyChangeRequest.updateMany({
+      where: { tutorId: tutor.id, status: "PENDING" },
+      data: { status: "SUPERSEDED" },
+    });
+
+    return tx.specialtyChangeRequest.create({
+      data: { tutorId: tutor.id, programSpecialty, specialties },
+      select: { id: true, programSpecialty: true, specialties: true, createdAt: true },
+    });
+  });
+
+  await sendTemplatedEmail({
+    to: process.env.ADMIN_EMAIL!,
+    template: "specialtyChangeRequested",
+    variables: {
+      tutorName: `${tutor.firstName} ${tutor.lastName}`,
+      tutorEmail: tutor.email,
+      current,
+      requested: specialties,
+    },
+  });
+
+  return request;
+};
+
+/**
+ * Pending specialty changes, oldest first, with the tutor's current specialties.
+ */
+export const listPendingSpecialtyChanges = () =>
+  prisma.specialtyChangeRequest.findMany({
+    where: { status: "PENDING" },
+    orderBy: { createdAt: "asc" },
+    include: {
+      Tutor: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          email: true,
+          programSpecialty: true,
+          specialties: { select: { specialty: true } },
+        },
+      },
+    },
+  });
+
+/**
+ * Approves or rejects a pending specialty change. An approval replaces the
+ * tutor's specialties; a rejection leaves them and the account as they are.
+ * The tutor is emailed either way.
+ */
+export const reviewSpecialtyChange = async (
+  requestId: string,
+  reviewerId: string,
+  { approve, reason }: { approve: boolean; reason?: string }
+) => {
+  const request = await prisma.$transaction(async (tx) => {
+    // Claim the request so two admins cannot both decide it
+    const { count } = await tx.specialtyChangeRequest.updateMany({
+      where: { id: requestId, status: "PENDING" },
+      data: { status: approve ? "APPROVED" : "REJECTED", reviewedById: reviewerId, reviewedAt: new Date(), reviewNote: reason },
+    });
+    if (count === 0) {
+      throw new SpecialtyChangeError("Specialty change not found or already reviewed.", 404);
+    }
+
+    const request = await tx.specialtyChangeRequest.findUniqueOrThrow({ where: { id: requestId } });
+
+    if (approve) {
+      await setTutorSpecialties(request.tutorId, request.specialties, tx);
+      await tx.user.update({ where: { id: request.tutorId }, data: { programSpecialty: request.programSpecialty } });
+    }
+
+    return request;
+  });
+
+  if (approve) moveToSpecialtyRooms(request.tutorId, request.specialties);
+
+  const tutor = await prisma.user.findUniqueOrThrow({ where: { id: request.tutorId } });
+
+  await sendTemplatedEmail({
+    to: tutor.email,
+    locale: tutor.locale,
+    template: "specialtyChangeReviewed",
+    variables: {
+      firstName: tutor.firstName,
+      approved: approve,
+      specialties: approve ? request.specialties : await getTutorSpecialties(tutor.id),
+      reason,
+    },
+  });
+
+  return request;
+};
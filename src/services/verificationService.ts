@@ -0,0 +1,157 @@
+import bcrypt from "bcryptjs";
+import { User, VerificationPurpose } from "@prisma/client";
+import prisma from "../config/prisma";
+import { sendTemplatedEmail } from "../utils/emailService";
+import { generateToken, hashToken } from "../utils/tokens";
+import { positiveNumberFromEnv } from "../utils/env";
+import { revokeAllSessions } from "./sessionService";
+
+const emailVerificationTtlHours = () => positiveNumberFromEnv("EMAIL_VERIFICATION_TTL_HOURS", 24);
+const passwordResetTtlMinutes = () => positiveNumberFromEnv("PASSWORD_RESET_TTL_MINUTES", 30);
+
+// At most this many tokens of one purpose per user per hour, and not back to back
+const MAX_TOKENS_PER_HOUR = 3;
+const RESEND_COOLDOWN_SECONDS = 60;
+
+export class VerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "VerificationError";
+  }
+}
+
+export class TooManyRequestsError extends Error {
+  constructor(public retryAfterSeconds: number) {
+    super(`Too many requests. Please try again in ${retryAfterSeconds} seconds.`);
+    this.name = "TooManyRequestsError";
+  }
+}
+
+/**
+ * Throws TooManyRequestsError if the user was sent a token of this purpose too
+ * recently or too often in the last hour.
+ */
+const assertCanIssueToken = async (userId: string, purpose: VerificationPurpose) => {
+  const now = Date.now();
+  const recent = await prisma.verificationToken.findMany({
+    where: { userId, purpose, createdAt: { gt: new Date(now - 3_600_000) } },
+    orderBy: { createdAt: "desc" },
+    select: { createdAt: true },
+  });
+
+  const secondsSinceLast = recent.length ? (now - recent[0].createdAt.getTime()) / 1000 : Infinity;
+  if (secondsSinceLast < RESEND_COOLDOWN_SECONDS) {
+    throw new TooManyRequestsError(Math.ceil(RESEND_COOLDOWN_SECONDS - secondsSinceLast));
+  }
+
+  if (recent.length >= MAX_TOKENS_PER_HOUR) {
+    const oldest = recent[recent.length - 1].createdAt.getTime();
+    throw new TooManyRequestsError(Math.ceil((oldest + 3_600_000 - now) / 1000));
+  }
+};
+
+/**
+ * Creates a one-time token for the user, invalidating earlier unused ones of
+ * the same purpose. Returns the raw token, which is never stored.
+ */
+export const issueVerificationToken = async (userId: string, purpose: VerificationPurpose, ttlMinutes: number) => {
+  await assertCanIssueToken(userId, purpose);
+
+  const { token, tokenHash } = generateToken();
+  const expiresAt = new Date(Date.now() + ttlMinutes * 60_000);
+
+  await prisma.$transaction([
+    prisma.verificationToken.updateMany({
+      where: { userId, purpose, usedAt: null, expiresAt: { gt: new Date() } },
+      data: { expiresAt: new Date() },
+    }),
+    prisma.verificationToken.create({ data: { userId, purpose, tokenHash, expiresAt } }),
+  ]);
+
+  return { token, expiresAt };
+};
+
+/**
+ * Marks a token used and returns the ID of the user it was issued to.
+ */
+export const consumeVerificationToken = async (token: string, purpose: VerificationPurpose) => {
+  const record = await prisma.verificationToken.findUnique({ where: { tokenHash: hashToken(token) } });
+
+  if (!record || record.purpose !== purpose || record.usedAt || record.expiresAt <= new Date()) {
+    throw new VerificationError("This link is invalid or has expired.");
+  }
+
+  // Claim the token so it cannot be redeemed twice
+  const { count } = await prisma.verificationToken.updateMany({
+    where: { id: record.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  if (count === 0) {
+    throw new VerificationError("This link has already been used.");
+  }
+
+  return record.userId;
+};
+
+/**
+ * Emails the user a link that verifies their email address.
+ */
+export const sendVerificationEmail = async (user: Pick<User, "id" | "email" | "firstName" | "locale">) => {
+  const expiresInHours = emailVerificationTtlHours();
+  const { token } = await issueVerificationToken(user.id, "EMAIL_VERIFICATION", expiresInHours * 60);
+
+  await sendTemplatedEmail({
+    to: user.email,
+    locale: user.locale,
+    template: "emailVerification",
+    variables: {
+      firstName: user.firstName,
+      verifyUrl: `${process.env.BASE_URL}/api/auth/verify-email?token=${encodeURIComponent(token)}`,
+      expiresInHours,
+    },
+  });
+};
+
+/**
+ * Marks the user behind an email verification token as verified.
+ */
+export const verifyEmail = async (token: string) => {
+  const userId = await consumeVerificationToken(token, "EMAIL_VERIFICATION");
+  return prisma.user.update({ where: { id: userId }, data: { isVerified: true } });
+};
+
+/**
+ * Emails the user a single-use link for choosing a new password.
+ */
+export const sendPasswordResetEmail = async (user: Pick<User, "id" | "email" | "firstName" | "locale">) => {
+  const expiresInMinutes = passwordResetTtlMinutes();
+  const { token } = await issueVerificationToken(user.id, "PASSWORD_RESET", expiresInMinutes);
+
+  await sendTemplatedEmail({
+    to: user.email,
+    locale: user.locale,
+    template: "passwordReset",
+    variables: {
+      firstName: user.firstName,
+      resetUrl: `${process.env.FRONTEND_URL}/reset-password?token=${encodeURIComponent(token)}`,
+      expiresInMinutes,
+    },
+  });
+};
+
+/**
+ * Sets a new password from a reset token and signs the user out everywhere.
+ * Following the emailed link also proves the address, so it is marked verified.
+ */
+export const resetPassword = async (token: string, newPassword: string) => {
+  const userId = await consumeVerificationToken(token, "PASSWORD_RESET");
+
+  const user = await prisma.user.update({
+    where: { id: userId },
+    data: { password: await bcrypt.hash(newPassword, 10), isVerified: true },
+  });
+
+  await revokeAllSessions(userId, "Password reset");
+
+  return user;
+};
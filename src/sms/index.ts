@@ -0,0 +1,39 @@
+import en from "./locales/en";
+import { LocaleSms, SmsLocale, SmsTemplateName, SmsTemplateVariables, SmsTemplates } from "./types";
+
+export * from "./types";
+
+// One GSM-7 SMS; longer messages are split and billed as several
+export const SMS_MAX_LENGTH = 160;
+
+// Shortest a title is cut to before the whole message is truncated instead
+const MIN_TITLE_LENGTH = 12;
+
+/**
+ * Translations by locale, falling back to English like the email templates.
+ */
+const LOCALES: { en: LocaleSms } & Partial<Record<SmsLocale, LocaleSms<Partial<SmsTemplates>>>> = { en };
+
+const shorten = (value: string, length: number) =>
+  value.length > length ? `${value.slice(0, Math.max(length - 3, 0))}...` : value;
+
+/**
+ * Renders a named SMS template in the given locale. If the message is longer
+ * than SMS_MAX_LENGTH, the assignment title is shortened to fit.
+ */
+export const renderSms = <N extends SmsTemplateName>(
+  name: N,
+  variables: SmsTemplateVariables[N],
+  locale = "en"
+): string => {
+  const translation = (LOCALES as Partial<Record<string, LocaleSms<Partial<SmsTemplates>>>>)[locale];
+  const localized = translation?.templates[name] as SmsTemplates[N] | undefined;
+  const { format } = localized && translation ? translation : LOCALES.en;
+  const template = localized ?? (LOCALES.en.templates[name] as SmsTemplates[N]);
+
+  const text = template(variables, format);
+  if (text.length <= SMS_MAX_LENGTH) return text;
+
+  const titleLength = Math.max(variables.title.length - (text.length - SMS_MAX_LENGTH), MIN_TITLE_LENGTH);
+  return shorten(template({ ...variables, title: shorten(variables.title, titleLength) }, format), SMS_MAX_LENGTH);
+};
@@ -0,0 +1,21 @@
+import { LocaleSms } from "../types";
+
+// Plain ASCII only: any other character halves the length of an SMS
+const en: LocaleSms = {
+  format: {
+    date: (date) => `${date.toISOString().slice(0, 16).replace("T", " ")} UTC`,
+    money: (amount) => `GHS ${amount.toFixed(2)}`,
+  },
+  templates: {
+    quoteReceived: ({ title, price, expiresAt }, format) =>
+      `A+ Planner: "${title}" was priced at ${format.money(price)}. Accept or decline by ${format.date(expiresAt)}.`,
+    solutionReady: ({ title, paymentDue }, format) =>
+      paymentDue !== null
+        ? `A+ Planner: the solution for "${title}" is ready. Pay ${format.money(paymentDue)} to download it.`
+        : `A+ Planner: the solution for "${title}" is ready to download.`,
+    paymentReceived: ({ title, amount }, format) =>
+      `A+ Planner: we received your payment of ${format.money(amount)} for "${title}". Thank you.`,
+  },
+};
+
+export default en;
@@ -0,0 +1,34 @@
+import { EmailLocale } from "../emails";
+
+export type SmsLocale = EmailLocale;
+
+/**
+ * The variables each SMS template is rendered with. Every template names the
+ * assignment, so a long title can be shortened to keep the message in one SMS.
+ */
+export interface SmsTemplateVariables {
+  quoteReceived: { title: string; price: number; expiresAt: Date };
+  solutionReady: { title: string; paymentDue: number | null }; // paymentDue in GHS, when it must be paid first
+  paymentReceived: { title: string; amount: number }; // In GHS
+}
+
+export type SmsTemplateName = keyof SmsTemplateVariables;
+
+export interface SmsFormatters {
+  date: (date: Date) => string;
+  money: (amount: number) => string; // Amount in GHS
+}
+
+export type SmsTemplates = {
+  [N in SmsTemplateName]: (variables: SmsTemplateVariables[N], format: SmsFormatters) => string;
+};
+
+export interface LocaleSms<T = SmsTemplates> {
+  format: SmsFormatters;
+  templates: T;
+}
+
+// A template name with its variables, e.g. for a notification's SMS
+export type TemplatedSms = {
+  [N in SmsTemplateName]: { template: N; variables: SmsTemplateVariables[N] };
+}[SmsTemplateName];
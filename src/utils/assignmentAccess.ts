@@ -0,0 +1,13 @@
+import { Assignment } from "@prisma/client";
+
+/**
+ * Admins see every assignment; students and tutors only the ones they are part of.
+ */
+export const canViewAssignment = (
+  user: { id?: string; role: string },
+  assignment: Pick<Assignment, "studentId" | "assignedTutorId">
+) => {
+  if (user.role === "ADMIN") return true;
+  if (!user.id) return false;
+  return assignment.studentId === user.id || assignment.assignedTutorId === user.id;
+};
@@ -0,0 +1,15 @@
+import { UploadApiOptions, UploadApiResponse } from "cloudinary";
+import cloudinary from "../config/cloudinary";
+
+/**
+ * Streams an in-memory file (from the `upload` middleware) to Cloudinary.
+ */
+export const uploadBuffer = (buffer: Buffer, options: UploadApiOptions): Promise<UploadApiResponse> =>
+  new Promise((resolve, reject) => {
+    cloudinary.uploader
+      .upload_stream({ resource_type: "auto", ...options }, (error, result) => {
+        if (error || !result) reject(error ?? new Error("Cloudinary returned no upload result"));
+        else resolve(result);
+      })
+      .end(buffer);
+  });
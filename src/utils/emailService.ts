@@ -1,24 +1,63 @@
-import nodemailer from "nodemailer";
+import { EmailTemplateName, EmailTemplateVariables, TOKEN_BEARING_EMAIL_TEMPLATES, renderEmail } from "../emails";
+import { queueEmail } from "../services/emailOutboxService";
+import { getMailTransport } from "./mailTransport";
 
-const transporter = nodemailer.createTransport({
-  service: "Gmail",
-  auth: {
-    user: process.env.EMAIL_USER,
-    pass: process.env.EMAIL_PASS,
-  },
-});
-
-// ✅ Update function to accept an object with named parameters
-export const sendEmail = async ({ to, subject, text }: { to: string; subject: string; text: string }) => {
+/**
+ * Sends an email through the outbox. Returns whether it was delivered right
+ * away; if not, it is retried in the background. Never throws, so a
+ * notification cannot fail the request that triggered it.
+ */
+export const sendEmail = async ({
+  to,
+  subject,
+  text,
+  html,
+  template,
+  locale,
+  sensitive,
+}: {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  template?: string;
+  locale?: string;
+  sensitive?: boolean; // The body carries a secret, e.g. a single-use link, and is not stored
+}) => {
   try {
-    await transporter.sendMail({
-      from: process.env.EMAIL_USER,
-      to,
-      subject,
-      text,
-    });
-    console.log(`📩 Email sent to ${to}`);
+    return await queueEmail({ to, subject, text, html }, { template, locale, sensitive });
   } catch (error) {
-    console.error("❌ Error sending email:", error);
+    // The outbox itself is unavailable, e.g. the database is down: try once without it
+    console.error("❌ Error queueing email:", error);
+    try {
+      await getMailTransport().send({ to, subject, text, html });
+      return true;
+    } catch (sendError) {
+      console.error("❌ Error sending email:", sendError);
+      return false;
+    }
   }
 };
+
+/**
+ * Renders a named template in the recipient's locale and sends it. Emails with
+ * single-use links are sent without storing their bodies.
+ */
+export const sendTemplatedEmail = async <N extends EmailTemplateName>({
+  to,
+  template,
+  variables,
+  locale,
+}: {
+  to: string;
+  template: N;
+  variables: EmailTemplateVariables[N];
+  locale?: string;
+}) =>
+  sendEmail({
+    to,
+    ...renderEmail(template, variables, locale),
+    template,
+    locale,
+    sensitive: TOKEN_BEARING_EMAIL_TEMPLATES.includes(template),
+  });
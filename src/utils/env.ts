@@ -0,0 +1,16 @@
+/**
+ * A positive number from an environment variable, or `fallback` when it is unset or invalid.
+ */
+export const positiveNumberFromEnv = (name: string, fallback: number) => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+/**
+ * A percentage (0 to 100) from an environment variable, or `fallback` when it is unset or invalid.
+ */
+export const percentFromEnv = (name: string, fallback: number) => {
+  const raw = process.env[name]?.trim();
+  const value = raw ? Number(raw) : NaN;
+  return Number.isFinite(value) && value >= 0 && value <= 100 ? value : fallback;
+};
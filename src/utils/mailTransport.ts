@@ -0,0 +1,94 @@
+import crypto from "crypto";
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import nodemailer from "nodemailer";
+import { positiveNumberFromEnv } from "./env";
+
+export interface OutgoingEmail {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string | null;
+}
+
+export interface MailTransport {
+  name: string;
+  // Throws when the email could not be handed over
+  send: (email: OutgoingEmail) => Promise<void>;
+}
+
+const fromAddress = () => process.env.EMAIL_FROM || process.env.EMAIL_USER;
+
+/**
+ * SMTP_HOST/SMTP_PORT/SMTP_SECURE for any SMTP server, or Gmail when no host
+ * is set. Both log in with EMAIL_USER and EMAIL_PASS.
+ */
+const smtpTransport = (): MailTransport => {
+  const auth = { user: process.env.EMAIL_USER, pass: process.env.EMAIL_PASS };
+  const transporter = process.env.SMTP_HOST
+    ? nodemailer.createTransport({
+        host: process.env.SMTP_HOST,
+        port: positiveNumberFromEnv("SMTP_PORT", 587),
+        secure: process.env.SMTP_SECURE === "true",
+        auth,
+      })
+    : nodemailer.createTransport({ service: "Gmail", auth });
+
+  return {
+    name: "smtp",
+    send: async ({ to, subject, text, html }) => {
+      await transporter.sendMail({ from: fromAddress(), to, subject, text, html: html ?? undefined });
+    },
+  };
+};
+
+/**
+ * Writes each email as a JSON file to EMAIL_FILE_DIR (default ./tmp/emails),
+ * for tests and local development.
+ */
+const fileTransport = (): MailTransport => {
+  const directory = path.resolve(process.env.EMAIL_FILE_DIR || "tmp/emails");
+
+  return {
+    name: "file",
+    send: async (email) => {
+      await mkdir(directory, { recursive: true });
+      const fileName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${crypto.randomUUID()}.json`;
+      await writeFile(
+        path.join(directory, fileName),
+        JSON.stringify({ from: fromAddress(), ...email, sentAt: new Date() }, null, 2)
+      );
+    },
+  };
+};
+
+const consoleTransport = (): MailTransport => ({
+  name: "console",
+  send: async ({ to, subject, text }) => {
+    console.log(`📩 Email to ${to}: ${subject}\n\n${text}\n`);
+  },
+});
+
+const TRANSPORTS: Record<string, () => MailTransport> = {
+  smtp: smtpTransport,
+  file: fileTransport,
+  console: consoleTransport,
+};
+
+let transport: MailTransport | undefined;
+
+/**
+ * The transport chosen by EMAIL_TRANSPORT: smtp (default), file or console.
+ */
+export const getMailTransport = () => {
+  if (!transport) {
+    const name = process.env.EMAIL_TRANSPORT || "smtp";
+    const create = TRANSPORTS[name];
+
+    if (!create) {
+      throw new Error(`Unknown EMAIL_TRANSPORT "${name}". Use one of: ${Object.keys(TRANSPORTS).join(", ")}.`);
+    }
+    transport = create();
+  }
+  return transport;
+};
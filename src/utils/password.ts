@@ -0,0 +1,2 @@
+// Shortest password accepted for any account, admins included
+export const MIN_PASSWORD_LENGTH = 8;
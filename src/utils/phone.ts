@@ -0,0 +1,50 @@
+// Network prefixes used by Paystack's Ghana mobile money bank codes
+const MOMO_PROVIDER_PREFIXES: Record<string, string[]> = {
+  MTN: ["024", "025", "053", "054", "055", "059"],
+  VOD: ["020", "050"],
+  ATL: ["026", "027", "056", "057"],
+};
+
+/**
+ * Normalizes a Ghanaian mobile number ("+233 24 123 4567", "233241234567",
+ * "0241234567") to the 10-digit local form. Returns null if it is not one.
+ */
+export const normalizeGhanaPhone = (value: string): string | null => {
+  const digits = value.replace(/[\s\-()]/g, "").replace(/^\+/, "");
+
+  let local: string;
+  if (/^233\d{9}$/.test(digits)) {
+    local = `0${digits.slice(3)}`;
+  } else if (/^0\d{9}$/.test(digits)) {
+    local = digits;
+  } else {
+    return null;
+  }
+
+  return /^0[235]\d{8}$/.test(local) ? local : null;
+};
+
+/**
+ * Paystack bank code (MTN, VOD, ATL) for a mobile money number, or null if the
+ * network is not supported.
+ */
+export const momoProvider = (value: string): string | null => {
+  const local = normalizeGhanaPhone(value);
+  if (!local) return null;
+
+  const prefix = local.slice(0, 3);
+  const provider = Object.keys(MOMO_PROVIDER_PREFIXES).find((code) =>
+    MOMO_PROVIDER_PREFIXES[code].includes(prefix)
+  );
+
+  return provider ?? null;
+};
+
+/**
+ * A Ghanaian mobile number in international form without the plus
+ * (233XXXXXXXXX), as SMS gateways expect it. Returns null if it is not one.
+ */
+export const toInternationalGhanaPhone = (value: string): string | null => {
+  const local = normalizeGhanaPhone(value);
+  return local ? `233${local.slice(1)}` : null;
+};
@@ -0,0 +1,33 @@
+import { Prisma, User } from "@prisma/client";
+
+/**
+ * The user fields that are safe to send to clients. Leaves out the password
+ * hash and the Paystack recipient code.
+ */
+export const publicUserSelect = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  email: true,
+  role: true,
+  programSpecialty: true,
+  certificateUrl: true,
+  university: true,
+  department: true,
+  phoneNumber: true,
+  momoNumber: true,
+  messageEmails: true,
+  locale: true,
+  smsNotifications: true,
+  isVerified: true,
+  isApproved: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.UserSelect;
+
+export type PublicUser = Prisma.UserGetPayload<{ select: typeof publicUserSelect }>;
+
+export const toPublicUser = (user: User): PublicUser => {
+  const { password, paystackRecipientCode, ...publicFields } = user;
+  return publicFields;
+};
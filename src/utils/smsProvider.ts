@@ -0,0 +1,73 @@
+import axios from "axios";
+
+export interface SmsProvider {
+  name: string;
+  // `to` is in international form (233XXXXXXXXX). Throws when the message was not accepted
+  send: (to: string, text: string) => Promise<void>;
+}
+
+export interface FakeSms {
+  to: string;
+  text: string;
+  sentAt: Date;
+}
+
+// Messages "sent" by the fake provider, newest last, for tests to inspect
+export const fakeSmsInbox: FakeSms[] = [];
+
+const fakeProvider = (): SmsProvider => ({
+  name: "fake",
+  send: async (to, text) => {
+    fakeSmsInbox.push({ to, text, sentAt: new Date() });
+  },
+});
+
+const consoleProvider = (): SmsProvider => ({
+  name: "console",
+  send: async (to, text) => {
+    console.log(`📱 SMS to ${to}: ${text}`);
+  },
+});
+
+/**
+ * Arkesel, a Ghanaian SMS gateway. Needs ARKESEL_API_KEY; messages come from
+ * SMS_SENDER_ID (at most 11 characters, registered with Arkesel).
+ */
+const arkeselProvider = (): SmsProvider => ({
+  name: "arkesel",
+  send: async (to, text) => {
+    const response = await axios.post(
+      "https://sms.arkesel.com/api/v2/sms/send",
+      { sender: process.env.SMS_SENDER_ID || "APlusPlan", message: text, recipients: [to] },
+      { headers: { "api-key": process.env.ARKESEL_API_KEY } }
+    );
+
+    if (response.data?.status !== "success") {
+      throw new Error(`Arkesel rejected the SMS: ${JSON.stringify(response.data)}`);
+    }
+  },
+});
+
+const PROVIDERS: Record<string, () => SmsProvider> = {
+  console: consoleProvider,
+  fake: fakeProvider,
+  arkesel: arkeselProvider,
+};
+
+let provider: SmsProvider | undefined;
+
+/**
+ * The provider chosen by SMS_PROVIDER: console (default), fake or arkesel.
+ */
+export const getSmsProvider = () => {
+  if (!provider) {
+    const name = process.env.SMS_PROVIDER || "console";
+    const create = PROVIDERS[name];
+
+    if (!create) {
+      throw new Error(`Unknown SMS_PROVIDER "${name}". Use one of: ${Object.keys(PROVIDERS).join(", ")}.`);
+    }
+    provider = create();
+  }
+  return provider;
+};
@@ -0,0 +1,39 @@
+import { SmsTemplateName, SmsTemplateVariables, renderSms } from "../sms";
+import { toInternationalGhanaPhone } from "./phone";
+import { getSmsProvider } from "./smsProvider";
+
+/**
+ * Sends a text message. Returns whether the provider accepted it; failures are
+ * logged rather than thrown, like emails.
+ */
+export const sendSms = async ({ to, text }: { to: string; text: string }) => {
+  const recipient = toInternationalGhanaPhone(to);
+
+  if (!recipient) {
+    console.error(`❌ Not sending SMS to invalid phone number ${to}`);
+    return false;
+  }
+
+  try {
+    await getSmsProvider().send(recipient, text);
+    console.log(`📱 SMS sent to ${recipient}`);
+    return true;
+  } catch (error) {
+    console.error("❌ Error sending SMS:", error);
+    return false;
+  }
+};
+
+/**
+ * Texts a user from a named template in their locale, unless they have no
+ * phone number or turned SMS notifications off. Returns whether it was sent.
+ */
+export const sendTemplatedSms = async <N extends SmsTemplateName>(
+  user: { phoneNumber: string | null; smsNotifications: boolean; locale: string },
+  template: N,
+  variables: SmsTemplateVariables[N]
+) => {
+  if (!user.phoneNumber || !user.smsNotifications) return false;
+
+  return sendSms({ to: user.phoneNumber, text: renderSms(template, variables, user.locale) });
+};
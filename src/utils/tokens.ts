@@ -0,0 +1,11 @@
+import crypto from "crypto";
+
+export const hashToken = (token: string) => crypto.createHash("sha256").update(token).digest("hex");
+
+/**
+ * A random URL-safe token and its SHA-256 hash. Only the hash is stored.
+ */
+export const generateToken = () => {
+  const token = crypto.randomBytes(32).toString("base64url");
+  return { token, tokenHash: hashToken(token) };
+};